@@ -1,365 +1,557 @@
-
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
 import { 
   GamePhase, 
   GameSettings, 
+  MatchOutcome,
   Player, 
-  HanjaData, 
   Cell, 
-  QuizState,
-  Grade
+  ClientMessage,
+  GameAction,
+  Grade,
+  Locale,
+  MessageRef,
+  RoomInfo,
+  ScoringRules,
+  ServerMessage,
+  SeatConfig,
+  Tournament,
+  TournamentFormat
 } from './types';
-import { fetchHanjaData } from './services/geminiService';
+import { fetchHanjaData, isProviderReady } from './services/hanjaProviders';
+import { ContentSettings as ContentSettingsValue, loadContentSettings, saveContentSettings } from './services/contentSettings';
+import { WordList, dealWordList, loadWordLists, saveWordLists } from './services/wordLists';
+import { BUNDLED_GRADES, GRADES, gradeLevel } from './services/hanjaSource';
+import { summarizeReport } from './services/hanjaValidation';
+import { getReviewWeight, recordAnswer } from './services/studyProfile';
+import { SavedGame, clearSavedGame, loadSavedGame, loadTournament, saveGame, saveTournament } from './services/savedGame';
+import { Preferences, applyPreferences, loadPreferences, savePreferences } from './services/preferences';
+import { PlayerProfile, ProfileAward, loadProfiles, recordProfileGames, saveProfiles } from './services/profiles';
+import { LOCALES, LOCALE_NAMES, formatGrade, getLocale, setLocale, t, translate } from './services/i18n';
+import { DEFAULT_SERVER_URL, NetConnection, NetStatus, connect, loadSession } from './services/netClient';
+import {
+  gameReducer,
+  initialGameState,
+  DEFAULT_SETTINGS,
+  SHIELD_GAUGE_MAX,
+  PLAYOFF_ROUNDS,
+  TURN_START_DELAY,
+  RESULTS_DELAY,
+  getActivePlayer,
+  getAnswerOutcome,
+  getDrafterId,
+  getHumanPlayers,
+  getBoardCellCount,
+  getDefaultSeatName,
+  getSelectableCells,
+  isTimedPhase,
+  startGame as createGameStart,
+  autoFillDraft,
+  selectCard,
+  resolveTimeout,
+  advance,
+  stampAction
+} from './engine/gameEngine';
+import { BOARD_SIZES, WIN_PATTERNS, getGoalProgress, getLines } from './engine/board';
+import { QUIZ_DIFFICULTIES } from './engine/distractors';
+import { TIE_BREAKS } from './engine/scoring';
+import {
+  BEST_OF_OPTIONS,
+  TOURNAMENT_FORMATS,
+  createTournament,
+  getGamesPlanned,
+  getNextPairing,
+  getTournamentGameSettings,
+  isTournamentOver,
+  recordTournamentGame
+} from './engine/tournament';
+import { createRng, createSeed, normalizeSeed, seedToState } from './engine/random';
+import { announceChange } from './engine/announcements';
+import { maskEvents } from './engine/view';
+import { QUIZ_TYPES_BY_GRADE, isCorrectAnswer } from './engine/quiz';
+import { AIMove, AI_FINISH_PEEK_DELAY, AI_LEVELS, decideAnswer, decideDraftPlacement, decidePeek, decideSelect } from './engine/ai';
 import Card from './components/Card';
+import BoardGrid from './components/BoardGrid';
 import QuizBattle from './components/QuizBattle';
-import { Users, Grid3X3, Trophy, Play, SkipForward, Eye, BrainCircuit, Timer, CheckCircle2, XCircle, ChevronRight, Hourglass, ScrollText, Sparkles, Swords } from 'lucide-react';
+import DraftBoard from './components/DraftBoard';
+import BonusGauge from './components/BonusGauge';
+import PrivacyScreen from './components/PrivacyScreen';
+import OnlineLobby from './components/OnlineLobby';
+import StudyReview from './components/StudyReview';
+import ContentSettings from './components/ContentSettings';
+import WordListEditor from './components/WordListEditor';
+import ReplayViewer from './components/ReplayViewer';
+import MatchReport from './components/MatchReport';
+import TournamentStandings from './components/TournamentStandings';
+import ProfileManager from './components/ProfileManager';
+import EventLog from './components/EventLog';
+import { Accessibility, Users, Grid3X3, BookOpen, Globe, History, Film, Share2, ClipboardList, LogOut, WifiOff, Trophy, Play, SkipForward, Eye, BrainCircuit, Timer, CheckCircle2, XCircle, ChevronRight, Hourglass, Database, ListChecks, Swords, UserCircle, Award } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
-// --- Utils ---
-function shuffle<T>(array: T[]): T[] {
-  return [...array].sort(() => Math.random() - 0.5);
-}
+const getMaxLines = (size: number) => getLines(size).length;
 
-const COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b']; // Blue, Red, Green, Yellow
-const TURN_TIMEOUT = 30; // Shared time for PEEK and SELECT
-const QUIZ_TIMEOUT = 10;
+// A shared link (?seed=ABC123) starts the setup screen with that match seed
+const readSeedFromUrl = () => normalizeSeed(new URLSearchParams(window.location.search).get('seed') || '');
 
-const checkBingo = (board: Cell[]): number => {
-  const size = 5;
-  let lines = 0;
+const getShareLink = (seed: string) => `${window.location.origin}${window.location.pathname}?seed=${seed}`;
 
-  // Rows
-  for (let i = 0; i < size; i++) {
-    if (board.slice(i * size, (i + 1) * size).every(c => c.isFlipped)) lines++;
-  }
-  // Cols
-  for (let i = 0; i < size; i++) {
-    let colFull = true;
-    for (let j = 0; j < size; j++) {
-      if (!board[j * size + i].isFlipped) colFull = false;
-    }
-    if (colFull) lines++;
-  }
-  // Diagonals
-  if ([0, 6, 12, 18, 24].every(i => board[i].isFlipped)) lines++;
-  if ([4, 8, 12, 16, 20].every(i => board[i].isFlipped)) lines++;
+// The live region lives in index.html so it exists before the first message, whichever screen is up
+const announce = (message: string) => {
+  const region = document.getElementById('announcer');
+  if (region) region.textContent = message;
+};
 
-  return lines;
+const SCORING_TOGGLES = ['orderBonus', 'speedBonus', 'wrongPenalty', 'steal'] as const;
+
+const formatGoal = (board: Cell[], settings: GameSettings) => {
+  const { done, total } = getGoalProgress(board, settings.winPattern, settings.winLines);
+  return settings.winPattern === 'LINES'
+    ? t('goal.lines', { done, total })
+    : t('goal.pattern', { pattern: t(`winPattern.${settings.winPattern}`), done, total });
+};
+
+const formatOutcome = (outcome: MatchOutcome | null, players: Player[]) => {
+  const names = players.filter(p => outcome?.winnerIds.includes(p.id)).map(p => p.name).join(', ');
+  if (outcome?.kind === 'DRAW') return t('gameOver.draw');
+  return outcome?.kind === 'SHARED' ? t('gameOver.shared', { names }) : t('gameOver.winner', { name: names });
+};
+
+const formatOutcomeDetail = (outcome: MatchOutcome | null) => {
+  if (outcome?.kind === 'DRAW') return t('gameOver.drawDetail');
+  if (outcome?.kind === 'SHARED' && outcome.tieBreak === 'PLAYOFF') return t('gameOver.playoffShared');
+  return outcome?.tieBreak ? t(`gameOver.tieBreak.${outcome.tieBreak}`) : t('gameOver.subtitle');
 };
 
 const App: React.FC = () => {
   // --- State ---
-  const [phase, setPhase] = useState<GamePhase>(GamePhase.SETUP);
-  const [settings, setSettings] = useState<GameSettings>({
-    grade: '8급',
-    playerCount: 2,
-    mode: 'STANDARD',
-    winLines: 1
-  });
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [turnIndex, setTurnIndex] = useState(0);
-  const [peekedCardIds, setPeekedCardIds] = useState<string[]>([]); // Current turn peeking
-  const [quizState, setQuizState] = useState<QuizState | null>(null);
-  const [gameLog, setGameLog] = useState<string[]>([]);
-  const [timeLeft, setTimeLeft] = useState(0);
-  
-  // Refs for async logic (avoid stale closures)
-  const playersRef = useRef(players);
-  playersRef.current = players;
-  const phaseRef = useRef(phase);
-  phaseRef.current = phase;
-
-  const activePlayer = players[turnIndex];
-  const isMyTurn = activePlayer?.id === 'player-1';
-
-  // --- Helpers ---
-  const addLog = (msg: string) => setGameLog(prev => [msg, ...prev].slice(0, 5));
+  // All game rules live in the engine reducer; this component only renders and dispatches.
+  const [state, dispatchAction] = useReducer(gameReducer, initialGameState);
+  const dispatch = (action: GameAction) => dispatchAction(stampAction(action));
+  const [settings, setSettings] = useState<GameSettings>(() => ({ ...DEFAULT_SETTINGS, seed: readSeedFromUrl() }));
+  const [setupError, setSetupError] = useState<MessageRef | null>(null);
+  const [showStudy, setShowStudy] = useState(false);
+  const [showContent, setShowContent] = useState(false);
+  const [contentSettings, setContentSettings] = useState<ContentSettingsValue>(loadContentSettings);
+  const [showWordLists, setShowWordLists] = useState(false);
+  const [wordLists, setWordLists] = useState<WordList[]>(loadWordLists);
+  const [wordListId, setWordListId] = useState<string | null>(null);
+  const [wordListAutoFill, setWordListAutoFill] = useState(false);
+  const selectedWordList = wordLists.find(list => list.id === wordListId);
+  const [tournament, setTournament] = useState<Tournament | null>(loadTournament);
+  const [showStandings, setShowStandings] = useState(false);
+  const [matchFormat, setMatchFormat] = useState<TournamentFormat | null>(null); // null: a single game
+  const [bestOf, setBestOf] = useState(BEST_OF_OPTIONS[0]);
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(loadProfiles);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [profileAwards, setProfileAwards] = useState<ProfileAward[]>([]);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [seedCopied, setSeedCopied] = useState(false);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(loadSavedGame);
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
 
-  // --- Phase Logic ---
+  const { phase, players, peekedCardIds, quiz: quizState, draft, timeLeft } = state;
 
-  const startGame = async () => {
-    setPhase(GamePhase.LOADING);
-    const hanjaPool = await fetchHanjaData(settings.grade, 25);
-    
-    // Create Players with Numbered Names
-    const newPlayers: Player[] = Array.from({ length: settings.playerCount }).map((_, i) => ({
-      id: `player-${i + 1}`,
-      name: i === 0 ? 'P1 나' : `P${i + 1} AI`,
-      isAI: i !== 0,
-      board: shuffle(hanjaPool).map((h, idx) => ({ 
-        id: `${h.id}-${i}`, 
-        hanja: h, 
-        isFlipped: false, 
-        isPeeked: false,
-        gridIndex: idx 
-      })),
-      score: 0,
-      color: COLORS[i],
-      bonusGauge: 0,
-      hasShield: false
-    }));
+  // Latest state for AI timers scheduled in earlier renders
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
-    setPlayers(newPlayers);
-    // RANDOM TURN ORDER
-    const startTurn = Math.floor(Math.random() * newPlayers.length);
-    setTurnIndex(startTurn);
-    
-    setPhase(GamePhase.TURN_START);
-    addLog(`게임 시작! ${settings.grade}, ${settings.mode} 모드.`);
-  };
+  // Online play: the server (server/) owns the state and sends this seat's view of it
+  const connectionRef = useRef<NetConnection | null>(null);
+  const joinedRef = useRef(false);
+  const [netStatus, setNetStatus] = useState<NetStatus | null>(null);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [onlinePlayerId, setOnlinePlayerId] = useState<string | null>(null);
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SERVER_URL);
+  const [roomCodeInput, setRoomCodeInput] = useState('');
+  const isOnline = netStatus !== null;
+
+  // Grades past BUNDLED_GRADES need their characters from a word list or another source
+  const usesProvider = contentSettings.provider !== 'BUNDLED' && !settings.seed && isProviderReady(contentSettings);
+  const hasOwnHanja = selectedWordList ? !wordListAutoFill : usesProvider;
+  const gradeChoices = hasOwnHanja ? GRADES : BUNDLED_GRADES;
 
-  // Turn Management
   useEffect(() => {
-    if (phase === GamePhase.TURN_START) {
-      const currentPlayer = players[turnIndex];
-      // Guard against empty players during transitions
-      if (!currentPlayer) return;
+    if (!gradeChoices.includes(settings.grade)) {
+      setSettings(current => ({ ...current, grade: gradeChoices[gradeChoices.length - 1] }));
+    }
+  }, [hasOwnHanja, settings.grade]);
 
-      addLog(`${currentPlayer.name}의 차례입니다.`);
-      
-      setPeekedCardIds([]);
-      
-      // Auto-transition to PEEK
-      setTimeout(() => {
-        setPhase(GamePhase.PEEK);
-      }, 1000);
+  const activePlayer = getActivePlayer(state);
+  const boardGridStyle = { gridTemplateColumns: `repeat(${state.settings.boardSize}, minmax(0, 1fr))` };
+
+  // Hot-seat: the main board belongs to the human holding the device. When another human's
+  // turn comes up, a privacy screen is shown until they take over. Without a human seat
+  // (an AI-only tournament pairing) there is no viewer and the device only watches.
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const humans = getHumanPlayers(state);
+  const viewer = isOnline
+    ? players.find(p => p.id === onlinePlayerId)
+    : players.find(p => p.id === viewerId) || humans[0];
+  const turnOwner = phase === GamePhase.DRAFT && draft
+    ? players.find(p => p.id === getDrafterId(draft))
+    : activePlayer;
+  const needsHandoff = !isOnline && humans.length > 1
+    && !!turnOwner && !turnOwner.isAI && turnOwner.id !== viewer?.id
+    && [GamePhase.DRAFT, GamePhase.TURN_START, GamePhase.PEEK, GamePhase.SELECT].includes(phase);
+  const isMyTurn = !!activePlayer && activePlayer.id === viewer?.id && !needsHandoff;
+  const selectableCells = viewer ? getSelectableCells(state, viewer) : [];
+  const isTournamentGame = !isOnline && !!tournament?.games.some(g => g.seed === state.seed);
+
+  useEffect(() => {
+    if (humans.length > 0 && !humans.some(p => p.id === viewerId)) setViewerId(humans[0].id);
+  }, [players]);
+
+  // --- Online ---
+
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'JOINED':
+        joinedRef.current = true;
+        setOnlinePlayerId(message.playerId);
+        setSetupError(null);
+        break;
+      case 'ROOM':
+        setRoom(message.room);
+        break;
+      case 'STATE':
+        dispatch({ type: 'SYNC', state: message.state });
+        break;
+      case 'ERROR':
+        setSetupError(message.message);
+        // Failing to get a seat (bad code, full room, or a seat lost to a server restart while
+        // reconnecting) ends the attempt and goes back to the lobby
+        if (!joinedRef.current) leaveOnline();
+        break;
     }
-  }, [phase, turnIndex, players]);
+  };
+
+  const connectOnline = (url: string, hello: ClientMessage) => {
+    connectionRef.current?.close();
+    joinedRef.current = false;
+    setSetupError(null);
+    connectionRef.current = connect(url, hello, handleServerMessage, status => {
+      // A reconnect has to win the seat back before errors stop counting as fatal
+      if (status === 'RECONNECTING') joinedRef.current = false;
+      setNetStatus(status);
+    });
+  };
 
-  // Timer Initialization on Phase Change
+  const leaveOnline = (reset = true) => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setNetStatus(null);
+    setRoom(null);
+    setOnlinePlayerId(null);
+    if (reset) dispatch({ type: 'RESET' });
+  };
+
+  const myName = settings.seats.find(seat => !seat.isAI)?.name || '';
+
+  // Rejoin the previous seat after a page reload
   useEffect(() => {
-    // Start shared timer at the beginning of the turn sequence (PEEK)
-    if (phase === GamePhase.PEEK) {
-      setTimeLeft(TURN_TIMEOUT);
+    const session = loadSession();
+    if (!session || connectionRef.current) return;
+    setServerUrl(session.url);
+    connectOnline(session.url, { type: 'RESUME', roomCode: session.roomCode, token: session.token });
+  }, []);
+
+  // Player intents go to the server when online, straight to the reducer otherwise
+  const act = (action: GameAction) => {
+    if (isOnline) connectionRef.current?.send({ type: 'ACTION', action });
+    else dispatch(action);
+  };
+
+  // --- Phase Logic ---
+
+  // Deals and starts one local game; resolves to its seed, or null when it could not start
+  const startGame = async (settings: GameSettings): Promise<string | null> => {
+    const cellCount = getBoardCellCount(settings);
+    if (selectedWordList && selectedWordList.hanja.length < cellCount && !wordListAutoFill) {
+      setSetupError({
+        key: 'error.listTooShort',
+        params: { name: selectedWordList.name, n: selectedWordList.hanja.length, needed: cellCount }
+      });
+      return null;
     }
-    // CRITICAL: Do NOT reset timer on GamePhase.SELECT. It shares the same countdown from PEEK.
-    
-    if (phase === GamePhase.QUIZ) {
-      setTimeLeft(QUIZ_TIMEOUT);
+    dispatch({ type: 'LOAD' });
+    const learners = settings.seats.slice(0, settings.playerCount).filter(seat => !seat.isAI).map(seat => seat.name);
+    // A fixed seed has to deal the same boards on every device, so it skips review
+    // weighting and other hanja providers, which both depend on more than the seed
+    const seed = settings.seed || createSeed();
+    const rng = createRng(seedToState(seed));
+    // A chosen word list replaces the grade sample; the grade still sets quiz types and auto-fill
+    const dealt = selectedWordList
+      ? dealWordList(selectedWordList, cellCount, settings.grade, wordListAutoFill, rng)
+      : await fetchHanjaData(
+          settings.grade,
+          cellCount,
+          settings.seed ? null : contentSettings,
+          rng,
+          settings.seed ? undefined : getReviewWeight(learners)
+        );
+    if (!dealt || dealt.hanja.length < cellCount) {
+      setSetupError({ key: 'error.notEnoughHanja', params: { level: gradeLevel(settings.grade) } });
+      dispatch({ type: 'RESET' });
+      return null;
     }
+    setSetupError(null);
+    setSavedGame(null);
+
+    const reportSummary = summarizeReport(dealt.report);
+    if (reportSummary) dispatch({ type: 'LOG', message: reportSummary });
+    setShowReplay(false);
+    setShowReport(false);
+    setSeedCopied(false);
+    dispatch(createGameStart(settings, dealt.hanja, seed));
+    return seed;
+  };
+
+  const changeTournament = (next: Tournament | null) => {
+    saveTournament(next);
+    setTournament(next);
+  };
+
+  // Seats follow their profile's name and colour, and drop a deleted one
+  const changeProfiles = (next: PlayerProfile[]) => {
+    saveProfiles(next);
+    setProfiles(next);
+    setSettings(current => ({
+      ...current,
+      seats: current.seats.map(seat => {
+        if (!seat.profileId) return seat;
+        const profile = next.find(p => p.id === seat.profileId);
+        return profile
+          ? { ...seat, name: profile.name, color: profile.color }
+          : { ...seat, profileId: undefined, color: undefined };
+      })
+    }));
+  };
+
+  const startTournamentGame = async (current: Tournament) => {
+    const pairing = getNextPairing(current);
+    if (!pairing) return;
+    setShowStandings(false);
+    const seed = await startGame(getTournamentGameSettings(current, pairing));
+    if (seed) changeTournament({ ...current, currentSeed: seed });
+  };
+
+  // The start button: a single game, or the first game of a new tournament.
+  // Tournament games between two AI seats are played out for everyone to watch.
+  const startMatch = () => {
+    if (!settings.seats.slice(0, settings.playerCount).some(seat => !seat.isAI)) {
+      setSetupError({ key: 'error.needHuman' });
+      return;
+    }
+    if (!matchFormat) {
+      startGame(settings);
+      return;
+    }
+    if (tournament && !isTournamentOver(tournament) && !confirm(t('tournament.replaceConfirm'))) return;
+    const created = createTournament(settings, matchFormat, bestOf);
+    changeTournament(created);
+    startTournamentGame(created);
+  };
+
+  // A finished tournament game goes into the standings as soon as it ends
+  useEffect(() => {
+    if (isOnline || phase !== GamePhase.GAME_OVER || !tournament) return;
+    const next = recordTournamentGame(tournament, state);
+    if (next !== tournament) changeTournament(next);
   }, [phase]);
 
-  // Timer Countdown & Expiry
+  // Profiles earn XP and achievements from local games only
   useEffect(() => {
-    let timerId: ReturnType<typeof setInterval>;
-
-    if ((phase === GamePhase.PEEK || phase === GamePhase.SELECT || phase === GamePhase.QUIZ) && timeLeft > 0) {
-      timerId = setInterval(() => {
-        setTimeLeft((t) => t - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      // Timeout Logic
-      if (phase === GamePhase.PEEK) {
-        // If time runs out in PEEK, force move to SELECT.
-        // Since timeLeft is 0, the next tick will catch phase=SELECT and time=0, triggering auto-select immediately.
-        if (phaseRef.current === GamePhase.PEEK) {
-          finishPeek();
-        }
-      } else if (phase === GamePhase.SELECT) {
-        // Auto-select random card for active player
-        if (activePlayer && phaseRef.current === GamePhase.SELECT) {
-          const unrevealed = activePlayer.board.filter(c => !c.isFlipped);
-          const target = unrevealed.length > 0 ? shuffle(unrevealed)[0] : activePlayer.board[0];
-          addLog("시간 초과! 랜덤 카드가 선택되었습니다.");
-          handleSelectCard(target.hanja);
-        }
-      } else if (phase === GamePhase.QUIZ && quizState && !quizState.resultsShown) {
-        // Auto-submit 'TIMEOUT' for anyone who hasn't answered
-        const missingPlayers = players.filter(p => !quizState.answers[p.id]);
-        if (missingPlayers.length > 0) {
-          setQuizState(prev => {
-             if (!prev) return null;
-             const newAnswers = { ...prev.answers };
-             missingPlayers.forEach(p => {
-               newAnswers[p.id] = 'TIMEOUT_WRONG';
-             });
-             return { ...prev, answers: newAnswers };
-          });
-        }
-      }
+    if (isOnline || phase !== GamePhase.GAME_OVER) {
+      setProfileAwards([]);
+      return;
     }
+    setProfileAwards(recordProfileGames(state));
+    setProfiles(loadProfiles());
+  }, [phase]);
 
-    return () => clearInterval(timerId);
-  }, [timeLeft, phase, activePlayer, players, quizState]);
 
-  // AI Behavior Controller
+  // Timed transitions: TURN_START -> PEEK, and quiz results -> evaluation
+  const resultsShown = !!quizState?.resultsShown;
   useEffect(() => {
-    if (!activePlayer?.isAI) return;
-
-    const runAITurn = async () => {
-      // 1. Peek Phase
-      if (phase === GamePhase.PEEK) {
-        // AI Peeking Strategy
-        const thinkTime = 1000 + Math.random() * 1000;
-        await new Promise(r => setTimeout(r, thinkTime)); 
-        
-        const unrevealed = activePlayer.board.filter(c => !c.isFlipped);
-        const peekCount = Math.min(2, unrevealed.length);
-        const toPeek = shuffle<Cell>(unrevealed).slice(0, peekCount).map((c) => c.id);
-        
-        setPeekedCardIds(toPeek); 
-        
-        // AI finishes peek after a short delay
-        await new Promise(r => setTimeout(r, 1500));
-        finishPeek();
-      }
-
-      // 2. Select Phase
-      if (phase === GamePhase.SELECT) {
-        // AI Selecting Strategy
-        const thinkTime = 1000 + Math.random() * 1000;
-        await new Promise(r => setTimeout(r, thinkTime)); 
-        
-        const unrevealed = activePlayer.board.filter(c => !c.isFlipped);
-        const target = unrevealed.length > 0 ? shuffle(unrevealed)[0] : activePlayer.board[0];
-        
-        if (phaseRef.current === GamePhase.SELECT) {
-          handleSelectCard(target.hanja);
-        }
-      }
-
-      // 3. Quiz Phase (Answering)
-      if (phase === GamePhase.QUIZ && quizState && !quizState.answers[activePlayer.id]) {
-        // AI answers faster now (within 5s usually since quiz is 10s)
-        const delay = 1000 + Math.random() * 3000;
-        setTimeout(() => {
-           if (phaseRef.current === GamePhase.QUIZ && timeLeft > 0) {
-               // 80% chance to be correct for higher grades, adjustable logic
-               const isCorrect = Math.random() > 0.2; 
-               const answerId = isCorrect 
-                 ? quizState.correctOptionId 
-                 : shuffle<HanjaData>(quizState.options)[0].id;
-               
-               handleQuizAnswer(activePlayer.id, answerId);
-           }
-        }, delay);
-      }
-    };
+    if (isOnline) return;
+    const delay = phase === GamePhase.TURN_START && !needsHandoff
+      ? TURN_START_DELAY
+      : phase === GamePhase.QUIZ && resultsShown ? RESULTS_DELAY : null;
+    if (delay === null) return;
 
-    runAITurn();
-  }, [phase, activePlayer, quizState]); 
+    const timer = setTimeout(() => dispatch(advance(stateRef.current)), delay);
+    return () => clearTimeout(timer);
+  }, [phase, resultsShown, state.turnIndex, needsHandoff, isOnline]);
 
-  // Simulate other AI answering during Quiz phase (Non-active players)
+  // Timer Countdown & Expiry
   useEffect(() => {
-    if (phase === GamePhase.QUIZ && quizState) {
-      players.forEach((p: Player) => {
-        if (p.isAI && !quizState.answers[p.id]) {
-            const delay = 1000 + Math.random() * 4000; 
-             const timer = setTimeout(() => {
-                 if (phaseRef.current === GamePhase.QUIZ && !quizState.answers[p.id]) {
-                     const isCorrect = Math.random() > 0.3;
-                     const targetOption = isCorrect 
-                        ? quizState.correctOptionId 
-                        : shuffle<HanjaData>(quizState.options.filter(o => o.id !== quizState.correctOptionId))[0]?.id || quizState.options[0].id;
-                     
-                     handleQuizAnswer(p.id, targetOption);
-                 }
-            }, delay);
-            return () => clearTimeout(timer);
-        }
-      });
+    if (isOnline || !isTimedPhase(phase) || resultsShown) return;
+
+    if (timeLeft > 0) {
+      const timerId = setInterval(() => dispatch({ type: 'TICK' }), 1000);
+      return () => clearInterval(timerId);
     }
-  }, [phase, quizState]);
 
+    const action = resolveTimeout(stateRef.current);
+    if (action) dispatch(action);
+  }, [phase, timeLeft === 0, resultsShown, isOnline]);
 
-  // --- Actions ---
+  // Every quiz result goes into the study profile of the humans on this device
+  const skipRecordRef = useRef(false);
+  useEffect(() => {
+    if (!resultsShown || !quizState?.targetHanja) return;
+    if (skipRecordRef.current) {
+      // Already recorded before the reload this game was restored from
+      skipRecordRef.current = false;
+      return;
+    }
+    const learners = isOnline ? (viewer ? [viewer] : []) : humans;
+    learners.forEach(p => {
+      const outcome = getAnswerOutcome(quizState, quizState.answers[p.id]);
+      recordAnswer(state.settings.seats[players.indexOf(p)]?.name || '', quizState.targetHanja!, outcome);
+    });
+  }, [resultsShown]);
 
-  const handlePeekClick = (cell: Cell) => {
-    if (phase !== GamePhase.PEEK || !isMyTurn || cell.isFlipped) return;
-    if (peekedCardIds.includes(cell.id)) return;
-    if (peekedCardIds.length < 3) {
-      setPeekedCardIds(prev => [...prev, cell.id]);
+  // Local games are saved on every phase change and answer, and once more when the page
+  // goes away so the clock resumes where it stopped
+  const answerCount = Object.keys(quizState?.answers || {}).length;
+  useEffect(() => {
+    if (isOnline) return;
+    if (phase === GamePhase.GAME_OVER) clearSavedGame();
+    else saveGame(state);
+  }, [phase, state.turnIndex, draft?.pickIndex, answerCount, resultsShown, isOnline]);
+
+  useEffect(() => {
+    if (isOnline) return;
+    const flush = () => saveGame(stateRef.current);
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [isOnline]);
+
+  const continueGame = () => {
+    if (!savedGame) return;
+    skipRecordRef.current = !!savedGame.state.quiz?.resultsShown;
+    setSettings(savedGame.state.settings);
+    dispatch({ type: 'RESTORE', state: savedGame.state });
+    setSavedGame(null);
+  };
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareLink(state.seed));
+      setSeedCopied(true);
+    } catch {
+      window.prompt(t('gameOver.sharePrompt'), getShareLink(state.seed));
     }
   };
 
-  const finishPeek = () => {
-    setPhase(GamePhase.SELECT);
-    setPeekedCardIds([]); 
-    // Do NOT reset timeLeft here. It continues from where it was.
+  const discardSavedGame = () => {
+    clearSavedGame();
+    setSavedGame(null);
   };
 
-  const handleSelectCard = (hanja: HanjaData) => {
-    // Generate Quiz
-    const isHanjaToHunEum = Math.random() > 0.5;
-    const allHanja = players[0].board.map(c => c.hanja); 
-    const distractors = shuffle(allHanja.filter(h => h.id !== hanja.id)).slice(0, 3);
-    const options = shuffle([hanja, ...distractors]);
-
-    setQuizState({
-      targetHanja: hanja,
-      type: isHanjaToHunEum ? 'HANJA_TO_HUNEUM' : 'HUNEUM_TO_HANJA',
-      options,
-      correctOptionId: hanja.id,
-      answers: {},
-      resultsShown: false
-    });
-    setPhase(GamePhase.QUIZ);
-    addLog("퀴즈 대결 시작!");
+  useEffect(() => applyPreferences(preferences), [preferences]);
+
+  const setScoring = (patch: Partial<ScoringRules>) =>
+    setSettings({ ...settings, scoring: { ...settings.scoring, ...patch } });
+
+  const toggleReducedMotion = () => {
+    const next = { ...preferences, reducedMotion: !preferences.reducedMotion };
+    savePreferences(next);
+    setPreferences(next);
   };
 
-  const handleQuizAnswer = (playerId: string, optionId: string) => {
-    setQuizState(prev => {
-      if (!prev) return null;
-      if (prev.answers[playerId]) return prev;
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
-      const newAnswers = { ...prev.answers, [playerId]: optionId };
-      return { ...prev, answers: newAnswers };
-    });
+  const changeWordLists = (next: WordList[]) => {
+    saveWordLists(next);
+    setWordLists(next);
+  };
+
+  const changeContentSettings = (next: ContentSettingsValue) => {
+    saveContentSettings(next);
+    setContentSettings(next);
+  };
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
   };
 
-  // Evaluate Quiz Results
+  // Turns, timer warnings and results, read out for screen readers
+  const announcedStateRef = useRef(state);
   useEffect(() => {
-    if (phase === GamePhase.QUIZ && quizState) {
-      const allAnswered = players.every(p => quizState.answers[p.id]);
-      
-      if (allAnswered && !quizState.resultsShown) {
-        setQuizState(prev => prev ? ({ ...prev, resultsShown: true }) : null);
-        // Delay to show results on the board
-        setTimeout(() => {
-          evaluateRound();
-        }, 3000);
-      }
+    const message = viewer && announceChange(announcedStateRef.current, state, viewer.id);
+    announcedStateRef.current = state;
+    if (message) announce(message);
+  }, [state]);
+
+  // Game Over celebration
+  useEffect(() => {
+    if (phase === GamePhase.GAME_OVER && !preferences.reducedMotion) {
+      confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 } });
     }
-  }, [quizState, phase, players]);
+  }, [phase]);
 
-  const evaluateRound = () => {
-    if (!quizState) return;
+  // AI Behavior Controller
+  const runAIMove = (move: AIMove | null, timers: ReturnType<typeof setTimeout>[], afterActions?: () => void) => {
+    if (!move) return;
+    timers.push(setTimeout(() => {
+      move.actions.forEach(dispatch);
+      afterActions?.();
+    }, move.delay));
+  };
 
-    const correctHanjaId = quizState.correctOptionId;
-    
-    const nextPlayers = players.map((p: Player) => {
-        const userAnswer = quizState.answers[p.id];
-        const isCorrect = userAnswer === correctHanjaId;
-        
-        if (isCorrect) {
-            const updatedBoard = p.board.map(cell => {
-                if (cell.hanja.id === correctHanjaId) {
-                    return { ...cell, isFlipped: true };
-                }
-                return cell;
-            });
-            const bingoCount = checkBingo(updatedBoard);
-            return {
-                ...p,
-                board: updatedBoard,
-                score: bingoCount
-            };
-        }
-        return p;
-    });
+  useEffect(() => {
+    if (isOnline) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
 
-    setPlayers(nextPlayers);
-    
-    const winner = nextPlayers.find(p => p.score >= settings.winLines);
-    if (winner) {
-      setPhase(GamePhase.GAME_OVER);
-      confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 } });
-      addLog(`${winner.name} 승리!`);
-    } else {
-      setPhase(GamePhase.TURN_START);
-      setTurnIndex(prev => (prev + 1) % players.length);
-      setQuizState(null);
+    if (phase === GamePhase.DRAFT) {
+      runAIMove(decideDraftPlacement(state), timers);
+    }
+    if (phase === GamePhase.PEEK) {
+      // AI finishes peek after a short delay
+      runAIMove(decidePeek(state), timers, () => {
+        timers.push(setTimeout(() => dispatch({ type: 'FINISH_PEEK', playerId: activePlayer!.id }), AI_FINISH_PEEK_DELAY));
+      });
+    }
+    if (phase === GamePhase.SELECT) {
+      runAIMove(decideSelect(state), timers);
     }
+
+    return () => timers.forEach(clearTimeout);
+  }, [phase, state.turnIndex, draft?.pickIndex, isOnline]);
+
+  // AI seats answering during the Quiz phase
+  useEffect(() => {
+    if (isOnline || phase !== GamePhase.QUIZ || !quizState) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    players.filter(p => p.isAI).forEach(p => runAIMove(decideAnswer(state, p.id), timers));
+    return () => timers.forEach(clearTimeout);
+  }, [phase, quizState?.targetHanja?.id, isOnline]);
+
+
+  // --- Actions ---
+
+  const handlePeekClick = (cell: Cell) => {
+    if (!isMyTurn) return;
+    act({ type: 'PEEK', playerId: activePlayer!.id, cellId: cell.id });
+  };
+
+  const finishPeek = () => {
+    act({ type: 'FINISH_PEEK', playerId: activePlayer!.id });
+  };
+
+  const handleSelectCard = (cell: Cell) => {
+    const action = selectCard(state, cell.hanja.id);
+    if (action) act(action);
+  };
+
+  const handleQuizAnswer = (playerId: string, optionId: string) => {
+    act({ type: 'ANSWER', playerId, optionId });
   };
 
 
@@ -368,9 +560,13 @@ const App: React.FC = () => {
   // Helper to render result overlay on a cell
   const renderCellOverlay = (hanjaId: string, player: Player) => {
     if (phase === GamePhase.QUIZ && quizState?.resultsShown && quizState.targetHanja?.id === hanjaId) {
-      const isCorrect = quizState.answers[player.id] === quizState.correctOptionId;
+      const isCorrect = isCorrectAnswer(quizState, quizState.answers[player.id]);
       return (
-        <div className={`absolute inset-0 z-20 flex items-center justify-center bg-black/60 rounded-xl animate-in fade-in zoom-in duration-300`}>
+        <div
+          role="img"
+          aria-label={t(isCorrect ? 'outcome.CORRECT' : 'outcome.WRONG')}
+          className={`absolute inset-0 z-20 flex items-center justify-center bg-black/60 rounded-xl animate-in fade-in zoom-in duration-300`}
+        >
           {isCorrect ? (
              <CheckCircle2 className="text-green-400 w-2/3 h-2/3 drop-shadow-lg" strokeWidth={3} />
           ) : (
@@ -385,6 +581,49 @@ const App: React.FC = () => {
 
   // --- Main Render ---
 
+  if (phase === GamePhase.SETUP && netStatus) {
+    return (
+      <OnlineLobby
+        room={room}
+        playerId={onlinePlayerId}
+        status={netStatus}
+        error={setupError && translate(setupError)}
+        onStart={() => connectionRef.current?.send({ type: 'START' })}
+        onLeave={() => leaveOnline()}
+      />
+    );
+  }
+
+  if (phase === GamePhase.SETUP && showWordLists) {
+    return <WordListEditor lists={wordLists} onChange={changeWordLists} onClose={() => setShowWordLists(false)} />;
+  }
+
+  if (phase === GamePhase.SETUP && showContent) {
+    return <ContentSettings settings={contentSettings} onChange={changeContentSettings} onClose={() => setShowContent(false)} />;
+  }
+
+  if (phase === GamePhase.SETUP && showStandings && tournament) {
+    return (
+      <TournamentStandings
+        tournament={tournament}
+        onNext={() => startTournamentGame(tournament)}
+        onEnd={() => {
+          changeTournament(null);
+          setShowStandings(false);
+        }}
+        onClose={() => setShowStandings(false)}
+      />
+    );
+  }
+
+  if (phase === GamePhase.SETUP && showProfiles) {
+    return <ProfileManager profiles={profiles} onChange={changeProfiles} onClose={() => setShowProfiles(false)} />;
+  }
+
+  if (phase === GamePhase.SETUP && showStudy) {
+    return <StudyReview initialLearner={myName} onClose={() => setShowStudy(false)} />;
+  }
+
   if (phase === GamePhase.SETUP) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-900 p-4 relative overflow-hidden">
@@ -398,17 +637,82 @@ const App: React.FC = () => {
                <Swords size={40} className="text-yellow-400" />
             </div>
             <h1 className="text-5xl sm:text-7xl font-black mb-3 text-transparent bg-clip-text bg-gradient-to-br from-yellow-300 via-orange-400 to-red-500 drop-shadow-sm tracking-tighter">
-              한빙고
+              {t('app.title')}
             </h1>
             <p className="text-indigo-200 text-lg font-medium">
-              실시간 한자 배틀 로얄
+              {t('app.subtitle')}
             </p>
           </div>
 
+          {savedGame && (
+            <div className="mb-6 bg-indigo-600/20 border-2 border-indigo-500 rounded-2xl p-4 space-y-3">
+              <div className="flex items-center gap-2 text-white font-bold">
+                <History size={18} className="text-indigo-300" /> {t('setup.savedGame')}
+              </div>
+              <p className="text-sm text-indigo-200">
+                {formatGrade(savedGame.state.settings.grade)} · {savedGame.state.players.map(p => p.name).join(', ')}
+                <span className="block text-xs text-indigo-300/70 mt-1">
+                  {t('setup.savedAt', { time: new Date(savedGame.savedAt).toLocaleString(locale) })}
+                </span>
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={continueGame}
+                  className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold py-2 rounded-xl transition-all"
+                >
+                  {t('setup.continue')}
+                </button>
+                <button
+                  onClick={discardSavedGame}
+                  className="px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-bold py-2 rounded-xl transition-all"
+                >
+                  {t('setup.newGame')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {tournament && (
+            <div className="mb-6 bg-yellow-500/10 border-2 border-yellow-500/60 rounded-2xl p-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-white font-bold">
+                <Trophy size={18} className="text-yellow-400" />
+                {t(isTournamentOver(tournament) ? 'setup.tournamentDone' : 'setup.tournamentInProgress', {
+                  n: tournament.games.length,
+                  total: getGamesPlanned(tournament)
+                })}
+              </div>
+              <button
+                onClick={() => setShowStandings(true)}
+                className="bg-yellow-500 hover:bg-yellow-400 text-slate-900 text-sm font-bold px-4 py-2 rounded-xl transition-all"
+              >
+                {t('setup.standings')}
+              </button>
+            </div>
+          )}
+
           <div className="space-y-6">
+            <div>
+              <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                {t('setup.language')}
+              </label>
+              <div className="flex bg-slate-900 p-1.5 rounded-2xl border border-slate-700" role="group" aria-label={t('setup.language')}>
+                {LOCALES.map(code => (
+                  <button
+                    key={code}
+                    lang={code}
+                    onClick={() => changeLocale(code)}
+                    aria-pressed={locale === code}
+                    className={`flex-1 py-2 rounded-xl text-sm font-bold transition-all duration-300 ${locale === code ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                  >
+                    {LOCALE_NAMES[code]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="group">
               <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
-                 Challenge Level
+                 {t('setup.level')}
               </label>
               <div className="relative group">
                 <select 
@@ -416,18 +720,75 @@ const App: React.FC = () => {
                     onChange={(e) => setSettings({...settings, grade: e.target.value as Grade})}
                     className="w-full bg-slate-900 border-2 border-slate-700 text-white text-lg font-bold rounded-2xl p-4 appearance-none focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all cursor-pointer hover:bg-slate-800 hover:border-slate-600"
                 >
-                    {['8급', '7급', '6급', '5급', '4급', '3급', '2급', '1급'].map(g => (
-                    <option key={g} value={g}>{g}</option>
+                    {gradeChoices.map(g => (
+                    <option key={g} value={g}>{formatGrade(g)}</option>
                     ))}
                 </select>
                 <div className="absolute right-5 top-1/2 -translate-y-1/2 pointer-events-none text-slate-500 group-hover:text-white transition-colors">▼</div>
               </div>
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {QUIZ_TYPES_BY_GRADE[settings.grade].map(type => (
+                  <span key={type} className="text-[11px] font-bold text-slate-400 bg-slate-900 px-2 py-1 rounded-lg border border-slate-700">
+                    {t(`quizType.${type}`)}
+                  </span>
+                ))}
+              </div>
+              {!hasOwnHanja && (
+                <p className="text-xs text-slate-400 mt-2">
+                  {t('setup.gradesNeedSource', { level: gradeLevel(GRADES[BUNDLED_GRADES.length]) })}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="word-list" className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                {t('setup.wordList')}
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="word-list"
+                  value={selectedWordList?.id ?? ''}
+                  onChange={(e) => setWordListId(e.target.value || null)}
+                  className="flex-1 min-w-0 bg-slate-900 border-2 border-slate-700 text-white font-bold rounded-2xl px-4 py-3 outline-none focus:border-indigo-500 cursor-pointer"
+                >
+                  <option value="">{t('setup.noWordList')}</option>
+                  {wordLists.map(list => (
+                    <option key={list.id} value={list.id}>{list.name} · {t('wordList.count', { n: list.hanja.length })}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowWordLists(true)}
+                  className="px-4 bg-slate-900 border-2 border-slate-700 text-slate-400 hover:text-white rounded-2xl transition-all"
+                  title={t('setup.editWordLists')}
+                  aria-label={t('setup.editWordLists')}
+                >
+                  <ListChecks size={20} />
+                </button>
+              </div>
+              {selectedWordList && (
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs font-bold">
+                  <span className={selectedWordList.hanja.length < getBoardCellCount(settings) ? 'text-yellow-400' : 'text-slate-400'}>
+                    {t('setup.listCount', { n: selectedWordList.hanja.length, needed: getBoardCellCount(settings) })}
+                  </span>
+                  {selectedWordList.hanja.length < getBoardCellCount(settings) && (
+                    <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={wordListAutoFill}
+                        onChange={(e) => setWordListAutoFill(e.target.checked)}
+                        className="accent-indigo-500"
+                      />
+                      {t('setup.autoFill', { level: gradeLevel(settings.grade) })}
+                    </label>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-5">
                 <div>
                     <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
-                        Players
+                        {t('setup.players')}
                     </label>
                     <div className="flex bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700">
                     {[2, 3, 4].map(num => (
@@ -436,35 +797,335 @@ const App: React.FC = () => {
                         onClick={() => setSettings({...settings, playerCount: num})}
                         className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${settings.playerCount === num ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
                         >
-                        {num}인
+                        {t('setup.playerCount', { n: num })}
                         </button>
                     ))}
                     </div>
                 </div>
                 <div>
                      <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
-                        Goal
+                        {t('setup.board')}
                      </label>
                     <div className="flex bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700">
-                    {[1, 3].map(num => (
+                    {BOARD_SIZES.map(size => (
                         <button
-                        key={num}
-                        onClick={() => setSettings({...settings, winLines: num as 1|3})}
-                        className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${settings.winLines === num ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                        key={size}
+                        onClick={() => setSettings({...settings, boardSize: size, winLines: Math.min(settings.winLines, getMaxLines(size))})}
+                        className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${settings.boardSize === size ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
                         >
-                        {num}줄
+                        {size}×{size}
                         </button>
                     ))}
                     </div>
                 </div>
             </div>
 
+            <div>
+                 <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.seats')}
+                 </label>
+                <div className="space-y-2">
+                {settings.seats.slice(0, settings.playerCount).map((seat, i) => {
+                    const updateSeat = (patch: Partial<SeatConfig>) =>
+                        setSettings({...settings, seats: settings.seats.map((s, idx) => (idx === i ? { ...s, ...patch } : s))});
+                    return (
+                        <div key={i} className="bg-slate-900 rounded-2xl p-1.5 pl-4 border-2 border-slate-700 space-y-1.5">
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-bold text-slate-400 w-8">P{i + 1}</span>
+                                {!seat.isAI && profiles.length > 0 && (
+                                    <select
+                                        value={seat.profileId ?? ''}
+                                        onChange={(e) => {
+                                            const profile = profiles.find(p => p.id === e.target.value);
+                                            updateSeat(profile
+                                                ? { profileId: profile.id, name: profile.name, color: profile.color }
+                                                : { profileId: undefined, color: undefined });
+                                        }}
+                                        aria-label={t('setup.profile', { n: i + 1 })}
+                                        className="w-24 shrink-0 bg-slate-800 text-white text-sm font-bold rounded-xl px-2 py-2 border border-slate-700 focus:outline-none focus:border-indigo-500 cursor-pointer"
+                                        style={seat.color ? { borderColor: seat.color } : undefined}
+                                    >
+                                        <option value="">{t('setup.guest')}</option>
+                                        {profiles.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <input
+                                    value={seat.name}
+                                    onChange={(e) => updateSeat({ name: e.target.value, profileId: undefined, color: undefined })}
+                                    maxLength={10}
+                                    placeholder={getDefaultSeatName(seat.isAI)}
+                                    className="flex-1 min-w-0 bg-slate-800 text-white text-sm font-bold rounded-xl px-3 py-2 border border-slate-700 focus:outline-none focus:border-indigo-500"
+                                />
+                                <div className="flex gap-1">
+                                {[false, true].map(isAI => (
+                                    <button
+                                    key={String(isAI)}
+                                    onClick={() => updateSeat(isAI
+                                        ? { isAI, aiLevel: seat.aiLevel || 'INTERMEDIATE', profileId: undefined, color: undefined }
+                                        : { isAI, aiLevel: seat.aiLevel || 'INTERMEDIATE' })}
+                                    className={`px-3 py-2 rounded-xl text-sm font-bold transition-all duration-300 ${seat.isAI === isAI ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                                    >
+                                    {t(isAI ? 'setup.ai' : 'setup.human')}
+                                    </button>
+                                ))}
+                                </div>
+                            </div>
+                            {seat.isAI && (
+                                <div className="flex gap-1 pl-10">
+                                {AI_LEVELS.map(level => (
+                                    <button
+                                    key={level}
+                                    onClick={() => updateSeat({ aiLevel: level })}
+                                    className={`flex-1 py-1.5 rounded-xl text-xs font-bold transition-all duration-300 ${seat.aiLevel === level ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                                    >
+                                    {t(`aiLevel.${level}`)}
+                                    </button>
+                                ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                </div>
+            </div>
+
+            <div>
+                 <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.goal')}
+                 </label>
+                <div className="flex flex-wrap bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700 gap-1">
+                {WIN_PATTERNS.map(pattern => (
+                    <button
+                    key={pattern}
+                    onClick={() => setSettings({...settings, winPattern: pattern})}
+                    className={`flex-1 py-3 px-2 rounded-xl text-sm font-bold whitespace-nowrap transition-all duration-300 ${settings.winPattern === pattern ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                    >
+                    {t(`winPattern.${pattern}`)}
+                    </button>
+                ))}
+                </div>
+                {settings.winPattern === 'LINES' && (
+                  <div className="mt-2 flex items-center justify-between bg-slate-900 rounded-2xl px-4 py-2 border-2 border-slate-700">
+                    <span className="text-sm font-bold text-slate-400">{t('setup.winLines')}</span>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => setSettings({...settings, winLines: Math.max(1, settings.winLines - 1)})}
+                        className="w-9 h-9 rounded-lg bg-slate-800 text-white font-black hover:bg-slate-700"
+                      >-</button>
+                      <span className="text-white font-black w-12 text-center">{t('setup.lineCount', { n: settings.winLines })}</span>
+                      <button
+                        onClick={() => setSettings({...settings, winLines: Math.min(getMaxLines(settings.boardSize), settings.winLines + 1)})}
+                        className="w-9 h-9 rounded-lg bg-slate-800 text-white font-black hover:bg-slate-700"
+                      >+</button>
+                    </div>
+                  </div>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.mode')}
+                </label>
+                <div className="flex bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700">
+                {(['STANDARD', 'DRAFT'] as const).map(mode => (
+                    <button
+                    key={mode}
+                    onClick={() => setSettings({...settings, mode})}
+                    className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${settings.mode === mode ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                    >
+                    {t(`mode.${mode}`)}
+                    </button>
+                ))}
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.quiz')}
+                </label>
+                <div className="flex bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700">
+                {QUIZ_DIFFICULTIES.map(difficulty => (
+                    <button
+                    key={difficulty}
+                    onClick={() => setSettings({...settings, quizDifficulty: difficulty})}
+                    className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${settings.quizDifficulty === difficulty ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                    >
+                    {t(`difficulty.${difficulty}`)}
+                    </button>
+                ))}
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.scoring')}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                {SCORING_TOGGLES.map(rule => (
+                    <button
+                    key={rule}
+                    onClick={() => setScoring({ [rule]: !settings.scoring[rule] })}
+                    aria-pressed={settings.scoring[rule]}
+                    title={t(`scoringHint.${rule}`)}
+                    className={`py-3 px-2 rounded-xl border-2 text-sm font-bold transition-all ${settings.scoring[rule] ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-500 hover:text-white'}`}
+                    >
+                    {t(`scoring.${rule}`)}
+                    </button>
+                ))}
+                </div>
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-2 bg-slate-900 rounded-2xl px-4 py-2 border-2 border-slate-700">
+                  <span className="text-sm font-bold text-slate-400 whitespace-nowrap">{t('setup.tieBreak')}</span>
+                  <div className="flex flex-wrap gap-1">
+                    {TIE_BREAKS.map(rule => (
+                      <button
+                        key={rule}
+                        onClick={() => setScoring({ tieBreak: rule })}
+                        aria-pressed={settings.scoring.tieBreak === rule}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${settings.scoring.tieBreak === rule ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                      >
+                        {t(`tieBreak.${rule}`)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.match')}
+                </label>
+                <div className="flex bg-slate-900 rounded-2xl p-1.5 border-2 border-slate-700">
+                {[null, ...TOURNAMENT_FORMATS].map(format => (
+                    <button
+                    key={format ?? 'SINGLE'}
+                    onClick={() => setMatchFormat(format)}
+                    aria-pressed={matchFormat === format}
+                    className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all duration-300 ${matchFormat === format ? 'bg-indigo-600 text-white shadow-lg scale-100' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                    >
+                    {t(`tournament.${format ?? 'SINGLE'}`)}
+                    </button>
+                ))}
+                </div>
+                {matchFormat === 'BEST_OF' && (
+                  <div className="mt-2 flex items-center justify-between bg-slate-900 rounded-2xl px-4 py-2 border-2 border-slate-700">
+                    <span className="text-sm font-bold text-slate-400">{t('setup.bestOf')}</span>
+                    <div className="flex gap-1">
+                      {BEST_OF_OPTIONS.map(n => (
+                        <button
+                          key={n}
+                          onClick={() => setBestOf(n)}
+                          aria-pressed={bestOf === n}
+                          className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${bestOf === n ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                        >
+                          {t('tournament.bestOf', { n })}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {matchFormat === 'ROUND_ROBIN' && (
+                  <p className="text-xs text-slate-400 mt-2">{t('setup.roundRobinHint')}</p>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-xs uppercase font-bold text-indigo-400 mb-2 tracking-widest">
+                    {t('setup.seed')}
+                </label>
+                <input
+                  value={settings.seed}
+                  onChange={(e) => setSettings({...settings, seed: normalizeSeed(e.target.value)})}
+                  placeholder={t('setup.seedPlaceholder')}
+                  className="w-full bg-slate-900 border-2 border-slate-700 text-white font-mono font-bold tracking-widest rounded-2xl px-4 py-3 focus:outline-none focus:border-indigo-500"
+                />
+                {settings.seed && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    {t('setup.seedHint')}
+                  </p>
+                )}
+            </div>
+
+            <button
+              onClick={() => setShowContent(true)}
+              className="w-full flex items-center justify-between px-5 py-4 rounded-2xl border-2 text-sm font-bold transition-all bg-slate-900 border-slate-700 text-slate-400 hover:text-white"
+            >
+              <span className="flex items-center gap-2"><Database size={16} /> {t('setup.content')}</span>
+              <span className="flex items-center gap-1 text-slate-300">{t(`provider.${contentSettings.provider}`)} <ChevronRight size={16} /></span>
+            </button>
+
+            <button
+              onClick={toggleReducedMotion}
+              aria-pressed={preferences.reducedMotion}
+              className={`w-full flex items-center justify-between px-5 py-4 rounded-2xl border-2 text-sm font-bold transition-all ${preferences.reducedMotion ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-500 hover:text-white'}`}
+            >
+              <span className="flex items-center gap-2"><Accessibility size={16} /> {t('setup.reducedMotion')}</span>
+              <span>{t(preferences.reducedMotion ? 'common.on' : 'common.off')}</span>
+            </button>
+
+            <button
+              onClick={() => setShowProfiles(true)}
+              className="w-full flex items-center justify-between px-5 py-4 rounded-2xl border-2 text-sm font-bold transition-all bg-slate-900 border-slate-700 text-slate-400 hover:text-white"
+            >
+              <span className="flex items-center gap-2"><UserCircle size={16} /> {t('setup.profiles')}</span>
+              <span className="flex items-center gap-1 text-slate-300">{t('setup.profileCount', { n: profiles.length })} <ChevronRight size={16} /></span>
+            </button>
+
+            <button
+              onClick={() => setShowStudy(true)}
+              className="w-full flex items-center justify-between px-5 py-4 rounded-2xl border-2 text-sm font-bold transition-all bg-slate-900 border-slate-700 text-slate-400 hover:text-white"
+            >
+              <span className="flex items-center gap-2"><BookOpen size={16} /> {t('setup.study')}</span>
+              <ChevronRight size={16} />
+            </button>
+
+            <div className="bg-slate-900 rounded-2xl p-4 border-2 border-slate-700 space-y-3">
+              <label className="flex items-center gap-2 text-xs uppercase font-bold text-indigo-400 tracking-widest">
+                <Globe size={14} /> {t('setup.online')}
+              </label>
+              <input
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder={DEFAULT_SERVER_URL}
+                className="w-full bg-slate-800 text-slate-300 text-sm font-mono rounded-xl px-3 py-2 border border-slate-700 focus:outline-none focus:border-indigo-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => connectOnline(serverUrl, { type: 'CREATE', name: myName, settings })}
+                  className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold py-2 rounded-xl transition-all"
+                >
+                  {t('setup.createRoom')}
+                </button>
+                <input
+                  value={roomCodeInput}
+                  onChange={(e) => setRoomCodeInput(e.target.value.toUpperCase())}
+                  maxLength={4}
+                  placeholder={t('setup.roomCode')}
+                  className="w-20 bg-slate-800 text-white text-center text-sm font-mono font-bold tracking-widest rounded-xl px-2 py-2 border border-slate-700 focus:outline-none focus:border-indigo-500"
+                />
+                <button
+                  onClick={() => connectOnline(serverUrl, { type: 'JOIN', roomCode: roomCodeInput, name: myName })}
+                  disabled={roomCodeInput.length !== 4}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-sm font-bold py-2 rounded-xl transition-all"
+                >
+                  {t('setup.joinRoom')}
+                </button>
+              </div>
+            </div>
+
+            {setupError && (
+              <div className="bg-red-500/10 border border-red-500/50 text-red-300 text-sm font-bold rounded-2xl px-5 py-3">
+                {translate(setupError)}
+              </div>
+            )}
+
             <button 
-              onClick={startGame}
+              onClick={startMatch}
               className="w-full bg-gradient-to-r from-yellow-500 to-orange-600 hover:from-yellow-400 hover:to-orange-500 text-white text-xl font-black py-5 rounded-2xl shadow-xl shadow-orange-500/20 transform transition-all active:scale-[0.98] flex items-center justify-center gap-3 mt-6 group border-b-4 border-orange-800 active:border-b-0 active:translate-y-1"
             >
               <Play fill="currentColor" size={24} className="group-hover:scale-110 transition-transform" />
-              GAME START
+              {t('setup.start')}
             </button>
           </div>
         </div>
@@ -479,16 +1140,45 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
                 <BrainCircuit className="text-indigo-400 mb-6 relative z-10 animate-bounce" size={64} />
             </div>
-            <h2 className="text-2xl font-bold mb-2">대결 준비 중...</h2>
-            <p className="text-slate-400 animate-pulse">Gemini AI가 한자 보드를 생성하고 있습니다.</p>
+            <h2 className="text-2xl font-bold mb-2">{t('loading.title')}</h2>
+            <p className="text-slate-400 animate-pulse">
+                {usesProvider
+                  ? t('loading.provider', { name: t(`provider.${contentSettings.provider}`) })
+                  : t('loading.local', { level: gradeLevel(settings.grade) })}
+            </p>
         </div>
     );
   }
 
+  if (needsHandoff && turnOwner) {
+    return <PrivacyScreen player={turnOwner} onReady={() => setViewerId(turnOwner.id)} />;
+  }
+
+  if (phase === GamePhase.DRAFT && draft) {
+    return (
+        <DraftBoard
+          draft={draft}
+          players={players}
+          myPlayerId={viewer?.id ?? null}
+          onPlace={(hanjaId, slotIndex) => viewer && act({ type: 'DRAFT_PLACE', playerId: viewer.id, placements: [{ hanjaId, slotIndex }] })}
+          onAutoFill={() => {
+            const action = viewer && autoFillDraft(state, viewer.id);
+            if (action) act(action);
+          }}
+        />
+    );
+  }
+
   if (!activePlayer || players.length === 0) {
     return null;
   }
 
+  // Spectators follow the board of whoever's turn it is
+  const shownPlayer = viewer ?? activePlayer;
+  const boardTitle = !viewer
+    ? t('game.spectating', { name: shownPlayer.name })
+    : humans.length > 1 && !isOnline ? t('game.playerBoard', { name: viewer.name }) : t('game.myBoard');
+
   return (
     <div className="min-h-screen bg-slate-900 flex flex-col items-center relative pb-20 overflow-x-hidden">
       
@@ -498,11 +1188,11 @@ const App: React.FC = () => {
             
             <div className="flex items-center gap-4 w-full sm:w-auto justify-between sm:justify-start">
                <h1 className="font-extrabold text-2xl text-yellow-500 hidden md:flex items-center gap-2 tracking-tighter">
-                 <Swords size={20}/> 한빙고
+                 <Swords size={20}/> {t('app.title')}
                </h1>
                
                <div className="flex items-center gap-3 bg-slate-800 px-4 py-2 rounded-full border border-slate-600 shadow-inner">
-                   <div className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">TURN</div>
+                   <div className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">{t('game.turn')}</div>
                    <div className="flex items-center gap-2">
                        <div className="w-3 h-3 rounded-full animate-pulse shadow-[0_0_10px_currentColor]" style={{color: activePlayer.color, backgroundColor: activePlayer.color}} />
                        <span className="font-bold text-white text-base">{activePlayer.name}</span>
@@ -512,14 +1202,14 @@ const App: React.FC = () => {
 
             <div className="flex items-center gap-1 sm:gap-2 bg-slate-800/50 p-1.5 rounded-xl border border-slate-700/50 overflow-x-auto max-w-full no-scrollbar">
                {[
-                 { id: GamePhase.PEEK, label: '미리보기', icon: Eye },
-                 { id: GamePhase.SELECT, label: '카드선택', icon: Hourglass },
-                 { id: GamePhase.QUIZ, label: '퀴즈대결', icon: BrainCircuit }
+                 { id: GamePhase.PEEK, label: t('phase.PEEK'), icon: Eye },
+                 { id: GamePhase.SELECT, label: t('phase.SELECT'), icon: Hourglass },
+                 { id: GamePhase.QUIZ, label: t('phase.QUIZ'), icon: BrainCircuit }
                ].map((step, idx) => {
                  const isActive = phase === step.id;
                  const isPast = [GamePhase.PEEK, GamePhase.SELECT, GamePhase.QUIZ].indexOf(phase) > idx;
                  return (
-                   <div key={step.id} className={`flex items-center ${isActive ? 'text-yellow-400' : isPast ? 'text-slate-500' : 'text-slate-600'}`}>
+                   <div key={step.id} aria-current={isActive ? 'step' : undefined} className={`flex items-center ${isActive ? 'text-yellow-400' : isPast ? 'text-slate-500' : 'text-slate-600'}`}>
                       <div className={`
                          flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-all
                          ${isActive ? 'bg-yellow-500/10 font-bold shadow-sm ring-1 ring-yellow-500/20' : ''}
@@ -535,7 +1225,7 @@ const App: React.FC = () => {
 
             {/* Timer */}
             {(phase === GamePhase.PEEK || phase === GamePhase.SELECT || phase === GamePhase.QUIZ) && (
-              <div className={`
+              <div role="timer" aria-label={t('game.timeLeft', { n: timeLeft })} className={`
                  flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-xl font-bold min-w-[100px] justify-center transition-all duration-300
                  ${timeLeft <= 5 ? 'bg-red-500/20 text-red-400 animate-pulse ring-1 ring-red-500/50' : 'bg-slate-800 text-yellow-400 ring-1 ring-slate-600'}
               `}>
@@ -543,6 +1233,18 @@ const App: React.FC = () => {
                   <span>{timeLeft}s</span>
               </div>
             )}
+
+            {state.playoff && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-orange-500/20 text-orange-300 text-sm font-bold">
+                  <Swords size={16} /> {t('game.playoff', { n: state.playoff.round + 1, max: PLAYOFF_ROUNDS })}
+              </div>
+            )}
+
+            {netStatus === 'RECONNECTING' && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/20 text-red-300 text-sm font-bold animate-pulse">
+                  <WifiOff size={16} /> {t('game.reconnecting')}
+              </div>
+            )}
         </div>
       </div>
 
@@ -554,11 +1256,15 @@ const App: React.FC = () => {
         <div className="flex-1 w-full max-w-2xl mx-auto lg:max-w-3xl">
             <div className="mb-4 flex justify-between items-center bg-slate-800 p-4 rounded-2xl border border-slate-700 shadow-sm">
                 <h2 className="text-lg font-bold flex items-center gap-2 text-white">
-                    <Grid3X3 className="text-indigo-400" size={20}/> 나의 보드
+                    <Grid3X3 className="text-indigo-400" size={20}/> {boardTitle}
                 </h2>
                 <div className="flex gap-2">
+                     <BonusGauge gauge={shownPlayer.bonusGauge} max={SHIELD_GAUGE_MAX} hasShield={shownPlayer.hasShield} />
+                     <div className="flex items-center text-sm text-indigo-300 font-bold bg-slate-900 px-4 py-1.5 rounded-lg border border-slate-700">
+                         {t('game.points', { n: shownPlayer.points })}
+                     </div>
                      <div className="flex items-center gap-1.5 text-sm text-yellow-400 font-bold bg-slate-900 px-4 py-1.5 rounded-lg border border-slate-700">
-                         <Trophy size={14} /> {players[0].score}/{settings.winLines} 줄
+                         <Trophy size={14} /> {formatGoal(shownPlayer.board, state.settings)}
                      </div>
                 </div>
             </div>
@@ -569,8 +1275,8 @@ const App: React.FC = () => {
                      <div className="absolute inset-0 bg-indigo-600/20 border-l-4 border-indigo-500 p-4 rounded-r-xl flex items-center gap-4 animate-in fade-in slide-in-from-left-2">
                          <div className="bg-indigo-500 p-2 rounded-lg text-white shadow-lg"><Eye size={24}/></div>
                          <div>
-                            <div className="text-indigo-300 font-bold text-xs uppercase tracking-wider mb-0.5">PEEK PHASE</div>
-                            <div className="text-white font-medium text-lg leading-none">카드 2~3장을 뒤집어 위치를 기억하세요!</div>
+                            <div className="text-indigo-300 font-bold text-xs uppercase tracking-wider mb-0.5">{t('game.peekPhase')}</div>
+                            <div className="text-white font-medium text-lg leading-none">{t('game.peekHint')}</div>
                          </div>
                      </div>
                  )}
@@ -578,39 +1284,48 @@ const App: React.FC = () => {
                      <div className="absolute inset-0 bg-yellow-600/20 border-l-4 border-yellow-500 p-4 rounded-r-xl flex items-center gap-4 animate-in fade-in slide-in-from-left-2">
                          <div className="bg-yellow-500 p-2 rounded-lg text-slate-900 shadow-lg"><Hourglass size={24}/></div>
                          <div>
-                            <div className="text-yellow-500 font-bold text-xs uppercase tracking-wider mb-0.5">SELECT PHASE</div>
-                            <div className="text-white font-medium text-lg leading-none">대결할 카드를 선택하세요!</div>
+                            <div className="text-yellow-500 font-bold text-xs uppercase tracking-wider mb-0.5">{t('game.selectPhase')}</div>
+                            <div className="text-white font-medium text-lg leading-none">{t('game.selectHint')}</div>
                          </div>
                      </div>
                  )}
             </div>
 
             {/* Interactive Board */}
-            <div className={`
-               grid grid-cols-5 gap-3 sm:gap-4 p-4 sm:p-5 bg-slate-800 rounded-3xl shadow-2xl
-               border-2 transition-all duration-500 relative overflow-hidden
-               ${isMyTurn ? 'border-yellow-500 shadow-[0_0_50px_rgba(234,179,8,0.15)]' : 'border-slate-700 grayscale-[0.3]'}
-            `}>
-                {isMyTurn && <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-yellow-500 to-transparent animate-shimmer" />}
-                
-                {players[0].board.map((cell) => (
-                    <div key={cell.id} className="relative group">
+            <BoardGrid
+               size={state.settings.boardSize}
+               cellCount={shownPlayer.board.length}
+               label={boardTitle}
+               className={`
+                  grid gap-3 sm:gap-4 p-4 sm:p-5 bg-slate-800 rounded-3xl shadow-2xl
+                  border-2 transition-all duration-500 relative overflow-hidden
+                  ${isMyTurn ? 'border-yellow-500 shadow-[0_0_50px_rgba(234,179,8,0.15)]' : 'border-slate-700 grayscale-[0.3]'}
+               `}
+               style={boardGridStyle}
+               renderCell={(index, focus) => {
+                  const cell = shownPlayer.board[index];
+                  return (
+                    <div key={cell.id} role="gridcell" className="relative group">
                         <Card 
                             cell={cell} 
                             isRevealed={cell.isFlipped}
                             isPeeked={peekedCardIds.includes(cell.id)}
-                            highlight={phase === GamePhase.SELECT && isMyTurn && !cell.isFlipped}
+                            highlight={phase === GamePhase.SELECT && isMyTurn && selectableCells.includes(cell)}
                             onClick={() => {
                                 if (phase === GamePhase.PEEK) handlePeekClick(cell);
-                                if (phase === GamePhase.SELECT && isMyTurn) handleSelectCard(cell.hanja);
+                                if (phase === GamePhase.SELECT && isMyTurn) handleSelectCard(cell);
                             }}
                             disabled={!isMyTurn && phase !== GamePhase.QUIZ}
+                            focus={focus}
                         />
                         {/* Overlay for Quiz Result */}
-                        {renderCellOverlay(cell.hanja.id, players[0])}
+                        {renderCellOverlay(cell.hanja.id, shownPlayer)}
                     </div>
-                ))}
-            </div>
+                  );
+               }}
+            >
+                {isMyTurn && <div aria-hidden="true" className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-yellow-500 to-transparent animate-shimmer" />}
+            </BoardGrid>
 
             {/* Action Area */}
             <div className="mt-8">
@@ -620,14 +1335,14 @@ const App: React.FC = () => {
                         disabled={peekedCardIds.length < 1}
                         className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-8 py-5 rounded-2xl font-black flex items-center justify-center gap-3 shadow-xl transition-all text-xl border-b-4 border-indigo-800 hover:border-indigo-700 active:border-b-0 active:translate-y-1"
                      >
-                         미리보기 완료 <SkipForward size={24} />
+                         {t('game.finishPeek')} <SkipForward size={24} />
                      </button>
                 )}
                 
                 {!isMyTurn && (
                     <div className="w-full bg-slate-800 border-2 border-slate-700 border-dashed text-slate-400 py-6 rounded-2xl text-center flex items-center justify-center gap-3 animate-pulse">
                         <BrainCircuit size={24} />
-                        <span className="font-medium text-xl">{activePlayer.name}의 행동을 기다리는 중...</span>
+                        <span className="font-medium text-xl">{t('game.waiting', { name: activePlayer.name })}</span>
                     </div>
                 )}
             </div>
@@ -638,7 +1353,7 @@ const App: React.FC = () => {
             
             {/* Player List / Mini Boards */}
             <div className="space-y-6">
-                {players.slice(1).map((ai) => {
+                {players.filter(p => p.id !== shownPlayer.id).map((ai) => {
                     const isAiTurn = activePlayer?.id === ai.id;
                     return (
                         <div key={ai.id} className={`
@@ -647,27 +1362,49 @@ const App: React.FC = () => {
                         `}>
                              {isAiTurn && (
                                 <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-yellow-500 text-slate-900 text-[10px] font-black px-3 py-1 rounded-full shadow-md tracking-widest uppercase">
-                                    Current Turn
+                                    {t('game.currentTurn')}
                                 </div>
                              )}
                              <div className="flex justify-between items-center text-sm mb-4">
                                  <span className="font-bold flex items-center gap-3 text-white text-lg">
                                      <div className="w-3 h-3 rounded-full shadow-[0_0_10px_currentColor]" style={{color: ai.color, backgroundColor: ai.color}}/>
                                      {ai.name} 
+                                     {ai.aiLevel && (
+                                        <span className="text-[10px] font-bold text-slate-400 bg-slate-900 px-2 py-0.5 rounded-md border border-slate-700">
+                                            {t(`aiLevel.${ai.aiLevel}`)}
+                                        </span>
+                                     )}
                                  </span>
-                                 <span className="text-yellow-400 font-mono font-bold flex items-center gap-1 bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700">
-                                    <Trophy size={14}/> {ai.score}
-                                 </span>
+                                 <div className="flex items-center gap-2">
+                                    <BonusGauge gauge={ai.bonusGauge} max={SHIELD_GAUGE_MAX} hasShield={ai.hasShield} compact />
+                                    <span className="text-indigo-300 font-mono font-bold bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700">
+                                       {t('game.points', { n: ai.points })}
+                                    </span>
+                                    <span className="text-yellow-400 font-mono font-bold flex items-center gap-1 bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700">
+                                       <Trophy size={14}/> {formatGoal(ai.board, state.settings)}
+                                    </span>
+                                 </div>
                              </div>
                              
-                             <div className="grid grid-cols-5 gap-2 relative">
+                             <div
+                                 role="img"
+                                 aria-label={t('game.miniBoard', {
+                                     name: ai.name,
+                                     flipped: ai.board.filter(c => c.isFlipped).length,
+                                     total: ai.board.length,
+                                     goal: formatGoal(ai.board, state.settings)
+                                 })}
+                                 className="grid gap-2 relative"
+                                 style={boardGridStyle}
+                             >
                                  {ai.board.map((c, i) => (
                                      <div key={i} className={`
-                                        w-full aspect-square rounded-lg relative transition-colors duration-300
+                                        w-full aspect-square rounded-lg relative transition-colors duration-300 flex items-center justify-center
                                         ${c.isFlipped 
                                             ? 'bg-gradient-to-br from-green-500 to-green-700 shadow-inner' 
                                             : 'bg-slate-700'}
                                      `}>
+                                          {c.isFlipped && <CheckCircle2 size={14} className="text-white/80" />}
                                           {/* Mini Board Overlay */}
                                           {renderCellOverlay(c.hanja.id, ai)}
                                      </div>
@@ -679,21 +1416,7 @@ const App: React.FC = () => {
             </div>
 
              {/* Game Log */}
-             <div className="bg-slate-800 rounded-2xl p-0 border border-slate-700 shadow-sm flex-1 min-h-[250px] flex flex-col overflow-hidden">
-                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider p-4 bg-slate-900/50 border-b border-slate-700 flex items-center gap-2">
-                    <ScrollText size={14}/> Game Log
-                </div>
-                <div className="flex-1 overflow-y-auto p-4 space-y-3 max-h-[300px] scrollbar-thin scrollbar-thumb-slate-600">
-                    {gameLog.map((log, i) => (
-                        <div key={i} className="text-sm text-slate-300 animate-in slide-in-from-left-2 fade-in leading-relaxed pl-3 border-l-2 border-slate-600">
-                            <span className="text-slate-500 mr-2 font-mono block text-[10px] mb-0.5">
-                                {new Date().toLocaleTimeString().slice(3,8)}
-                            </span>
-                            {log}
-                        </div>
-                    ))}
-                </div>
-            </div>
+             <EventLog state={state} events={isOnline ? state.events : maskEvents(state, null)} />
         </div>
       </div>
 
@@ -702,9 +1425,9 @@ const App: React.FC = () => {
           <QuizBattle 
             quizState={quizState}
             players={players}
-            onAnswer={(optId) => handleQuizAnswer(players[0].id, optId)}
+            onAnswer={handleQuizAnswer}
             currentPlayerId={activePlayer.id}
-            myPlayerId={players[0].id}
+            humanPlayerIds={isOnline ? (viewer ? [viewer.id] : []) : humans.map(p => p.id)}
             timeLeft={timeLeft}
           />
       )}
@@ -712,25 +1435,96 @@ const App: React.FC = () => {
       {/* GAME OVER MODAL */}
       {phase === GamePhase.GAME_OVER && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-in fade-in duration-500">
-               <div className="bg-slate-800 p-10 rounded-3xl border border-yellow-500/50 shadow-2xl text-center max-w-sm w-full relative overflow-hidden">
+               <div role="dialog" aria-modal="true" aria-labelledby="game-over-title" className="bg-slate-800 p-10 rounded-3xl border border-yellow-500/50 shadow-2xl text-center max-w-sm w-full relative overflow-hidden">
                    <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-yellow-500/20 via-transparent to-transparent" />
                    
                    <Trophy size={80} className="mx-auto text-yellow-400 mb-6 animate-bounce drop-shadow-[0_0_15px_rgba(250,204,21,0.5)]" />
                    
-                   <h2 className="text-4xl font-black text-white mb-2 tracking-tight">
-                       {players.find(p => p.score >= settings.winLines)?.name} 승리!
+                   <h2 id="game-over-title" className="text-4xl font-black text-white mb-2 tracking-tight">
+                       {formatOutcome(state.outcome, players)}
                    </h2>
-                   <p className="text-slate-400 mb-8 font-medium">멋진 승부였습니다!</p>
+                   <p className="text-slate-400 mb-6 font-medium">{formatOutcomeDetail(state.outcome)}</p>
+
+                   {profileAwards.length > 0 && (
+                     <div className="relative bg-slate-900 rounded-xl px-4 py-3 mb-3 space-y-2 text-sm text-left">
+                       {profileAwards.map(award => (
+                         <div key={award.profileId}>
+                           <div className="flex justify-between font-bold">
+                             <span className="text-white">{award.name}</span>
+                             <span className="text-yellow-400">
+                               {t('gameOver.xp', { n: award.xp })}{award.levelUp && ` · ${t('gameOver.levelUp')}`}
+                             </span>
+                           </div>
+                           {award.unlocked.map(achievement => (
+                             <div key={achievement.id} className="flex items-center gap-1 text-xs font-bold text-yellow-300">
+                               <Award size={12} /> {translate(achievement.name)}
+                             </div>
+                           ))}
+                         </div>
+                       ))}
+                     </div>
+                   )}
+
+                   <div className="relative flex items-center justify-between bg-slate-900 rounded-xl px-4 py-2 mb-3 text-sm">
+                     <span className="text-slate-400 font-bold">{t('gameOver.seed')} <span className="font-mono text-white">{state.seed}</span></span>
+                     <button onClick={copyShareLink} className="flex items-center gap-1 text-indigo-300 hover:text-white font-bold">
+                       <Share2 size={14} /> {t(seedCopied ? 'gameOver.copied' : 'gameOver.copyLink')}
+                     </button>
+                   </div>
+                   <div className="relative flex gap-2 mb-3">
+                     <button
+                       onClick={() => setShowReport(true)}
+                       className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition flex items-center justify-center gap-2"
+                     >
+                       <ClipboardList size={18}/> {t('gameOver.report')}
+                     </button>
+                     {state.events.length > 0 && (
+                       <button
+                         onClick={() => setShowReplay(true)}
+                         className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition flex items-center justify-center gap-2"
+                       >
+                         <Film size={18}/> {t('gameOver.replay')}
+                       </button>
+                     )}
+                   </div>
                    
-                   <button 
-                     onClick={() => setPhase(GamePhase.SETUP)}
-                     className="w-full bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-bold py-4 rounded-xl shadow-lg transform transition active:scale-95 text-lg flex items-center justify-center gap-2"
-                   >
-                       <Play size={20} fill="currentColor"/> 다시 하기
-                   </button>
+                   {isTournamentGame ? (
+                     <button
+                       onClick={() => {
+                         dispatch({ type: 'RESET' });
+                         setShowStandings(true);
+                       }}
+                       className="w-full bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-bold py-4 rounded-xl shadow-lg transform transition active:scale-95 text-lg flex items-center justify-center gap-2"
+                     >
+                         <Trophy size={20}/> {t('gameOver.standings')}
+                     </button>
+                   ) : (!isOnline || room?.hostPlayerId === onlinePlayerId) && (
+                     <button 
+                       onClick={() => isOnline ? connectionRef.current?.send({ type: 'START' }) : dispatch({ type: 'RESET' })}
+                       className="w-full bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-bold py-4 rounded-xl shadow-lg transform transition active:scale-95 text-lg flex items-center justify-center gap-2"
+                     >
+                         <Play size={20} fill="currentColor"/> {t('gameOver.playAgain')}
+                     </button>
+                   )}
+                   {isOnline && (
+                     <button 
+                       onClick={() => leaveOnline()}
+                       className="w-full mt-3 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition flex items-center justify-center gap-2"
+                     >
+                         <LogOut size={18}/> {t('gameOver.leaveRoom')}
+                     </button>
+                   )}
                </div>
           </div>
       )}
+
+      {phase === GamePhase.GAME_OVER && showReplay && (
+          <ReplayViewer state={state} onClose={() => setShowReplay(false)} />
+      )}
+
+      {phase === GamePhase.GAME_OVER && showReport && (
+          <MatchReport state={state} onClose={() => setShowReport(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import React, { useRef, useState } from 'react';
+
+// Props each cell spreads onto its focusable element. Only one cell is in the tab order at a
+// time (roving tabindex); the arrow keys move between them.
+export interface CellFocusProps {
+  tabIndex: number;
+  focusRef: (el: HTMLElement | null) => void;
+  onFocus: () => void;
+}
+
+interface BoardGridProps {
+  size: number; // Cells per row
+  cellCount: number;
+  label: string;
+  className?: string;
+  style?: React.CSSProperties;
+  renderCell: (index: number, focus: CellFocusProps) => React.ReactNode;
+  children?: React.ReactNode; // Decorations drawn before the cells
+}
+
+const BoardGrid: React.FC<BoardGridProps> = ({ size, cellCount, label, className, style, renderCell, children }) => {
+  const [focusIndex, setFocusIndex] = useState(0);
+  const cellRefs = useRef<(HTMLElement | null)[]>([]);
+  const current = Math.min(focusIndex, cellCount - 1);
+
+  const moveTo = (index: number) => {
+    setFocusIndex(index);
+    cellRefs.current[index]?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const row = Math.floor(current / size);
+    const col = current % size;
+    const targets: Record<string, number> = {
+      ArrowLeft: col > 0 ? current - 1 : current,
+      ArrowRight: col < size - 1 ? current + 1 : current,
+      ArrowUp: row > 0 ? current - size : current,
+      ArrowDown: current + size < cellCount ? current + size : current,
+      Home: e.ctrlKey ? 0 : row * size,
+      End: e.ctrlKey ? cellCount - 1 : Math.min(row * size + size, cellCount) - 1
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    moveTo(targets[e.key]);
+  };
+
+  const rows = Array.from({ length: Math.ceil(cellCount / size) }, (_, r) =>
+    Array.from({ length: Math.min(size, cellCount - r * size) }, (_, c) => r * size + c)
+  );
+
+  return (
+    <div role="grid" aria-label={label} className={className} style={style} onKeyDown={handleKeyDown}>
+      {children}
+      {rows.map((cells, r) => (
+        // Rows only exist for assistive technology; the cells sit directly in the CSS grid
+        <div key={r} role="row" className="contents">
+          {cells.map(index =>
+            renderCell(index, {
+              tabIndex: index === current ? 0 : -1,
+              focusRef: el => { cellRefs.current[index] = el; },
+              onFocus: () => setFocusIndex(index)
+            })
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BoardGrid;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { t } from '../services/i18n';
+import { Shield, Zap } from 'lucide-react';
+
+interface BonusGaugeProps {
+  gauge: number;
+  max: number;
+  hasShield: boolean;
+  compact?: boolean; // Smaller variant for the AI mini-boards
+}
+
+const BonusGauge: React.FC<BonusGaugeProps> = ({ gauge, max, hasShield, compact }) => {
+  return (
+    <div
+      className={`flex items-center gap-1.5 bg-slate-900 rounded-lg border border-slate-700 ${compact ? 'px-2 py-1.5' : 'px-3 py-1.5'}`}
+      title={t(hasShield ? 'bonus.gaugeShield' : 'bonus.gauge', { gauge, max })}
+    >
+      <Zap size={compact ? 12 : 14} className="text-indigo-400" />
+      <div className="flex gap-0.5">
+        {Array.from({ length: max }).map((_, i) => (
+          <div
+            key={i}
+            className={`
+              rounded-sm transition-colors duration-300
+              ${compact ? 'w-1.5 h-3' : 'w-2 h-4'}
+              ${i < gauge ? 'bg-indigo-400 shadow-[0_0_6px_rgba(129,140,248,0.8)]' : 'bg-slate-700'}
+            `}
+          />
+        ))}
+      </div>
+      <Shield
+        size={compact ? 14 : 16}
+        className={hasShield ? 'text-sky-400 fill-sky-400/30 drop-shadow-[0_0_6px_rgba(56,189,248,0.8)]' : 'text-slate-700'}
+      />
+    </div>
+  );
+};
+
+export default BonusGauge;
@@ -2,6 +2,8 @@
 import React from 'react';
 import { Cell } from '../types';
 import { Eye, CheckCircle2, Flower2 } from 'lucide-react';
+import { CellFocusProps } from './BoardGrid';
+import { getGloss, t } from '../services/i18n';
 
 interface CardProps {
   cell: Cell;
@@ -10,18 +12,46 @@ interface CardProps {
   onClick?: () => void;
   disabled?: boolean;
   highlight?: boolean;
+  focus?: CellFocusProps; // Set when the card sits in a keyboard-navigable BoardGrid
 }
 
-const Card: React.FC<CardProps> = ({ cell, isRevealed, isPeeked, onClick, disabled, highlight }) => {
+// What a screen reader hears: the face only once it is showing, otherwise just the position
+const describeCard = (cell: Cell, isRevealed: boolean, isPeeked: boolean, highlight?: boolean): string => {
+  const n = cell.gridIndex + 1;
+  const gloss = getGloss(cell.hanja);
+  const face = `${cell.hanja.char} ${cell.hanja.hun} ${cell.hanja.eum}${gloss ? ` (${gloss})` : ''}`;
+  if (isRevealed) return t('card.revealed', { n, face });
+  if (isPeeked) return t('card.peeked', { n, face });
+  return t(highlight ? 'card.selectable' : 'card.hidden', { n });
+};
+
+const Card: React.FC<CardProps> = ({ cell, isRevealed, isPeeked, onClick, disabled, highlight, focus }) => {
+  const gloss = getGloss(cell.hanja);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    if (!disabled) onClick?.();
+  };
+
   return (
     <div 
+      role="button"
+      aria-label={describeCard(cell, isRevealed, isPeeked, highlight)}
+      aria-disabled={disabled || undefined}
+      tabIndex={focus?.tabIndex}
+      ref={focus?.focusRef}
+      onFocus={focus?.onFocus}
+      onKeyDown={handleKeyDown}
       onClick={!disabled ? onClick : undefined}
       className={`
-        relative w-full aspect-square cursor-pointer perspective-1000 select-none
+        relative w-full aspect-square cursor-pointer perspective-1000 select-none rounded-xl
+        focus:outline-none focus-visible:ring-4 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-slate-800
         ${disabled ? 'cursor-not-allowed' : 'hover:scale-[1.02] active:scale-95 transition-transform'}
       `}
     >
       <div 
+        aria-hidden="true"
         className={`
           w-full h-full relative transform-style-3d transition-all duration-500 shadow-xl rounded-xl
           ${isRevealed || isPeeked ? 'rotate-y-180' : ''}
@@ -81,6 +111,11 @@ const Card: React.FC<CardProps> = ({ cell, isRevealed, isPeeked, onClick, disabl
             <div className="text-sm sm:text-base text-center font-bold text-yellow-300">
               {cell.hanja.eum}
             </div>
+            {gloss && (
+              <div className="text-[10px] sm:text-xs text-center text-white/70 whitespace-nowrap overflow-hidden text-ellipsis max-w-full">
+                {gloss}
+              </div>
+            )}
           </div>
         </div>
       </div>
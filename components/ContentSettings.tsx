@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Grade } from '../types';
+import { ContentSettings as ContentSettingsValue, HANJA_PROVIDERS } from '../services/contentSettings';
+import { HanjaFile, loadHanjaFile, parseHanjaFile, saveHanjaFile } from '../services/hanjaFile';
+import { PROVIDER_TIMEOUT, getPoolSize, isProviderReady, refreshPool } from '../services/hanjaProviders';
+import { GRADES } from '../services/hanjaSource';
+import { formatGrade, t } from '../services/i18n';
+import { AlertTriangle, ArrowLeft, Database, FileUp, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ContentSettingsProps {
+  settings: ContentSettingsValue;
+  onChange: (settings: ContentSettingsValue) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 border-2 border-slate-700 text-white font-bold rounded-xl px-4 py-2.5 focus:border-indigo-500 outline-none transition-all';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1.5">
+    <span className="text-xs uppercase font-bold text-slate-400 tracking-wider">{label}</span>
+    {children}
+  </label>
+);
+
+// Where local games get their characters: the bundled dataset, an imported file,
+// Gemini or an OpenAI-compatible server. Saved on every change.
+const ContentSettings: React.FC<ContentSettingsProps> = ({ settings, onChange, onClose }) => {
+  const [file, setFile] = useState<HanjaFile | null>(loadHanjaFile);
+  const [skipped, setSkipped] = useState(0);
+  const [refreshing, setRefreshing] = useState<Grade | null>(null);
+
+  const update = (patch: Partial<ContentSettingsValue>) => onChange({ ...settings, ...patch });
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    const { file: imported, issues } = parseHanjaFile(picked.name, await picked.text());
+    setSkipped(issues.filter(i => i.action === 'rejected').length);
+    if (!imported.hanja.length) return;
+    saveHanjaFile(imported);
+    setFile(imported);
+  };
+
+  const removeFile = () => {
+    saveHanjaFile(null);
+    setFile(null);
+    setSkipped(0);
+  };
+
+  const refresh = async (grade: Grade) => {
+    setRefreshing(grade);
+    await refreshPool(settings, grade);
+    setRefreshing(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-300 hover:text-white font-bold">
+            <ArrowLeft size={20} /> {t('common.back')}
+          </button>
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <Database className="text-indigo-400" size={22} /> {t('content.title')}
+          </h2>
+          <div className="w-16" />
+        </div>
+
+        <div role="radiogroup" aria-label={t('content.title')} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {HANJA_PROVIDERS.map(id => (
+            <button
+              key={id}
+              role="radio"
+              aria-checked={settings.provider === id}
+              onClick={() => update({ provider: id })}
+              className={`text-left p-4 rounded-2xl border-2 transition-all ${settings.provider === id ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              <div className="font-black">{t(`provider.${id}`)}</div>
+              <div className="text-xs mt-1 opacity-80">{t(`providerHint.${id}`)}</div>
+            </button>
+          ))}
+        </div>
+
+        {settings.provider === 'FILE' && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-bold text-white">
+                {file ? t('content.fileLoaded', { name: file.name, n: file.hanja.length }) : t('content.fileNone')}
+              </span>
+              {file && (
+                <button onClick={removeFile} className="text-slate-500 hover:text-red-400" title={t('content.fileRemove')}>
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </div>
+            <label className="flex items-center justify-center gap-2 w-full bg-slate-700 hover:bg-slate-600 text-white py-3 rounded-xl font-bold cursor-pointer transition-all focus-within:ring-4 focus-within:ring-indigo-500/40">
+              <FileUp size={18} /> {t('content.fileImport')}
+              <input type="file" accept=".json,.csv,application/json,text/csv" onChange={importFile} className="sr-only" />
+            </label>
+            {skipped > 0 && <p className="text-sm font-bold text-yellow-400">{t('common.skipped', { n: skipped })}</p>}
+            <p className="text-xs text-slate-500 break-words">{t('content.fileFormat')}</p>
+          </div>
+        )}
+
+        {settings.provider === 'GEMINI' && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+            <Field label={t('content.apiKey')}>
+              <input
+                type="password"
+                autoComplete="off"
+                value={settings.geminiApiKey}
+                onChange={e => update({ geminiApiKey: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label={t('content.model')}>
+              <input value={settings.geminiModel} onChange={e => update({ geminiModel: e.target.value.trim() })} className={inputClass} />
+            </Field>
+            <p className="text-xs text-slate-500">{t('content.keyNotice')}</p>
+          </div>
+        )}
+
+        {settings.provider === 'OPENAI' && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+            <Field label={t('content.baseUrl')}>
+              <input
+                type="url"
+                value={settings.openAiBaseUrl}
+                onChange={e => update({ openAiBaseUrl: e.target.value.trim() })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+            </Field>
+            <Field label={t('content.model')}>
+              <input value={settings.openAiModel} onChange={e => update({ openAiModel: e.target.value.trim() })} className={inputClass} />
+            </Field>
+            <Field label={t('content.apiKeyOptional')}>
+              <input
+                type="password"
+                autoComplete="off"
+                value={settings.openAiApiKey}
+                onChange={e => update({ openAiApiKey: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </Field>
+            <p className="text-xs text-slate-500">{t('content.keyNotice')}</p>
+          </div>
+        )}
+
+        {(settings.provider === 'GEMINI' || settings.provider === 'OPENAI') && isProviderReady(settings) && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('content.pools')}</div>
+            <p className="text-xs text-slate-500">{t('content.poolsHint')}</p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {GRADES.map(grade => (
+                <div key={grade} className="flex items-center justify-between gap-2 bg-slate-900 rounded-xl px-3 py-2 border border-slate-700">
+                  <span className="text-sm font-bold text-white">
+                    {formatGrade(grade)} <span className="text-slate-400 font-medium">{t('content.poolCount', { n: getPoolSize(settings, grade) })}</span>
+                  </span>
+                  <button
+                    onClick={() => refresh(grade)}
+                    disabled={refreshing !== null}
+                    className="text-slate-500 hover:text-white disabled:opacity-40"
+                    title={t('content.refresh', { grade: formatGrade(grade) })}
+                    aria-label={t('content.refresh', { grade: formatGrade(grade) })}
+                  >
+                    <RefreshCw size={14} className={refreshing === grade ? 'animate-spin' : ''} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!isProviderReady(settings) && (
+          <div className="flex items-center gap-2 bg-yellow-500/10 border border-yellow-500/50 text-yellow-300 text-sm font-bold rounded-2xl px-5 py-3">
+            <AlertTriangle size={16} /> {t('content.notReady')}
+          </div>
+        )}
+        {settings.provider !== 'BUNDLED' && (
+          <p className="text-xs text-slate-500">{t('content.fallback', { n: PROVIDER_TIMEOUT / 1000 })}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContentSettings;
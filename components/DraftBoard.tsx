@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { DraftState, Player } from '../types';
+import { getGloss, t } from '../services/i18n';
+import { Shuffle, Hourglass, LayoutGrid } from 'lucide-react';
+
+interface DraftBoardProps {
+  draft: DraftState;
+  players: Player[];
+  myPlayerId: string | null; // null when only watching: the drafter's grid is shown
+  onPlace: (hanjaId: string, slotIndex: number) => void;
+  onAutoFill: () => void;
+}
+
+const DraftBoard: React.FC<DraftBoardProps> = ({ draft, players, myPlayerId, onPlace, onAutoFill }) => {
+  const [selectedHanjaId, setSelectedHanjaId] = useState<string | null>(null);
+
+  const drafterId = draft.order[draft.pickIndex % draft.order.length];
+  const drafter = players.find(p => p.id === drafterId);
+  const isMyPick = !!myPlayerId && drafterId === myPlayerId;
+  const mySlots = draft.slots[myPlayerId ?? drafterId] || [];
+  const placedIds = new Set(mySlots.filter(Boolean).map(h => h!.id));
+
+  const handleSlotClick = (slotIndex: number) => {
+    if (!isMyPick || !selectedHanjaId || mySlots[slotIndex]) return;
+    onPlace(selectedHanjaId, slotIndex);
+    setSelectedHanjaId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      {/* Draft Status */}
+      <div className="w-full max-w-5xl mb-6 flex flex-col sm:flex-row justify-between items-center gap-3 bg-slate-800 p-4 rounded-2xl border border-slate-700">
+        <h2 className="text-xl font-black text-white flex items-center gap-2">
+          <LayoutGrid className="text-indigo-400" size={22} /> {t('draft.title')}
+        </h2>
+        <div className="flex items-center gap-3 bg-slate-900 px-4 py-2 rounded-full border border-slate-600">
+          <div className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">{t('draft.pick')}</div>
+          <div className="w-3 h-3 rounded-full animate-pulse" style={{ backgroundColor: drafter?.color }} />
+          <span className="font-bold text-white">{drafter?.name}</span>
+        </div>
+        <div className="flex gap-2">
+          {players.map(p => (
+            <div key={p.id} className="flex items-center gap-1.5 text-xs font-bold bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300">
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: p.color }} />
+              {(draft.slots[p.id] || []).filter(Boolean).length}/{draft.pool.length}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full max-w-5xl flex flex-col lg:flex-row gap-8 items-start">
+        {/* My Grid */}
+        <div className="flex-1 w-full">
+          <div className="mb-4 h-14 relative">
+            {isMyPick ? (
+              <div className="absolute inset-0 bg-indigo-600/20 border-l-4 border-indigo-500 p-4 rounded-r-xl flex items-center text-white font-medium">
+                {t(selectedHanjaId ? 'draft.placeHint' : 'draft.chooseHint')}
+              </div>
+            ) : (
+              <div className="absolute inset-0 bg-slate-800 border-2 border-slate-700 border-dashed text-slate-400 p-4 rounded-xl flex items-center gap-3 animate-pulse">
+                <Hourglass size={20} /> {t('draft.waiting', { name: drafter?.name ?? '' })}
+              </div>
+            )}
+          </div>
+
+          <div
+            className="grid gap-3 p-4 bg-slate-800 rounded-3xl border-2 border-slate-700"
+            style={{ gridTemplateColumns: `repeat(${Math.round(Math.sqrt(mySlots.length))}, minmax(0, 1fr))` }}
+          >
+            {mySlots.map((hanja, idx) => (
+              <button
+                key={idx}
+                onClick={() => handleSlotClick(idx)}
+                disabled={!isMyPick || !!hanja || !selectedHanjaId}
+                className={`
+                  aspect-square rounded-xl flex flex-col items-center justify-center transition-all
+                  ${hanja
+                    ? 'bg-gradient-to-br from-indigo-700 to-slate-900 border border-indigo-400 text-white'
+                    : selectedHanjaId && isMyPick
+                      ? 'bg-slate-700 border-2 border-dashed border-yellow-400 hover:bg-slate-600'
+                      : 'bg-slate-900 border border-slate-700'}
+                `}
+              >
+                {hanja && (
+                  <>
+                    <span className="text-3xl sm:text-4xl font-serif font-black leading-none">{hanja.char}</span>
+                    <span className="text-[10px] sm:text-xs text-yellow-300 font-bold mt-1">{hanja.hunEum}</span>
+                  </>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onAutoFill}
+            disabled={!isMyPick}
+            className="mt-6 w-full bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white py-4 rounded-2xl font-bold flex items-center justify-center gap-2 transition-all"
+          >
+            <Shuffle size={20} /> {t('draft.autoFill')}
+          </button>
+        </div>
+
+        {/* Shared Pool */}
+        <div className="w-full lg:w-96 bg-slate-800 rounded-2xl border border-slate-700 p-4">
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">{t('draft.pool')}</div>
+          <div className="grid grid-cols-5 gap-2">
+            {draft.pool.map(hanja => {
+              const isPlaced = placedIds.has(hanja.id);
+              const isSelected = selectedHanjaId === hanja.id;
+              return (
+                <button
+                  key={hanja.id}
+                  onClick={() => setSelectedHanjaId(isSelected ? null : hanja.id)}
+                  disabled={isPlaced || !isMyPick}
+                  title={[hanja.hunEum, getGloss(hanja)].filter(Boolean).join(' · ')}
+                  className={`
+                    aspect-square rounded-lg text-2xl font-serif font-black transition-all
+                    ${isPlaced
+                      ? 'bg-slate-900 text-slate-700'
+                      : isSelected
+                        ? 'bg-yellow-500 text-slate-900 scale-110 shadow-lg'
+                        : 'bg-slate-700 text-white hover:bg-slate-600'}
+                  `}
+                >
+                  {hanja.char}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftBoard;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { GameEvent, GameState } from '../types';
+import { EVENT_FILTERS, EventFilter, describeEvent, eventsToJson, filterEvents } from '../engine/events';
+import { getLocale, t } from '../services/i18n';
+import { Download, ScrollText } from 'lucide-react';
+
+interface EventLogProps {
+  state: GameState; // For names and the board size
+  events: GameEvent[]; // What this device may see (engine/view.ts maskEvents)
+}
+
+const downloadJson = (state: GameState, events: GameEvent[]) => {
+  const blob = new Blob([eventsToJson(state, events)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hanbingo-${state.settings.grade}-${state.seed || 'match'}-events.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The match so far, newest first, narrowed by kind of event or by player
+const EventLog: React.FC<EventLogProps> = ({ state, events }) => {
+  const [filter, setFilter] = useState<EventFilter>('ALL');
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const shown = filterEvents(events, filter, playerId).reverse();
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-0 border border-slate-700 shadow-sm flex-1 min-h-[250px] flex flex-col overflow-hidden">
+      <div className="text-xs font-bold text-slate-400 uppercase tracking-wider p-4 bg-slate-900/50 border-b border-slate-700 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2"><ScrollText size={14}/> {t('game.log')}</span>
+          <button
+            onClick={() => downloadJson(state, events)}
+            className="flex items-center gap-1 text-slate-400 hover:text-white normal-case"
+            title={t('log.export')}
+          >
+            <Download size={14} /> JSON
+          </button>
+        </div>
+        <div className="flex gap-2 normal-case tracking-normal">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as EventFilter)}
+            aria-label={t('log.filter')}
+            className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded-lg px-2 py-1 border border-slate-700 cursor-pointer"
+          >
+            {EVENT_FILTERS.map(f => (
+              <option key={f} value={f}>{t(`logFilter.${f}`)}</option>
+            ))}
+          </select>
+          <select
+            value={playerId ?? ''}
+            onChange={(e) => setPlayerId(e.target.value || null)}
+            aria-label={t('log.player')}
+            className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded-lg px-2 py-1 border border-slate-700 cursor-pointer"
+          >
+            <option value="">{t('log.allPlayers')}</option>
+            {state.players.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 max-h-[300px] scrollbar-thin scrollbar-thumb-slate-600">
+        {shown.map(event => (
+          <div key={event.seq} className="text-sm text-slate-300 animate-in slide-in-from-left-2 fade-in leading-relaxed pl-3 border-l-2 border-slate-600">
+            <span className="text-slate-500 mr-2 font-mono block text-[10px] mb-0.5">
+              {new Date(event.at).toLocaleTimeString(getLocale(), { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            </span>
+            {describeEvent(event, state)}
+          </div>
+        ))}
+        {shown.length === 0 && <p className="text-sm text-slate-500">{t('log.empty')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EventLog;
@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { AnswerOutcome, GameState } from '../types';
+import { buildMatchReport, describeLine, matchRoundsToCsv } from '../engine/report';
+import { eventsToJson } from '../engine/events';
+import { formatGrade, t } from '../services/i18n';
+import { ClipboardList, Download, Printer, X } from 'lucide-react';
+
+interface MatchReportProps {
+  state: GameState;
+  onClose: () => void;
+}
+
+const OUTCOME_MARKS: Record<AnswerOutcome, string> = { CORRECT: '○', WRONG: '✕', TIMEOUT: '⏱' };
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+const formatSeconds = (value: number | null) => (value === null ? '-' : t('common.seconds', { n: value.toFixed(1) }));
+
+const download = (state: GameState, content: string, type: string, extension: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hanbingo-${state.settings.grade}-${state.seed || 'match'}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Accuracy and speed per player, every quizzed hanja with who got it right, and when each
+// line was completed. Teachers can print it, export the rounds as CSV or every event as JSON.
+const MatchReport: React.FC<MatchReportProps> = ({ state, onClose }) => {
+  const report = useMemo(() => buildMatchReport(state), [state]);
+
+  return (
+    <div className="match-report fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-md overflow-y-auto p-4 print:bg-white print:text-black">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700 print:bg-white print:border-slate-300">
+          <h2 className="text-xl font-black text-white flex items-center gap-2 print:text-black">
+            <ClipboardList className="text-indigo-400" size={22} /> {t('report.title')}
+          </h2>
+          <div className="flex items-center gap-2 print:hidden">
+            <button
+              onClick={() => download(state, matchRoundsToCsv(state), 'text/csv;charset=utf-8', 'csv')}
+              className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white text-sm font-bold"
+            >
+              <Download size={16} /> CSV
+            </button>
+            <button
+              onClick={() => download(state, eventsToJson(state), 'application/json', 'json')}
+              className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white text-sm font-bold"
+              title={t('log.export')}
+            >
+              <Download size={16} /> JSON
+            </button>
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white text-sm font-bold"
+            >
+              <Printer size={16} /> {t('report.print')}
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white ml-2" title={t('common.close')}>
+              <X size={22} />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          {[
+            { label: t('report.grade'), value: formatGrade(report.grade) },
+            { label: t('report.turns'), value: t('report.turnCount', { n: report.turns }) },
+            { label: t('report.seed'), value: report.seed || '-' }
+          ].map(item => (
+            <div key={item.label} className="bg-slate-800 rounded-2xl p-3 border border-slate-700 print:bg-white print:border-slate-300">
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">{item.label}</div>
+              <div className="text-lg font-black text-white font-mono print:text-black">{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Players */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-4 overflow-x-auto print:bg-white print:border-slate-300">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 uppercase tracking-wider text-left">
+                <th className="py-2">{t('report.player')}</th>
+                <th>{t('report.accuracy')}</th>
+                <th>{t('report.counts')}</th>
+                <th>{t('report.averageAnswer')}</th>
+                <th>{t('report.points')}</th>
+                <th>{t('report.lines')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.players.map(p => (
+                <tr key={p.playerId} className="border-t border-slate-700 print:border-slate-300">
+                  <td className="py-2 font-bold" style={{ color: p.color }}>
+                    {p.name}{p.isWinner ? ' 🏆' : ''}
+                  </td>
+                  <td className="text-white font-bold print:text-black">{formatPercent(p.accuracy)}</td>
+                  <td className="text-slate-300 print:text-black">{p.correct} / {p.wrong} / {p.timeouts}</td>
+                  <td className="text-slate-300 print:text-black">{formatSeconds(p.averageSeconds)}</td>
+                  <td className="text-white font-bold print:text-black">{p.points}</td>
+                  <td className="text-slate-300 print:text-black">
+                    {p.lines.length === 0
+                      ? '-'
+                      : p.lines.map(l => `${describeLine(l.line, report.boardSize)} (${l.turn})`).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Hanja, most missed first */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-4 overflow-x-auto print:bg-white print:border-slate-300">
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+            {t('report.hanjaTitle')}
+          </div>
+          {report.hanja.length === 0 ? (
+            <p className="text-slate-500 text-sm">{t('report.noQuestions')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400 text-left">
+                  <th className="py-2">{t('report.hanja')}</th>
+                  <th>{t('report.turn')}</th>
+                  {report.players.map(p => (
+                    <th key={p.playerId} style={{ color: p.color }}>{p.name}</th>
+                  ))}
+                  <th>{t('report.accuracy')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.hanja.map(h => (
+                  <tr key={h.hanja.char} className="border-t border-slate-700 print:border-slate-300">
+                    <td className="py-2">
+                      <span className="text-2xl font-serif font-black text-white mr-2 print:text-black">{h.hanja.char}</span>
+                      <span className="text-slate-400">{h.hanja.hunEum}</span>
+                    </td>
+                    <td className="text-slate-400">{h.turns.join(', ')}</td>
+                    {report.players.map(p => (
+                      <td key={p.playerId} className="text-white font-bold print:text-black">
+                        {(h.results[p.playerId] || []).map(o => OUTCOME_MARKS[o]).join(' ')}
+                      </td>
+                    ))}
+                    <td className="text-slate-300 print:text-black">{formatPercent(h.accuracy)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchReport;
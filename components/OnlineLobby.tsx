@@ -0,0 +1,87 @@
+import React from 'react';
+import { RoomInfo } from '../types';
+import { getDefaultSeatName } from '../engine/gameEngine';
+import { NetStatus } from '../services/netClient';
+import { t } from '../services/i18n';
+import { Bot, Crown, Globe, LogOut, Play, User, Wifi, WifiOff } from 'lucide-react';
+
+interface OnlineLobbyProps {
+  room: RoomInfo | null;
+  playerId: string | null;
+  status: NetStatus;
+  error: string | null;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+// Waiting room for an online game: share the code, watch seats fill, host starts.
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({ room, playerId, status, error, onStart, onLeave }) => {
+  const isHost = !!room && room.hostPlayerId === playerId;
+  const isFull = !!room && room.seats.every(s => s.claimed);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-900 p-4">
+      <div className="bg-slate-800 p-8 rounded-3xl border border-indigo-500/30 shadow-2xl max-w-md w-full space-y-6">
+        <div className="text-center">
+          <div className="flex items-center justify-center gap-2 text-xs uppercase font-bold text-indigo-400 tracking-widest mb-2">
+            <Globe size={14} /> {t('lobby.room')}
+          </div>
+          {room ? (
+            <div className="text-5xl font-black font-mono tracking-[0.3em] text-yellow-400">{room.code}</div>
+          ) : (
+            <div className="text-slate-400 font-bold animate-pulse py-3">
+              {t(status === 'RECONNECTING' ? 'lobby.reconnecting' : 'lobby.connecting')}
+            </div>
+          )}
+          {room && <p className="text-slate-400 text-sm mt-2">{t('lobby.shareCode')}</p>}
+        </div>
+
+        {room && (
+          <div className="space-y-2">
+            {room.seats.map((seat, i) => (
+              <div key={seat.playerId} className={`flex items-center gap-3 bg-slate-900 rounded-2xl px-4 py-3 border-2 ${seat.playerId === playerId ? 'border-indigo-500' : 'border-slate-700'}`}>
+                <span className="text-sm font-bold text-slate-500 w-6">P{i + 1}</span>
+                {seat.isAI ? <Bot size={18} className="text-slate-400" /> : <User size={18} className="text-slate-300" />}
+                <span className={`flex-1 font-bold ${seat.claimed ? 'text-white' : 'text-slate-600'}`}>
+                  {seat.claimed ? seat.name || getDefaultSeatName(seat.isAI) : t('lobby.emptySeat')}
+                  {seat.aiLevel && <span className="ml-2 text-[10px] text-slate-400">{t(`aiLevel.${seat.aiLevel}`)}</span>}
+                </span>
+                {seat.playerId === room.hostPlayerId && <Crown size={16} className="text-yellow-400" />}
+                {!seat.isAI && seat.claimed && (
+                  seat.connected ? <Wifi size={16} className="text-green-400" /> : <WifiOff size={16} className="text-red-400" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 text-red-300 text-sm font-bold rounded-2xl px-5 py-3">
+            {error}
+          </div>
+        )}
+
+        {isHost ? (
+          <button
+            onClick={onStart}
+            disabled={!isFull || status !== 'OPEN'}
+            className="w-full bg-gradient-to-r from-yellow-500 to-orange-600 disabled:opacity-40 text-white text-xl font-black py-4 rounded-2xl shadow-xl flex items-center justify-center gap-3 transition-all active:scale-[0.98]"
+          >
+            <Play fill="currentColor" size={22} /> {t(isFull ? 'lobby.start' : 'lobby.waitingPlayers')}
+          </button>
+        ) : room && (
+          <div className="text-center text-slate-400 font-bold animate-pulse">{t('lobby.waitingHost')}</div>
+        )}
+
+        <button
+          onClick={onLeave}
+          className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl transition flex items-center justify-center gap-2"
+        >
+          <LogOut size={18} /> {t('lobby.leave')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OnlineLobby;
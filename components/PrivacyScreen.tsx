@@ -0,0 +1,35 @@
+import React from 'react';
+import { Player } from '../types';
+import { t } from '../services/i18n';
+import { EyeOff, Smartphone } from 'lucide-react';
+
+interface PrivacyScreenProps {
+  player: Player;
+  onReady: () => void;
+}
+
+// Covers the board while the device is handed to the next human, so peeked positions stay private.
+const PrivacyScreen: React.FC<PrivacyScreenProps> = ({ player, onReady }) => {
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-slate-950 text-white p-6">
+      <div className="relative mb-8">
+        <div className="absolute inset-0 blur-2xl opacity-30 rounded-full" style={{ backgroundColor: player.color }} />
+        <Smartphone size={72} className="relative text-slate-300" />
+        <EyeOff size={28} className="absolute -bottom-2 -right-3 text-yellow-400" />
+      </div>
+      <p className="text-slate-400 font-medium mb-2">{t('privacy.handOver')}</p>
+      <h2 className="text-4xl font-black mb-10 flex items-center gap-3">
+        <div className="w-4 h-4 rounded-full" style={{ backgroundColor: player.color }} />
+        {t('privacy.turn', { name: player.name })}
+      </h2>
+      <button
+        onClick={onReady}
+        className="bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-black text-xl px-12 py-5 rounded-2xl shadow-xl transition active:scale-95"
+      >
+        {t('privacy.ready')}
+      </button>
+    </div>
+  );
+};
+
+export default PrivacyScreen;
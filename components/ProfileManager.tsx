@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Grade } from '../types';
+import {
+  ACHIEVEMENTS,
+  AVATAR_COLORS,
+  PlayerProfile,
+  createProfile,
+  getAccuracy,
+  getLevel
+} from '../services/profiles';
+import { getDefaultSeatName } from '../engine/gameEngine';
+import { GRADES } from '../services/hanjaSource';
+import { formatGrade, t, translate } from '../services/i18n';
+import { ArrowLeft, Award, Lock, Plus, Trash2, UserCircle } from 'lucide-react';
+
+interface ProfileManagerProps {
+  profiles: PlayerProfile[];
+  onChange: (profiles: PlayerProfile[]) => void;
+  onClose: () => void;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+
+const ColorPicker: React.FC<{ value: string; onChange: (color: string) => void }> = ({ value, onChange }) => (
+  <div role="radiogroup" aria-label={t('profiles.color')} className="flex flex-wrap gap-1.5">
+    {AVATAR_COLORS.map(color => (
+      <button
+        key={color}
+        role="radio"
+        aria-checked={value === color}
+        aria-label={color}
+        onClick={() => onChange(color)}
+        className={`w-7 h-7 rounded-full border-2 transition-all ${value === color ? 'border-white scale-110' : 'border-transparent opacity-70 hover:opacity-100'}`}
+        style={{ backgroundColor: color }}
+      />
+    ))}
+  </div>
+);
+
+// Create, rename and recolour profiles, and see their level, stats and achievements
+const ProfileManager: React.FC<ProfileManagerProps> = ({ profiles, onChange, onClose }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(AVATAR_COLORS[profiles.length % AVATAR_COLORS.length]);
+
+  const add = () => {
+    if (!name.trim()) return;
+    onChange([...profiles, createProfile(name.trim(), color)]);
+    setName('');
+    setColor(AVATAR_COLORS[(profiles.length + 1) % AVATAR_COLORS.length]);
+  };
+
+  const update = (id: string, patch: Partial<PlayerProfile>) =>
+    onChange(profiles.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const remove = (profile: PlayerProfile) => {
+    if (!confirm(t('profiles.deleteConfirm', { name: profile.name }))) return;
+    onChange(profiles.filter(p => p.id !== profile.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-300 hover:text-white font-bold">
+            <ArrowLeft size={20} /> {t('common.back')}
+          </button>
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <UserCircle className="text-indigo-400" size={22} /> {t('profiles.title')}
+          </h2>
+          <div className="w-16" />
+        </div>
+
+        {/* New profile */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && add()}
+              maxLength={10}
+              placeholder={t('profiles.namePlaceholder')}
+              aria-label={t('profiles.name')}
+              className="flex-1 min-w-0 bg-slate-900 border-2 border-slate-700 text-white font-bold rounded-xl px-4 py-2.5 focus:border-indigo-500 outline-none"
+            />
+            <button
+              onClick={add}
+              disabled={!name.trim()}
+              className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white font-bold px-5 rounded-xl flex items-center gap-2"
+            >
+              <Plus size={18} /> {t('profiles.add')}
+            </button>
+          </div>
+          <ColorPicker value={color} onChange={setColor} />
+        </div>
+
+        {profiles.length === 0 && <p className="text-center text-slate-500 font-bold">{t('profiles.empty')}</p>}
+
+        {profiles.map(profile => {
+          const { stats } = profile;
+          const level = getLevel(profile.xp);
+          const grades = GRADES.filter(g => stats.byGrade[g]?.total);
+          return (
+            <div key={profile.id} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+              <div className="flex items-center gap-3">
+                <div
+                  aria-hidden="true"
+                  className="w-12 h-12 rounded-full flex items-center justify-center text-xl font-black text-white shrink-0"
+                  style={{ backgroundColor: profile.color }}
+                >
+                  {profile.name.slice(0, 1)}
+                </div>
+                <input
+                  value={profile.name}
+                  onChange={e => update(profile.id, { name: e.target.value })}
+                  onBlur={e => !e.target.value.trim() && update(profile.id, { name: getDefaultSeatName(false) })}
+                  maxLength={10}
+                  aria-label={t('profiles.name')}
+                  className="flex-1 min-w-0 bg-transparent text-white text-lg font-black border-b-2 border-transparent focus:border-indigo-500 outline-none"
+                />
+                <span className="text-sm font-black text-yellow-400 bg-slate-900 px-3 py-1 rounded-lg border border-slate-700">
+                  {t('profiles.level', { n: level.level })}
+                </span>
+                <button onClick={() => remove(profile)} className="text-slate-500 hover:text-red-400" title={t('profiles.delete')}>
+                  <Trash2 size={18} />
+                </button>
+              </div>
+
+              <ColorPicker value={profile.color} onChange={c => update(profile.id, { color: c })} />
+
+              <div>
+                <div className="flex justify-between text-xs font-bold text-slate-400 mb-1">
+                  <span>XP</span>
+                  <span>{level.xp} / {level.needed}</span>
+                </div>
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={level.needed}
+                  aria-valuenow={level.xp}
+                  className="h-2 rounded-full bg-slate-900 overflow-hidden"
+                >
+                  <div className="h-full bg-yellow-400" style={{ width: `${(level.xp / level.needed) * 100}%` }} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                {[
+                  [t('profiles.games'), stats.games],
+                  [t('profiles.wins'), stats.wins + stats.sharedWins],
+                  [t('report.accuracy'), formatPercent(getAccuracy(stats))],
+                  [t('profiles.bestStreak'), stats.bestWinStreak]
+                ].map(([label, value]) => (
+                  <div key={String(label)} className="bg-slate-900 rounded-xl p-2 border border-slate-700">
+                    <div className="text-lg font-black text-white">{value}</div>
+                    <div className="text-[10px] font-bold text-slate-400 uppercase">{label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {grades.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-xs font-bold">
+                  {grades.map((grade: Grade) => {
+                    const accuracy = stats.byGrade[grade]!;
+                    return (
+                      <span key={grade} className="bg-slate-900 text-slate-300 px-2 py-1 rounded-lg border border-slate-700">
+                        {formatGrade(grade)} {formatPercent(accuracy.correct / accuracy.total)} ({accuracy.total})
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {ACHIEVEMENTS.map(achievement => {
+                  const unlocked = !!profile.achievements[achievement.id];
+                  return (
+                    <span
+                      key={achievement.id}
+                      title={translate(achievement.description)}
+                      className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-lg border ${unlocked ? 'bg-yellow-500/20 border-yellow-500/60 text-yellow-300' : 'bg-slate-900 border-slate-700 text-slate-600'}`}
+                    >
+                      {unlocked ? <Award size={12} /> : <Lock size={12} aria-label={t('profiles.locked')} />}
+                      {translate(achievement.name)}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
@@ -1,14 +1,25 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { QuizState, Player } from '../types';
-import { Timer, HelpCircle, User } from 'lucide-react';
+import { QUIZ_TYPE_INFO, getCorrectLabel, isCorrectAnswer } from '../engine/quiz';
+import { QUIZ_TIMEOUT, TIMEOUT_ANSWER } from '../engine/gameEngine';
+import { t } from '../services/i18n';
+import { Timer, User, Keyboard, Check, CheckCircle2, XCircle, Send } from 'lucide-react';
+
+// Answer keys per human seat (in seat order), so several players can share one keyboard
+export const ANSWER_KEYS = [
+  ['1', '2', '3', '4'],
+  ['Q', 'W', 'E', 'R'],
+  ['A', 'S', 'D', 'F'],
+  ['Z', 'X', 'C', 'V']
+];
 
 interface QuizBattleProps {
   quizState: QuizState;
   players: Player[];
-  onAnswer: (optionId: string) => void;
+  onAnswer: (playerId: string, optionId: string) => void;
   currentPlayerId: string; // The person whose turn initiated this
-  myPlayerId: string; // The human user
+  humanPlayerIds: string[]; // Humans sharing this device, in seat order
   timeLeft: number;
 }
 
@@ -17,41 +28,67 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
   players, 
   onAnswer, 
   currentPlayerId, 
-  myPlayerId,
+  humanPlayerIds,
   timeLeft 
 }) => {
-  const { targetHanja, type, options, answers, resultsShown, correctOptionId } = quizState;
+  const { type, prompt, options, answers, resultsShown, correctOptionId } = quizState;
+  const canAnswer = (playerId: string) => !answers[playerId] && !resultsShown && timeLeft > 0;
+  const isTyped = type === 'TYPED_EUM';
+  const [typed, setTyped] = useState<Record<string, string>>({});
+
+  const submitTyped = (playerId: string) => {
+    const text = (typed[playerId] || '').trim();
+    if (text && canAnswer(playerId)) onAnswer(playerId, text);
+  };
+
+  // Keyboard answering: each human seat has its own row of keys (typed questions use text fields).
+  // The number row and the numpad both work for the first seat.
+  useEffect(() => {
+    if (isTyped) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = /^Numpad\d$/.test(e.code) ? e.code.slice(-1) : e.key.toUpperCase();
+      humanPlayerIds.forEach((playerId, seat) => {
+        const optionIndex = (ANSWER_KEYS[seat] || []).indexOf(key);
+        if (optionIndex >= 0 && options[optionIndex] && canAnswer(playerId)) {
+          onAnswer(playerId, options[optionIndex].id);
+        }
+      });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-  if (!targetHanja) return null;
+  if (!prompt) return null;
 
-  const isHanjaToHunEum = type === 'HANJA_TO_HUNEUM';
-  const questionText = isHanjaToHunEum 
-    ? `다음 한자의 훈(뜻)과 음(소리)은?` 
-    : `다음 뜻과 소리에 맞는 한자는?`;
-  
-  const questionContent = isHanjaToHunEum 
-    ? <span className="text-7xl font-serif font-black text-yellow-400 drop-shadow-lg">{targetHanja.char}</span>
-    : <span className="text-4xl font-bold text-yellow-400 drop-shadow-lg">{targetHanja.hunEum}</span>;
+  // With one human the options are answered by clicking; several humans use their own key rows
+  // and their picks stay hidden until the results are shown.
+  const isHotSeat = humanPlayerIds.length > 1;
+  const myPlayerId = isHotSeat ? null : humanPlayerIds[0];
 
-  const hasAnswered = !!answers[myPlayerId];
+  const info = QUIZ_TYPE_INFO[type];
+  const questionContent = info.promptIsHanja
+    ? <span className={`${prompt.length > 1 ? 'text-6xl' : 'text-7xl'} font-serif font-black text-yellow-400 drop-shadow-lg tracking-widest`}>{prompt}</span>
+    : <span className="text-4xl font-bold text-yellow-400 drop-shadow-lg">{prompt}</span>;
+
+  const hasAnswered = !myPlayerId || !!answers[myPlayerId];
   const initiator = players.find(p => p.id === currentPlayerId);
 
-  // Calculate percentage for timer bar
-  const timerPercentage = (timeLeft / 10) * 100; // Assuming 10s is max
+  const timerPercentage = (timeLeft / QUIZ_TIMEOUT) * 100;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/85 backdrop-blur-md p-4 animate-in fade-in duration-300">
-      <div className="bg-slate-800 rounded-3xl shadow-2xl max-w-xl w-full overflow-hidden border border-slate-700 relative">
+      <div role="dialog" aria-modal="true" aria-labelledby="quiz-question" className="bg-slate-800 rounded-3xl shadow-2xl max-w-xl w-full overflow-hidden border border-slate-700 relative">
         
         {/* Timer Bar */}
-        <div className="absolute top-0 left-0 h-2 bg-gradient-to-r from-yellow-400 to-orange-500 transition-all duration-1000 ease-linear z-10"
+        <div aria-hidden="true" className="absolute top-0 left-0 h-2 bg-gradient-to-r from-yellow-400 to-orange-500 transition-all duration-1000 ease-linear z-10"
              style={{ width: `${Math.min(timerPercentage, 100)}%` }} />
 
         {/* Header */}
         <div className="bg-slate-900 p-5 border-b border-slate-700 flex justify-between items-center">
           <div className="flex items-center gap-3">
             <div className="flex flex-col">
-                 <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Turn</span>
+                 <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">{t('quiz.turn')}</span>
                  <span className="font-bold text-white flex items-center gap-2 text-lg">
                     <div className="w-3 h-3 rounded-full" style={{backgroundColor: initiator?.color}}/>
                     {initiator?.name}
@@ -62,7 +99,7 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
           <div className="flex items-center gap-6">
              {/* Live Answer Status with Avatars */}
              <div className="flex items-center gap-2">
-                <span className="text-[10px] text-slate-500 font-bold uppercase hidden sm:block">Status</span>
+                <span className="text-[10px] text-slate-500 font-bold uppercase hidden sm:block">{t('quiz.status')}</span>
                 <div className="flex -space-x-2">
                     {players.map(p => {
                         const hasSubmitted = !!answers[p.id];
@@ -74,12 +111,16 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
                                         ? 'bg-green-500 text-white scale-110 z-10' 
                                         : 'bg-slate-700 text-slate-500 opacity-50'}
                                 `}
-                                title={`${p.name} ${hasSubmitted ? '제출 완료' : '생각 중'}`}
+                                title={`${p.name} ${t(hasSubmitted ? 'quiz.submitted' : 'quiz.thinking')}`}
+                                role="img"
+                                aria-label={`${p.name} ${t(hasSubmitted ? 'quiz.submitted' : 'quiz.thinking')}`}
                             >
                                 <User size={14} />
-                                {/* Status Indicator Dot */}
+                                {/* Status Indicator: a check mark, not just the colour */}
                                 {hasSubmitted ? (
-                                    <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-white rounded-full border-2 border-slate-900"/>
+                                    <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-white text-green-600 rounded-full border-2 border-slate-900 flex items-center justify-center">
+                                        <Check size={10} strokeWidth={4} />
+                                    </div>
                                 ) : (
                                     <div className="absolute inset-0 rounded-full border-2 border-slate-500 border-dashed animate-spin-slow opacity-30"/>
                                 )}
@@ -89,7 +130,7 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
                 </div>
              </div>
 
-              <div className={`
+              <div role="timer" aria-label={t('game.timeLeft', { n: timeLeft })} className={`
                  flex items-center gap-1 font-mono font-black text-2xl
                  ${timeLeft <= 3 ? 'text-red-500 animate-pulse' : 'text-yellow-400'}
               `}>
@@ -100,14 +141,62 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
 
         {/* Question Area */}
         <div className="p-10 flex flex-col items-center justify-center bg-slate-800 text-center space-y-6">
-          <p className="text-indigo-200 font-bold text-lg">{questionText}</p>
+          <span className="text-[10px] uppercase font-bold text-indigo-300 bg-indigo-500/20 px-3 py-1 rounded-full tracking-wider">{t(`quizType.${quizState.type}`)}</span>
+          <p id="quiz-question" className="text-indigo-200 font-bold text-lg">{t(`quizQuestion.${quizState.type}`)}</p>
           <div className="py-2 transform transition-transform hover:scale-105">{questionContent}</div>
         </div>
 
+        {/* Typed answer */}
+        {isTyped && (
+          <div className="p-6 bg-slate-900/50 space-y-3">
+            {myPlayerId && !resultsShown && (
+              <form
+                onSubmit={(e) => { e.preventDefault(); submitTyped(myPlayerId); }}
+                className="flex gap-3"
+              >
+                <input
+                  autoFocus
+                  value={typed[myPlayerId] || ''}
+                  onChange={(e) => setTyped({ ...typed, [myPlayerId]: e.target.value })}
+                  disabled={hasAnswered || timeLeft === 0}
+                  placeholder={t('quiz.typedPlaceholder')}
+                  className="flex-1 bg-slate-800 border-2 border-slate-600 focus:border-indigo-400 rounded-xl px-4 py-3 text-xl font-bold text-white focus:outline-none disabled:opacity-50"
+                />
+                <button
+                  type="submit"
+                  disabled={hasAnswered || timeLeft === 0}
+                  className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white font-bold px-5 rounded-xl flex items-center gap-2"
+                >
+                  <Send size={18} /> {t('quiz.submit')}
+                </button>
+              </form>
+            )}
+            {resultsShown && (
+              <div className="space-y-2">
+                <div className="text-center text-green-400 font-black text-2xl mb-3">{t('quiz.answerIs', { answer: getCorrectLabel(quizState) })}</div>
+                {players.map(p => {
+                  const correct = isCorrectAnswer(quizState, answers[p.id]);
+                  return (
+                    <div key={p.id} className="flex items-center gap-3 bg-slate-800 rounded-xl px-4 py-2 border border-slate-700">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: p.color }} />
+                      <span className="font-bold text-white flex-1 truncate">{p.name}</span>
+                      <span className="text-slate-300 font-bold">{answers[p.id] === TIMEOUT_ANSWER ? t('outcome.TIMEOUT') : answers[p.id]}</span>
+                      {correct
+                        ? <CheckCircle2 size={18} className="text-green-400" aria-label={t('outcome.CORRECT')} />
+                        : <XCircle size={18} className="text-red-400" aria-label={t('outcome.WRONG')} />}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Options */}
-        <div className="grid grid-cols-1 gap-3 p-6 bg-slate-900/50">
+        {!isTyped && (
+        <div role="group" aria-label={t('quiz.options')} className="grid grid-cols-1 gap-3 p-6 bg-slate-900/50">
           {options.map((option, idx) => {
-            const isSelected = answers[myPlayerId] === option.id;
+            const isSelected = !!myPlayerId && answers[myPlayerId] === option.id;
             const isCorrect = option.id === correctOptionId;
             
             let btnClass = "p-4 rounded-xl border-2 text-left transition-all relative overflow-hidden group ";
@@ -124,9 +213,14 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
             return (
               <button
                 key={option.id}
-                onClick={() => !hasAnswered && !resultsShown && timeLeft > 0 && onAnswer(option.id)}
+                onClick={() => myPlayerId && canAnswer(myPlayerId) && onAnswer(myPlayerId, option.id)}
                 disabled={hasAnswered || resultsShown || timeLeft === 0}
-                className={btnClass}
+                aria-pressed={isSelected}
+                aria-label={t(
+                  resultsShown && isCorrect ? 'quiz.optionCorrect' : resultsShown && isSelected ? 'quiz.optionWrong' : 'quiz.option',
+                  { n: idx + 1, label: option.label }
+                )}
+                className={`${btnClass} focus:outline-none focus-visible:ring-4 focus-visible:ring-white`}
               >
                 <div className="flex items-center gap-5">
                   <span className={`
@@ -139,9 +233,16 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
                   `}>
                     {idx + 1}
                   </span>
-                  <span className="text-xl font-bold tracking-wide">
-                    {isHanjaToHunEum ? option.hunEum : option.char}
+                  <span className={info.optionsAreHanja ? 'text-3xl font-serif font-black' : 'text-xl font-bold tracking-wide'}>
+                    {option.label}
                   </span>
+                  {/* Spelled out so the result does not depend on green and red */}
+                  {resultsShown && isCorrect && (
+                    <span className="flex items-center gap-1 text-sm font-black text-green-300"><CheckCircle2 size={16} /> {t('outcome.CORRECT')}</span>
+                  )}
+                  {resultsShown && isSelected && !isCorrect && (
+                    <span className="flex items-center gap-1 text-sm font-black text-red-300"><XCircle size={16} /> {t('outcome.WRONG')}</span>
+                  )}
                 </div>
                 
                 {/* Answer Avatars (shown at end) */}
@@ -152,7 +253,7 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
                             className="w-8 h-8 rounded-full border-2 border-slate-800 flex items-center justify-center text-xs text-white font-bold shadow-md relative z-10"
                             style={{ backgroundColor: p.color }}
                             title={p.name}>
-                         {p.name.includes("나") ? "Me" : p.name.replace(/[^0-9]/g, '')}
+                         {p.id === myPlayerId ? t('quiz.me') : `P${players.indexOf(p) + 1}`}
                        </div>
                     ))}
                   </div>
@@ -161,6 +262,68 @@ const QuizBattle: React.FC<QuizBattleProps> = ({
             );
           })}
         </div>
+        )}
+
+        {/* Hot-seat answer pads: one row of keys (or a text field) per human */}
+        {isHotSeat && (
+          <div className="p-4 pt-0 bg-slate-900/50 space-y-2">
+            <div className="flex items-center gap-2 text-[10px] uppercase font-bold text-slate-500 tracking-wider px-2">
+              <Keyboard size={12} /> {t('quiz.ownKeys')}
+            </div>
+            {humanPlayerIds.map((playerId, seat) => {
+              const player = players.find(p => p.id === playerId);
+              const submitted = !!answers[playerId];
+              return (
+                <div key={playerId} className="flex items-center gap-3 bg-slate-800 rounded-xl p-2 border border-slate-700">
+                  <span className="flex items-center gap-2 w-28 text-sm font-bold text-white truncate">
+                    <div className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: player?.color }} />
+                    {player?.name}
+                  </span>
+                  {isTyped ? (
+                    <form className="flex flex-1 gap-2" onSubmit={(e) => { e.preventDefault(); submitTyped(playerId); }}>
+                      {/* Shared screen: dots until the results (a password field would block the Korean IME) */}
+                      <div className="relative flex-1 min-w-0">
+                        <input
+                          value={typed[playerId] || ''}
+                          onChange={(e) => setTyped({ ...typed, [playerId]: e.target.value })}
+                          disabled={!canAnswer(playerId)}
+                          autoComplete="off"
+                          spellCheck={false}
+                          className={`w-full bg-slate-700 rounded-lg px-3 py-2 font-bold focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:opacity-30 ${resultsShown ? 'text-white' : 'text-transparent caret-white'}`}
+                        />
+                        {!resultsShown && (
+                          <span aria-hidden="true" className="absolute inset-0 px-3 py-2 font-bold text-white pointer-events-none overflow-hidden whitespace-nowrap">
+                            {'•'.repeat((typed[playerId] || '').length)}
+                          </span>
+                        )}
+                      </div>
+                      <button type="submit" disabled={!canAnswer(playerId)} className="px-3 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-30 text-white">
+                        <Send size={14} />
+                      </button>
+                    </form>
+                  ) : (
+                  <div className="flex flex-1 gap-2">
+                    {options.map((option, idx) => (
+                      <button
+                        key={option.id}
+                        onClick={() => canAnswer(playerId) && onAnswer(playerId, option.id)}
+                        disabled={!canAnswer(playerId)}
+                        aria-label={t('quiz.seatOption', { name: player?.name ?? '', n: idx + 1, label: option.label })}
+                        className="flex-1 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-30 text-white font-black font-mono"
+                      >
+                        {ANSWER_KEYS[seat]?.[idx] ?? idx + 1}
+                      </button>
+                    ))}
+                  </div>
+                  )}
+                  <span className={`text-xs font-bold w-16 text-right ${submitted ? 'text-green-400' : 'text-slate-500'}`}>
+                    {t(submitted ? 'quiz.submitted' : 'quiz.thinking')}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
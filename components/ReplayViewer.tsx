@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { GameState } from '../types';
+import { buildReplay, findTurnStart } from '../engine/replay';
+import { describeEvent } from '../engine/events';
+import { t } from '../services/i18n';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Film, X } from 'lucide-react';
+
+interface ReplayViewerProps {
+  state: GameState; // The finished match
+  onClose: () => void;
+}
+
+// Match clock as m:ss since the first event
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Steps through a finished match one event or one turn at a time, with every board face up.
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ state, onClose }) => {
+  const steps = useMemo(() => buildReplay(state), [state.events]);
+  const [index, setIndex] = useState(0);
+
+  if (steps.length === 0) return null;
+  const { event, frame, turn } = steps[index];
+  const startedAt = steps[0].event.at;
+  const lastTurn = steps[steps.length - 1].turn;
+  const quiz = frame.quiz;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/95 backdrop-blur-md overflow-y-auto p-4">
+      <div className="max-w-5xl mx-auto space-y-4">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <Film className="text-indigo-400" size={22} /> {t('replay.title')}
+          </h2>
+          <span className="text-sm font-bold text-slate-400">
+            {t('replay.seed')} <span className="font-mono text-white">{state.seed}</span>
+          </span>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title={t('common.close')}>
+            <X size={22} />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="bg-slate-800 p-4 rounded-2xl border border-slate-700 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => setIndex(findTurnStart(steps, index, index === findTurnStart(steps, index, 0) ? -1 : 0))}
+              disabled={index === 0}
+              className="p-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white disabled:opacity-30"
+              title={t('replay.prevTurn')}
+            >
+              <ChevronsLeft size={20} />
+            </button>
+            <button
+              onClick={() => setIndex(i => Math.max(0, i - 1))}
+              disabled={index === 0}
+              className="p-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white disabled:opacity-30"
+              title={t('replay.prev')}
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <div className="flex-1 text-center">
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                {turn === 0 ? t('replay.draft') : t('replay.turnOf', { turn, last: lastTurn })} · {index + 1} / {steps.length}
+              </div>
+              <div className="text-white font-bold">{describeEvent(event, state)}</div>
+              <div className="text-xs font-mono text-slate-500">{formatElapsed(event.at - startedAt)}</div>
+            </div>
+            <button
+              onClick={() => setIndex(i => Math.min(steps.length - 1, i + 1))}
+              disabled={index === steps.length - 1}
+              className="p-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white disabled:opacity-30"
+              title={t('replay.next')}
+            >
+              <ChevronRight size={20} />
+            </button>
+            <button
+              onClick={() => setIndex(turn === lastTurn ? steps.length - 1 : findTurnStart(steps, index, 1))}
+              disabled={index === steps.length - 1}
+              className="p-2 rounded-xl bg-slate-900 text-slate-300 hover:text-white disabled:opacity-30"
+              title={t('replay.nextTurn')}
+            >
+              <ChevronsRight size={20} />
+            </button>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={steps.length - 1}
+            value={index}
+            onChange={(e) => setIndex(Number(e.target.value))}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+
+        {/* Quiz of this turn */}
+        {quiz && (
+          <div className="bg-slate-800 p-4 rounded-2xl border border-slate-700">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+              {t(`quizType.${quiz.quizType}`)} · {t(`quizQuestion.${quiz.quizType}`)}
+            </div>
+            {quiz.hanja && (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-3xl font-serif font-black text-white">{quiz.hanja.char}</span>
+                <span className="px-3 py-1 rounded-lg text-sm font-bold bg-green-600 text-white">{quiz.hanja.hunEum}</span>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2 mt-3">
+              {frame.players.map(p => {
+                const outcome = quiz.results[p.id];
+                return (
+                  <span key={p.id} className="text-xs font-bold px-2 py-1 rounded-lg bg-slate-900" style={{ color: p.color }}>
+                    {p.name}: {outcome ? t(`outcome.${outcome}`) : '…'}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Every board, face up */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {frame.players.map(p => {
+            const isActive = p.id === frame.activePlayerId;
+            const cells = p.board.map(c => ({
+              key: c.id,
+              char: frame.drafting ? '' : c.hanja.char,
+              flipped: c.isFlipped,
+              peeked: isActive && frame.peekedCellIds.includes(c.id),
+              target: p.id === quiz?.ownerId && quiz.hanja?.id === c.hanja.id
+            }));
+            return (
+              <div
+                key={p.id}
+                className={`bg-slate-800 p-3 rounded-2xl border-2 ${isActive ? 'border-indigo-500' : 'border-slate-700'}`}
+              >
+                <div className="flex justify-between text-sm font-bold mb-2">
+                  <span style={{ color: p.color }}>{p.name}</span>
+                  <span className="text-slate-400">{t('replay.lines', { n: p.lines })} · {t('game.points', { n: p.points })}{p.hasShield ? ` · ${t('replay.shield')}` : ''}</span>
+                </div>
+                <div
+                  className="grid gap-1"
+                  style={{ gridTemplateColumns: `repeat(${state.settings.boardSize}, minmax(0, 1fr))` }}
+                >
+                  {cells.map(cell => (
+                    <div
+                      key={cell.key}
+                      className={`aspect-square rounded-md flex items-center justify-center font-serif font-black text-lg
+                        ${cell.flipped ? 'text-white' : 'bg-slate-900 text-slate-400'}
+                        ${cell.peeked ? 'ring-2 ring-yellow-400' : ''}
+                        ${cell.target ? 'ring-2 ring-white' : ''}`}
+                      style={cell.flipped ? { backgroundColor: p.color } : undefined}
+                    >
+                      {cell.char}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
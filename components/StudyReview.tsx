@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import {
+  clearStudyProfile,
+  getLearners,
+  getMastery,
+  getReviewQueue,
+  getStudyProfile,
+  learnerKey,
+  summarizeMastery
+} from '../services/studyProfile';
+import { formatGrade, t } from '../services/i18n';
+import { ArrowLeft, BookOpen, Trash2 } from 'lucide-react';
+
+interface StudyReviewProps {
+  initialLearner: string;
+  onClose: () => void;
+}
+
+// Mastery by grade and the characters due for review, for one learner at a time.
+const StudyReview: React.FC<StudyReviewProps> = ({ initialLearner, onClose }) => {
+  const learners = Array.from(new Set([learnerKey(initialLearner), ...getLearners()]));
+  const [learner, setLearner] = useState(learners[0]);
+  const [, setVersion] = useState(0);
+
+  const profile = getStudyProfile(learner);
+  const grades = summarizeMastery(profile).filter(g => g.total > 0);
+  const queue = getReviewQueue(profile).slice(0, 24);
+  const totalSeen = Object.keys(profile).length;
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-300 hover:text-white font-bold">
+            <ArrowLeft size={20} /> {t('common.back')}
+          </button>
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <BookOpen className="text-indigo-400" size={22} /> {t('study.title')}
+          </h2>
+          <button
+            onClick={() => {
+              if (!confirm(t('study.clearConfirm', { name: learner }))) return;
+              clearStudyProfile(learner);
+              setVersion(v => v + 1);
+            }}
+            disabled={totalSeen === 0}
+            className="text-slate-500 hover:text-red-400 disabled:opacity-30"
+            title={t('study.clear')}
+          >
+            <Trash2 size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {learners.map(name => (
+            <button
+              key={name}
+              onClick={() => setLearner(name)}
+              className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${learner === name ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+
+        {/* Mastery by grade */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+          <div className="flex justify-between text-xs font-bold text-slate-400 uppercase tracking-wider">
+            <span>{t('study.mastery')}</span>
+            <span>{t('study.seenCount', { n: totalSeen })}</span>
+          </div>
+          {grades.map(g => (
+            <div key={g.grade}>
+              <div className="flex justify-between text-sm font-bold mb-1">
+                <span className="text-white">{formatGrade(g.grade)}</span>
+                <span className="text-slate-400">
+                  {t('study.gradeSummary', { mastered: g.mastered, weak: g.weak, due: g.due, total: g.total })}
+                </span>
+              </div>
+              <div className="flex h-3 rounded-full overflow-hidden bg-slate-900">
+                <div className="bg-green-500" style={{ width: `${(g.mastered / g.total) * 100}%` }} />
+                <div className="bg-indigo-500" style={{ width: `${((g.seen - g.mastered - g.weak) / g.total) * 100}%` }} />
+                <div className="bg-red-500" style={{ width: `${(g.weak / g.total) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-4 text-[11px] font-bold text-slate-400">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500" /> {t('mastery.MASTERED')}</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-indigo-500" /> {t('mastery.LEARNING')}</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" /> {t('mastery.WEAK')}</span>
+          </div>
+        </div>
+
+        {/* Review queue */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5">
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">{t('study.queue')}</div>
+          {queue.length === 0 ? (
+            <p className="text-slate-500 text-sm">{t('study.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {queue.map(record => (
+                <div key={record.char} className="bg-slate-900 rounded-xl p-3 border border-slate-700 text-center">
+                  <div className="text-3xl font-serif font-black text-white">{record.char}</div>
+                  <div className="text-xs text-yellow-300 font-bold mt-1">{record.hunEum}</div>
+                  <div className="text-[10px] text-slate-500 mt-1">
+                    {t(`mastery.${getMastery(record)}`)} · {record.correct}/{record.seen}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyReview;
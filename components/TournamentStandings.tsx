@@ -0,0 +1,144 @@
+import React from 'react';
+import { Tournament } from '../types';
+import { getEntrantName, getGamesPlanned, getNextPairing, getStandings } from '../engine/tournament';
+import { t } from '../services/i18n';
+import { ArrowLeft, Flag, Medal, Play, Trophy } from 'lucide-react';
+
+interface TournamentStandingsProps {
+  tournament: Tournament;
+  onNext: () => void;
+  onEnd: () => void;
+  onClose: () => void;
+}
+
+const PODIUM_STYLES = [
+  'h-32 bg-yellow-500/20 border-yellow-500 text-yellow-300',
+  'h-24 bg-slate-400/20 border-slate-400 text-slate-200',
+  'h-16 bg-orange-700/20 border-orange-700 text-orange-300'
+];
+const PODIUM_ORDER = [1, 0, 2]; // Second, first, third from left to right
+
+// The table shown between tournament games, and the podium once it is decided
+const TournamentStandings: React.FC<TournamentStandingsProps> = ({ tournament, onNext, onEnd, onClose }) => {
+  const standings = getStandings(tournament);
+  const next = getNextPairing(tournament);
+  const names = (ids: string[]) => ids.map(id => getEntrantName(tournament, id)).join(', ');
+  const title = tournament.format === 'BEST_OF'
+    ? t('tournament.bestOf', { n: tournament.bestOf })
+    : t('tournament.ROUND_ROBIN');
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-300 hover:text-white font-bold">
+            <ArrowLeft size={20} /> {t('common.back')}
+          </button>
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <Trophy className="text-yellow-400" size={22} /> {title}
+          </h2>
+          <span className="text-sm font-bold text-slate-400">
+            {t('tournament.progress', { n: tournament.games.length, total: getGamesPlanned(tournament) })}
+          </span>
+        </div>
+
+        {/* Podium */}
+        {!next && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-6">
+            <h3 className="text-center text-2xl font-black text-white mb-6">
+              {t('tournament.champion', { name: standings[0].name })}
+            </h3>
+            <div className="flex items-end justify-center gap-3">
+              {PODIUM_ORDER.filter(rank => standings[rank]).map(rank => (
+                <div key={rank} className="flex-1 max-w-[160px] text-center">
+                  <div className="font-bold text-white truncate mb-2">{standings[rank].name}</div>
+                  <div className={`rounded-t-xl border-2 border-b-0 flex flex-col items-center justify-center ${PODIUM_STYLES[rank]}`}>
+                    <Medal size={24} />
+                    <span className="font-black text-lg">{t('tournament.rank', { n: rank + 1 })}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Standings */}
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 p-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 uppercase tracking-wider text-left">
+                <th className="py-2">#</th>
+                <th>{t('report.player')}</th>
+                <th>{t('tournament.played')}</th>
+                <th>{t('tournament.record')}</th>
+                <th>{t('tournament.standingPoints')}</th>
+                <th>{t('report.points')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((s, i) => (
+                <tr key={s.entrantId} className="border-t border-slate-700">
+                  <td className="py-2 font-black text-slate-400">{i + 1}</td>
+                  <td className="font-bold text-white">{s.name}</td>
+                  <td className="text-slate-300">{s.played}</td>
+                  <td className="text-slate-300">{s.wins} / {s.shared} / {s.draws} / {s.losses}</td>
+                  <td className="text-white font-black">{s.standingPoints}</td>
+                  <td className="text-slate-300">{s.quizPoints}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Games so far */}
+        {tournament.games.length > 0 && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-4 space-y-2">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('tournament.games')}</div>
+            {tournament.games.map((game, i) => (
+              <div key={game.seed} className="flex justify-between gap-3 text-sm">
+                <span className="text-slate-300">
+                  {t('tournament.gameNumber', { n: i + 1 })} · {names(game.entrantIds)}
+                  <span className="font-mono text-slate-500 ml-2">{game.seed}</span>
+                </span>
+                <span className="font-bold text-white text-right">
+                  {game.winnerIds.length === 0
+                    ? t('gameOver.draw')
+                    : game.winnerIds.length > 1
+                      ? t('gameOver.shared', { names: names(game.winnerIds) })
+                      : t('gameOver.winner', { name: names(game.winnerIds) })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {next ? (
+          <div className="flex gap-2">
+            <button
+              onClick={onNext}
+              className="flex-1 bg-gradient-to-r from-yellow-500 to-orange-600 hover:from-yellow-400 hover:to-orange-500 text-white font-black py-4 rounded-2xl flex items-center justify-center gap-2"
+            >
+              <Play size={20} fill="currentColor" />
+              {t('tournament.next', { n: tournament.games.length + 1, names: names(next) })}
+            </button>
+            <button
+              onClick={() => confirm(t('tournament.abandonConfirm')) && onEnd()}
+              className="px-5 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold rounded-2xl border border-slate-700 flex items-center gap-2"
+            >
+              <Flag size={18} /> {t('tournament.abandon')}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={onEnd}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-black py-4 rounded-2xl"
+          >
+            {t('tournament.finish')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TournamentStandings;
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Grade } from '../types';
+import {
+  WordList,
+  createWordList,
+  parseWordListFile,
+  validateWordEntry,
+  wordListToCsv,
+  wordListToJson
+} from '../services/wordLists';
+import { GRADES } from '../services/hanjaSource';
+import { MessageKey, formatGrade, t } from '../services/i18n';
+import { ArrowLeft, Download, FileUp, ListChecks, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface WordListEditorProps {
+  lists: WordList[];
+  onChange: (lists: WordList[]) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  char: string;
+  hun: string;
+  eum: string;
+  gloss: string;
+  grade: Grade | '';
+}
+
+const EMPTY_DRAFT: Draft = { char: '', hun: '', eum: '', gloss: '', grade: '' };
+
+const inputClass = 'w-full bg-slate-900 border-2 border-slate-700 text-white font-bold rounded-xl px-3 py-2 focus:border-indigo-500 outline-none transition-all';
+
+const download = (fileName: string, text: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Teacher word lists: create, import, edit entry by entry, export. Every entry goes through
+// the same validation as generated characters.
+const WordListEditor: React.FC<WordListEditorProps> = ({ lists, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(lists[0]?.id ?? null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [entryError, setEntryError] = useState<MessageKey | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const list = lists.find(l => l.id === selectedId) ?? null;
+
+  const updateList = (next: WordList) =>
+    onChange(lists.map(l => (l.id === next.id ? { ...next, updatedAt: Date.now() } : l)));
+
+  const selectList = (id: string | null) => {
+    setSelectedId(id);
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setEntryError(null);
+  };
+
+  const addList = () => {
+    const created = createWordList(t('wordList.new'));
+    onChange([...lists, created]);
+    selectList(created.id);
+    setNotice(null);
+  };
+
+  const importList = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    const { hanja, issues } = parseWordListFile(picked.name, await picked.text());
+    const skipped = issues.filter(i => i.action === 'rejected').length;
+    const repaired = issues.filter(i => i.action === 'repaired').length;
+    const messages = [t('wordList.imported', { name: picked.name, n: hanja.length })];
+    if (repaired) messages.push(t('common.repaired', { n: repaired }));
+    if (skipped) messages.push(t('common.skipped', { n: skipped }));
+    setNotice(messages.join(' '));
+    if (!hanja.length) return;
+
+    const imported = createWordList(picked.name.replace(/\.(csv|json)$/i, ''), hanja);
+    onChange([...lists, imported]);
+    selectList(imported.id);
+  };
+
+  const deleteList = () => {
+    if (!list || !confirm(t('wordList.deleteConfirm', { name: list.name }))) return;
+    const rest = lists.filter(l => l.id !== list.id);
+    onChange(rest);
+    selectList(rest[0]?.id ?? null);
+  };
+
+  const submitEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!list) return;
+    const others = list.hanja.filter(h => h.id !== editingId);
+    const { entry, issues } = validateWordEntry({ ...draft }, others);
+    if (!entry) {
+      setEntryError(issues.find(i => i.action === 'rejected')?.reason ?? 'validation.notHan');
+      return;
+    }
+
+    const hanja = editingId
+      ? list.hanja.map(h => (h.id === editingId ? entry : h))
+      : [...list.hanja, entry];
+    updateList({ ...list, hanja });
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setEntryError(null);
+    setNotice(issues.length ? issues.map(i => `${i.char}: ${t(i.reason)}`).join(' · ') : null);
+  };
+
+  const startEdit = (id: string) => {
+    const entry = list?.hanja.find(h => h.id === id);
+    if (!entry) return;
+    setDraft({ char: entry.char, hun: entry.hun, eum: entry.eum, gloss: entry.gloss ?? '', grade: entry.grade ?? '' });
+    setEditingId(id);
+    setEntryError(null);
+  };
+
+  const removeEntry = (id: string) => {
+    if (!list) return;
+    updateList({ ...list, hanja: list.hanja.filter(h => h.id !== id) });
+    if (editingId === id) {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center p-4 pb-20">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="flex items-center justify-between bg-slate-800 p-4 rounded-2xl border border-slate-700">
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-300 hover:text-white font-bold">
+            <ArrowLeft size={20} /> {t('common.back')}
+          </button>
+          <h2 className="text-xl font-black text-white flex items-center gap-2">
+            <ListChecks className="text-indigo-400" size={22} /> {t('wordList.title')}
+          </h2>
+          <button onClick={addList} className="text-slate-400 hover:text-white" title={t('wordList.new')}>
+            <Plus size={22} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {lists.map(l => (
+            <button
+              key={l.id}
+              onClick={() => selectList(l.id)}
+              aria-pressed={l.id === selectedId}
+              className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${l.id === selectedId ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              {l.name} <span className="opacity-60">· {t('wordList.count', { n: l.hanja.length })}</span>
+            </button>
+          ))}
+          <label className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-800 text-slate-400 hover:text-white cursor-pointer flex items-center gap-1.5 focus-within:ring-4 focus-within:ring-indigo-500/40">
+            <FileUp size={16} /> {t('wordList.import')}
+            <input type="file" accept=".json,.csv,application/json,text/csv" onChange={importList} className="sr-only" />
+          </label>
+        </div>
+
+        {notice && (
+          <div role="status" className="bg-indigo-500/10 border border-indigo-500/40 text-indigo-200 text-sm font-bold rounded-2xl px-5 py-3">
+            {notice}
+          </div>
+        )}
+
+        {!list ? (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-2">
+            <p className="text-slate-400 font-bold">{t('wordList.none')}</p>
+            <p className="text-xs text-slate-500 break-words">{t('wordList.formatHint')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4">
+              <label className="block space-y-1.5">
+                <span className="text-xs uppercase font-bold text-slate-400 tracking-wider">{t('wordList.name')}</span>
+                <input
+                  value={list.name}
+                  onChange={e => updateList({ ...list, name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => download(`${list.name || 'hanbingo'}.json`, wordListToJson(list), 'application/json')}
+                  disabled={!list.hanja.length}
+                  className="flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-sm font-bold px-4 py-2 rounded-xl transition"
+                >
+                  <Download size={16} /> {t('wordList.exportJson')}
+                </button>
+                <button
+                  onClick={() => download(`${list.name || 'hanbingo'}.csv`, wordListToCsv(list), 'text/csv;charset=utf-8')}
+                  disabled={!list.hanja.length}
+                  className="flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-sm font-bold px-4 py-2 rounded-xl transition"
+                >
+                  <Download size={16} /> {t('wordList.exportCsv')}
+                </button>
+                <button
+                  onClick={deleteList}
+                  className="ml-auto flex items-center gap-1.5 text-slate-500 hover:text-red-400 text-sm font-bold px-2 py-2"
+                >
+                  <Trash2 size={16} /> {t('wordList.delete')}
+                </button>
+              </div>
+            </div>
+
+            {/* Add or edit one entry */}
+            <form onSubmit={submitEntry} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {(['char', 'hun', 'eum', 'gloss'] as const).map(field => (
+                  <label key={field} className="block space-y-1">
+                    <span className="text-[11px] uppercase font-bold text-slate-400 tracking-wider">{t(`wordList.${field}`)}</span>
+                    <input
+                      value={draft[field]}
+                      onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+                      lang={field === 'gloss' ? 'en' : 'ko'}
+                      className={`${inputClass} ${field === 'char' ? 'font-serif text-xl text-center' : ''}`}
+                    />
+                  </label>
+                ))}
+                <label className="block space-y-1">
+                  <span className="text-[11px] uppercase font-bold text-slate-400 tracking-wider">{t('wordList.grade')}</span>
+                  <select
+                    value={draft.grade}
+                    onChange={e => setDraft({ ...draft, grade: e.target.value as Grade | '' })}
+                    className={inputClass}
+                  >
+                    <option value="">-</option>
+                    {GRADES.map(g => <option key={g} value={g}>{formatGrade(g)}</option>)}
+                  </select>
+                </label>
+              </div>
+              {entryError && <p role="alert" className="text-sm font-bold text-red-400">{t(entryError)}</p>}
+              <div className="flex gap-2">
+                <button type="submit" className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-2.5 rounded-xl transition flex items-center justify-center gap-1.5">
+                  {editingId ? <Pencil size={16} /> : <Plus size={16} />} {t(editingId ? 'wordList.save' : 'wordList.add')}
+                </button>
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={() => { setDraft(EMPTY_DRAFT); setEditingId(null); setEntryError(null); }}
+                    className="px-4 bg-slate-700 hover:bg-slate-600 text-slate-300 font-bold rounded-xl transition"
+                  >
+                    {t('wordList.cancel')}
+                  </button>
+                )}
+              </div>
+            </form>
+
+            {list.hanja.length > 0 && (
+              <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-400 uppercase tracking-wider">
+                    <tr>
+                      <th className="py-2">{t('wordList.char')}</th>
+                      <th>{t('wordList.hun')} · {t('wordList.eum')}</th>
+                      <th>{t('wordList.gloss')}</th>
+                      <th>{t('wordList.grade')}</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {list.hanja.map(h => (
+                      <tr key={h.id} className={`border-t border-slate-700 ${h.id === editingId ? 'bg-indigo-500/10' : ''}`}>
+                        <td className="py-2 text-2xl font-serif font-black text-white">{h.char}</td>
+                        <td className="text-slate-200 font-bold">{h.hunEum}</td>
+                        <td className="text-slate-400">{h.gloss ?? ''}</td>
+                        <td className="text-slate-400">{h.grade ? formatGrade(h.grade) : '-'}</td>
+                        <td className="text-right whitespace-nowrap">
+                          <button onClick={() => startEdit(h.id)} className="p-1.5 text-slate-500 hover:text-white" aria-label={t('wordList.edit', { char: h.char })}>
+                            <Pencil size={16} />
+                          </button>
+                          <button onClick={() => removeEntry(h.id)} className="p-1.5 text-slate-500 hover:text-red-400" aria-label={t('wordList.remove', { char: h.char })}>
+                            <X size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WordListEditor;
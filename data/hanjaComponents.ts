@@ -0,0 +1,319 @@
+// 부수 (Kangxi radical) and total stroke count, one "char radical strokes" entry per line.
+// Covers 8급-6급; radical and stroke questions fall back to other types for characters
+// not listed here. 艸 and 辵 are counted in their 4-stroke forms (艹, 辶), as in Korean dictionaries.
+export interface HanjaComponents {
+  radical: string;
+  strokes: number;
+}
+
+const RAW_COMPONENTS = `
+敎 攴 11
+校 木 10
+九 乙 2
+國 囗 11
+軍 車 9
+金 金 8
+南 十 9
+女 女 3
+年 干 6
+大 大 3
+東 木 8
+六 八 4
+萬 艸 13
+母 毋 5
+木 木 4
+門 門 8
+民 氏 5
+白 白 5
+父 父 4
+北 匕 5
+四 囗 5
+山 山 3
+三 一 3
+生 生 5
+西 襾 6
+先 儿 6
+小 小 3
+水 水 4
+室 宀 9
+十 十 2
+五 二 4
+王 玉 4
+外 夕 5
+月 月 4
+二 二 2
+人 人 2
+一 一 1
+日 日 4
+長 長 8
+弟 弓 7
+中 丨 4
+靑 靑 8
+寸 寸 3
+七 一 2
+土 土 3
+八 八 2
+學 子 16
+韓 韋 17
+兄 儿 5
+火 火 4
+家 宀 10
+歌 欠 14
+間 門 12
+江 水 6
+車 車 7
+工 工 3
+空 穴 8
+口 口 3
+旗 方 14
+記 言 10
+氣 气 10
+男 田 7
+內 入 4
+農 辰 13
+答 竹 12
+道 辵 13
+冬 冫 5
+同 口 6
+洞 水 9
+動 力 11
+登 癶 12
+來 人 8
+力 力 2
+老 老 6
+里 里 7
+林 木 8
+立 立 5
+每 毋 7
+面 面 9
+名 口 6
+命 口 8
+文 文 4
+問 口 11
+物 牛 8
+方 方 4
+百 白 6
+夫 大 4
+不 一 4
+事 亅 8
+算 竹 14
+上 一 3
+色 色 6
+夕 夕 3
+姓 女 8
+世 一 5
+少 小 4
+所 戶 8
+手 手 4
+數 攴 15
+市 巾 5
+時 日 10
+植 木 12
+食 食 9
+心 心 4
+安 宀 6
+語 言 14
+然 火 12
+午 十 4
+右 口 5
+有 月 6
+育 肉 8
+邑 邑 7
+入 入 2
+子 子 3
+字 子 6
+自 自 6
+場 土 12
+全 入 6
+前 刀 9
+電 雨 13
+正 止 5
+祖 示 10
+足 足 7
+左 工 5
+主 丶 5
+住 人 7
+重 里 9
+地 土 6
+紙 糸 10
+直 目 8
+川 巛 3
+千 十 3
+天 大 4
+草 艸 10
+村 木 7
+秋 禾 9
+春 日 9
+出 凵 5
+便 人 9
+平 干 5
+下 一 3
+夏 夊 10
+漢 水 14
+海 水 10
+花 艸 8
+話 言 13
+活 水 9
+孝 子 7
+後 彳 9
+休 人 6
+各 口 6
+角 角 7
+感 心 13
+強 弓 11
+開 門 12
+京 亠 8
+計 言 9
+界 田 9
+高 高 10
+苦 艸 9
+古 口 5
+功 力 5
+公 八 4
+共 八 6
+科 禾 9
+果 木 8
+光 儿 6
+交 亠 6
+球 玉 11
+區 匸 11
+郡 邑 10
+近 辵 8
+根 木 10
+今 人 4
+急 心 9
+級 糸 10
+多 夕 6
+短 矢 12
+堂 土 11
+代 人 5
+對 寸 14
+待 彳 9
+圖 囗 14
+度 广 9
+讀 言 22
+童 立 12
+頭 頁 16
+等 竹 12
+樂 木 15
+例 人 8
+禮 示 18
+路 足 13
+綠 糸 14
+理 玉 11
+李 木 7
+利 刀 7
+明 日 8
+目 目 5
+聞 耳 14
+米 米 6
+美 羊 9
+朴 木 6
+班 玉 10
+反 又 4
+半 十 5
+發 癶 12
+放 攴 8
+番 田 12
+別 刀 7
+病 疒 10
+服 月 8
+本 木 5
+部 邑 11
+分 刀 4
+社 示 8
+使 人 8
+死 歹 6
+書 曰 10
+石 石 5
+席 巾 10
+線 糸 15
+雪 雨 11
+成 戈 7
+省 目 9
+消 水 10
+速 辵 11
+孫 子 10
+樹 木 16
+術 行 11
+習 羽 11
+勝 力 12
+始 女 8
+式 弋 6
+神 示 10
+身 身 7
+信 人 9
+新 斤 13
+失 大 5
+愛 心 13
+野 里 11
+夜 夕 8
+藥 艸 19
+弱 弓 10
+陽 阜 12
+洋 水 9
+言 言 7
+業 木 13
+英 艸 9
+永 水 5
+溫 水 13
+用 用 5
+勇 力 9
+運 辵 13
+園 囗 13
+遠 辵 14
+由 田 5
+油 水 8
+銀 金 14
+飮 食 13
+音 音 9
+意 心 13
+衣 衣 6
+醫 酉 18
+者 老 9
+作 人 7
+昨 日 9
+章 立 11
+在 土 6
+才 手 3
+戰 戈 16
+庭 广 10
+定 宀 8
+題 頁 18
+第 竹 11
+朝 月 12
+族 方 11
+晝 日 11
+注 水 8
+集 隹 12
+窓 穴 11
+淸 水 11
+體 骨 23
+親 見 16
+太 大 4
+通 辵 11
+特 牛 10
+表 衣 8
+風 風 9
+合 口 6
+幸 干 8
+行 行 6
+向 口 6
+現 玉 11
+形 彡 7
+號 虍 13
+和 口 8
+畫 田 12
+黃 黃 12
+會 曰 13
+訓 言 10
+`;
+
+export const HANJA_COMPONENTS: Record<string, HanjaComponents> = Object.fromEntries(
+  RAW_COMPONENTS.trim().split('\n').map(line => {
+    const [char, radical, strokes] = line.trim().split(/\s+/);
+    return [char, { radical, strokes: Number(strokes) }];
+  })
+);
+
+export const RADICALS: string[] = Array.from(new Set(Object.values(HANJA_COMPONENTS).map(c => c.radical)));
@@ -0,0 +1,812 @@
+import { Grade, HanjaData } from '../types';
+import { HANJA_GLOSSES } from './hanjaGlosses';
+
+// 한국어문회 배정한자, one "char hun eum" entry per line, grouped by the grade that introduces it.
+// 8급-5급 are the complete official lists. 4급-1급 carry only a curated subset of the characters
+// each grade introduces (see HANJA_DATASET_COVERAGE), so games dealt from this dataset alone
+// don't offer them (services/hanjaSource.ts BUNDLED_GRADES).
+export const HANJA_DATASET_VERSION = '2025.1';
+
+export const HANJA_DATASET_COVERAGE: Record<Grade, 'complete' | 'partial'> = {
+  '8급': 'complete',
+  '7급': 'complete',
+  '6급': 'complete',
+  '5급': 'complete',
+  '4급': 'partial',
+  '3급': 'partial',
+  '2급': 'partial',
+  '1급': 'partial'
+};
+
+const RAW_DATASET: Record<Grade, string> = {
+  '8급': `
+敎 가르칠 교
+校 학교 교
+九 아홉 구
+國 나라 국
+軍 군사 군
+金 쇠 금
+南 남녘 남
+女 계집 녀
+年 해 년
+大 큰 대
+東 동녘 동
+六 여섯 륙
+萬 일만 만
+母 어미 모
+木 나무 목
+門 문 문
+民 백성 민
+白 흰 백
+父 아비 부
+北 북녘 북
+四 넉 사
+山 메 산
+三 석 삼
+生 날 생
+西 서녘 서
+先 먼저 선
+小 작을 소
+水 물 수
+室 집 실
+十 열 십
+五 다섯 오
+王 임금 왕
+外 바깥 외
+月 달 월
+二 두 이
+人 사람 인
+一 한 일
+日 날 일
+長 긴 장
+弟 아우 제
+中 가운데 중
+靑 푸를 청
+寸 마디 촌
+七 일곱 칠
+土 흙 토
+八 여덟 팔
+學 배울 학
+韓 한국 한
+兄 형 형
+火 불 화
+`,
+  '7급': `
+家 집 가
+歌 노래 가
+間 사이 간
+江 강 강
+車 수레 거
+工 장인 공
+空 빌 공
+口 입 구
+旗 기 기
+記 기록할 기
+氣 기운 기
+男 사내 남
+內 안 내
+農 농사 농
+答 대답 답
+道 길 도
+冬 겨울 동
+同 한가지 동
+洞 골 동
+動 움직일 동
+登 오를 등
+來 올 래
+力 힘 력
+老 늙을 로
+里 마을 리
+林 수풀 림
+立 설 립
+每 매양 매
+面 낯 면
+名 이름 명
+命 목숨 명
+文 글월 문
+問 물을 문
+物 물건 물
+方 모 방
+百 일백 백
+夫 지아비 부
+不 아닐 불
+事 일 사
+算 셈 산
+上 윗 상
+色 빛 색
+夕 저녁 석
+姓 성 성
+世 인간 세
+少 적을 소
+所 바 소
+手 손 수
+數 셈 수
+市 저자 시
+時 때 시
+植 심을 식
+食 밥 식
+心 마음 심
+安 편안 안
+語 말씀 어
+然 그럴 연
+午 낮 오
+右 오른 우
+有 있을 유
+育 기를 육
+邑 고을 읍
+入 들 입
+子 아들 자
+字 글자 자
+自 스스로 자
+場 마당 장
+全 온전 전
+前 앞 전
+電 번개 전
+正 바를 정
+祖 할아비 조
+足 발 족
+左 왼 좌
+主 주인 주
+住 살 주
+重 무거울 중
+地 따 지
+紙 종이 지
+直 곧을 직
+川 내 천
+千 일천 천
+天 하늘 천
+草 풀 초
+村 마을 촌
+秋 가을 추
+春 봄 춘
+出 날 출
+便 편할 편
+平 평평할 평
+下 아래 하
+夏 여름 하
+漢 한수 한
+海 바다 해
+花 꽃 화
+話 말씀 화
+活 살 활
+孝 효도 효
+後 뒤 후
+休 쉴 휴
+`,
+  '6급': `
+各 각각 각
+角 뿔 각
+感 느낄 감
+強 강할 강
+開 열 개
+京 서울 경
+計 셀 계
+界 지경 계
+高 높을 고
+苦 쓸 고
+古 예 고
+功 공 공
+公 공평할 공
+共 한가지 공
+科 과목 과
+果 실과 과
+光 빛 광
+交 사귈 교
+球 공 구
+區 구분할 구
+郡 고을 군
+近 가까울 근
+根 뿌리 근
+今 이제 금
+急 급할 급
+級 등급 급
+多 많을 다
+短 짧을 단
+堂 집 당
+代 대신할 대
+對 대할 대
+待 기다릴 대
+圖 그림 도
+度 법도 도
+讀 읽을 독
+童 아이 동
+頭 머리 두
+等 무리 등
+樂 즐길 락
+例 법식 례
+禮 예도 례
+路 길 로
+綠 푸를 록
+理 다스릴 리
+李 오얏 리
+利 이할 리
+明 밝을 명
+目 눈 목
+聞 들을 문
+米 쌀 미
+美 아름다울 미
+朴 성 박
+班 나눌 반
+反 돌이킬 반
+半 반 반
+發 필 발
+放 놓을 방
+番 차례 번
+別 다를 별
+病 병 병
+服 옷 복
+本 근본 본
+部 떼 부
+分 나눌 분
+社 모일 사
+使 하여금 사
+死 죽을 사
+書 글 서
+石 돌 석
+席 자리 석
+線 줄 선
+雪 눈 설
+成 이룰 성
+省 살필 성
+消 사라질 소
+速 빠를 속
+孫 손자 손
+樹 나무 수
+術 재주 술
+習 익힐 습
+勝 이길 승
+始 비로소 시
+式 법 식
+神 귀신 신
+身 몸 신
+信 믿을 신
+新 새 신
+失 잃을 실
+愛 사랑 애
+野 들 야
+夜 밤 야
+藥 약 약
+弱 약할 약
+陽 볕 양
+洋 큰바다 양
+言 말씀 언
+業 업 업
+英 꽃부리 영
+永 길 영
+溫 따뜻할 온
+用 쓸 용
+勇 날랠 용
+運 옮길 운
+園 동산 원
+遠 멀 원
+由 말미암을 유
+油 기름 유
+銀 은 은
+飮 마실 음
+音 소리 음
+意 뜻 의
+衣 옷 의
+醫 의원 의
+者 놈 자
+作 지을 작
+昨 어제 작
+章 글 장
+在 있을 재
+才 재주 재
+戰 싸움 전
+庭 뜰 정
+定 정할 정
+題 제목 제
+第 차례 제
+朝 아침 조
+族 겨레 족
+晝 낮 주
+注 부을 주
+集 모을 집
+窓 창 창
+淸 맑을 청
+體 몸 체
+親 친할 친
+太 클 태
+通 통할 통
+特 특별할 특
+表 겉 표
+風 바람 풍
+合 합할 합
+幸 다행 행
+行 다닐 행
+向 향할 향
+現 나타날 현
+形 모양 형
+號 이름 호
+和 화할 화
+畫 그림 화
+黃 누를 황
+會 모일 회
+訓 가르칠 훈
+`,
+  '5급': `
+價 값 가
+加 더할 가
+可 옳을 가
+改 고칠 개
+客 손 객
+去 갈 거
+擧 들 거
+件 물건 건
+建 세울 건
+健 굳셀 건
+格 격식 격
+見 볼 견
+決 결단할 결
+結 맺을 결
+敬 공경 경
+景 볕 경
+輕 가벼울 경
+競 다툴 경
+告 고할 고
+考 생각할 고
+固 굳을 고
+曲 굽을 곡
+課 공부할 과
+過 지날 과
+關 관계할 관
+觀 볼 관
+廣 넓을 광
+橋 다리 교
+具 갖출 구
+救 구원할 구
+舊 예 구
+局 판 국
+貴 귀할 귀
+規 법 규
+給 줄 급
+期 기약할 기
+基 터 기
+己 몸 기
+技 재주 기
+汽 물끓는김 기
+吉 길할 길
+念 생각 념
+能 능할 능
+團 둥글 단
+壇 단 단
+談 말씀 담
+當 마땅 당
+德 큰 덕
+到 이를 도
+島 섬 도
+都 도읍 도
+獨 홀로 독
+落 떨어질 락
+朗 밝을 랑
+冷 찰 랭
+良 어질 량
+量 헤아릴 량
+旅 나그네 려
+歷 지날 력
+練 익힐 련
+令 하여금 령
+領 거느릴 령
+勞 일할 로
+料 헤아릴 료
+流 흐를 류
+類 무리 류
+陸 뭍 륙
+馬 말 마
+末 끝 말
+亡 망할 망
+望 바랄 망
+買 살 매
+賣 팔 매
+無 없을 무
+倍 곱 배
+法 법 법
+變 변할 변
+兵 병사 병
+福 복 복
+奉 받들 봉
+比 견줄 비
+費 쓸 비
+鼻 코 비
+氷 얼음 빙
+士 선비 사
+仕 섬길 사
+史 사기 사
+思 생각 사
+寫 베낄 사
+査 조사할 사
+產 낳을 산
+相 서로 상
+商 장사 상
+賞 상줄 상
+序 차례 서
+仙 신선 선
+善 착할 선
+船 배 선
+選 가릴 선
+鮮 고울 선
+說 말씀 설
+性 성품 성
+洗 씻을 세
+歲 해 세
+束 묶을 속
+首 머리 수
+宿 잘 숙
+順 순할 순
+示 보일 시
+識 알 식
+臣 신하 신
+實 열매 실
+兒 아이 아
+惡 악할 악
+案 책상 안
+約 맺을 약
+養 기를 양
+魚 고기 어
+漁 고기잡을 어
+億 억 억
+熱 더울 열
+葉 잎 엽
+屋 집 옥
+完 완전할 완
+要 요긴할 요
+曜 빛날 요
+浴 목욕할 욕
+友 벗 우
+牛 소 우
+雨 비 우
+雲 구름 운
+雄 수컷 웅
+元 으뜸 원
+原 언덕 원
+院 집 원
+願 원할 원
+位 자리 위
+偉 클 위
+以 써 이
+耳 귀 이
+因 인할 인
+任 맡길 임
+再 두 재
+材 재목 재
+財 재물 재
+災 재앙 재
+爭 다툴 쟁
+貯 쌓을 저
+赤 붉을 적
+的 과녁 적
+典 법 전
+傳 전할 전
+展 펼 전
+切 끊을 절
+節 마디 절
+店 가게 점
+情 뜻 정
+停 머무를 정
+操 잡을 조
+調 고를 조
+卒 마칠 졸
+種 씨 종
+終 마칠 종
+罪 허물 죄
+州 고을 주
+週 주일 주
+止 그칠 지
+知 알 지
+質 바탕 질
+着 붙을 착
+參 참여할 참
+唱 부를 창
+責 꾸짖을 책
+鐵 쇠 철
+初 처음 초
+最 가장 최
+祝 빌 축
+充 채울 충
+致 이를 치
+則 법칙 칙
+他 다를 타
+打 칠 타
+卓 높을 탁
+炭 숯 탄
+宅 집 택
+板 널 판
+敗 패할 패
+品 물건 품
+必 반드시 필
+筆 붓 필
+河 물 하
+寒 찰 한
+害 해할 해
+許 허락할 허
+湖 호수 호
+化 될 화
+患 근심 환
+效 본받을 효
+凶 흉할 흉
+黑 검을 흑
+`,
+  '4급': `
+假 거짓 가
+街 거리 가
+減 덜 감
+監 볼 감
+康 편안 강
+講 욀 강
+個 낱 개
+檢 검사할 검
+缺 이지러질 결
+潔 깨끗할 결
+警 깨우칠 경
+境 지경 경
+經 지날 경
+慶 경사 경
+係 맬 계
+故 연고 고
+官 벼슬 관
+究 연구할 구
+句 글귀 구
+求 구할 구
+宮 집 궁
+權 권세 권
+極 다할 극
+禁 금할 금
+起 일어날 기
+器 그릇 기
+暖 따뜻할 난
+難 어려울 난
+努 힘쓸 노
+怒 성낼 노
+單 홑 단
+斷 끊을 단
+檀 박달나무 단
+端 끝 단
+達 통달할 달
+擔 멜 담
+黨 무리 당
+帶 띠 대
+隊 무리 대
+導 인도할 도
+毒 독 독
+督 감독할 독
+銅 구리 동
+斗 말 두
+豆 콩 두
+得 얻을 득
+燈 등 등
+羅 벌릴 라
+兩 두 량
+麗 고울 려
+連 이을 련
+列 벌릴 렬
+錄 기록할 록
+論 논할 론
+留 머무를 류
+律 법칙 률
+滿 찰 만
+脈 줄기 맥
+毛 털 모
+牧 칠 목
+務 힘쓸 무
+武 호반 무
+味 맛 미
+未 아닐 미
+密 빽빽할 밀
+博 넓을 박
+防 막을 방
+房 방 방
+訪 찾을 방
+拜 절 배
+背 등 배
+配 나눌 배
+伐 칠 벌
+罰 벌할 벌
+壁 벽 벽
+邊 가 변
+步 걸음 보
+保 지킬 보
+報 알릴 보
+寶 보배 보
+復 회복할 복
+府 마을 부
+婦 며느리 부
+副 버금 부
+富 부자 부
+佛 부처 불
+備 갖출 비
+悲 슬플 비
+非 아닐 비
+飛 날 비
+貧 가난할 빈
+`,
+  '3급': `
+佳 아름다울 가
+架 시렁 가
+閣 집 각
+刊 새길 간
+肝 간 간
+幹 줄기 간
+懇 간절할 간
+鑑 거울 감
+剛 굳셀 강
+綱 벼리 강
+鋼 강철 강
+介 낄 개
+慨 슬퍼할 개
+概 대개 개
+蓋 덮을 개
+距 상거할 거
+乾 하늘 건
+劍 칼 검
+隔 사이뜰 격
+訣 이별할 결
+兼 겸할 겸
+謙 겸손할 겸
+竟 마침내 경
+頃 이랑 경
+卿 벼슬 경
+徑 지름길 경
+硬 굳을 경
+啓 열 계
+契 맺을 계
+械 기계 계
+溪 시내 계
+桂 계수나무 계
+姑 시어미 고
+稿 원고 고
+鼓 북 고
+哭 울 곡
+谷 골 곡
+供 이바지할 공
+恭 공손할 공
+貢 바칠 공
+恐 두려울 공
+誇 자랑할 과
+寡 적을 과
+冠 갓 관
+貫 꿸 관
+慣 익숙할 관
+館 집 관
+狂 미칠 광
+掛 걸 괘
+塊 흙덩이 괴
+愧 부끄러울 괴
+怪 괴이할 괴
+壞 무너질 괴
+巧 공교할 교
+較 견줄 교
+丘 언덕 구
+俱 함께 구
+懼 두려워할 구
+狗 개 구
+驅 몰 구
+菊 국화 국
+弓 활 궁
+拳 주먹 권
+鬼 귀신 귀
+菌 버섯 균
+克 이길 극
+琴 거문고 금
+禽 새 금
+錦 비단 금
+肯 즐길 긍
+企 꾀할 기
+其 그 기
+祈 빌 기
+騎 말탈 기
+緊 긴할 긴
+`,
+  '2급': `
+伽 절 가
+柯 가지 가
+賈 성 가
+迦 부처이름 가
+軻 수레 가
+珏 쌍옥 각
+杆 몽둥이 간
+艮 괘이름 간
+葛 칡 갈
+邯 조나라서울 감
+岬 곶 갑
+鉀 갑옷 갑
+崗 언덕 강
+姜 성 강
+彊 굳셀 강
+疆 지경 강
+价 클 개
+坑 구덩이 갱
+鍵 자물쇠 건
+杰 뛰어날 걸
+桀 하왕이름 걸
+憩 쉴 게
+甄 질그릇 견
+璟 옥빛 경
+瓊 구슬 경
+炅 빛날 경
+皐 언덕 고
+琯 옥피리 관
+槐 회화나무 괴
+僑 더부살이 교
+膠 아교 교
+玖 옥돌 구
+邱 언덕 구
+鞠 성 국
+圭 홀 규
+奎 별 규
+揆 헤아릴 규
+珪 홀 규
+槿 무궁화 근
+瑾 아름다운옥 근
+兢 떨릴 긍
+冀 바랄 기
+岐 갈림길 기
+淇 물이름 기
+琪 아름다운옥 기
+璣 별이름 기
+箕 키 기
+耆 늙을 기
+麒 기린 기
+`,
+  '1급': `
+呵 꾸짖을 가
+苛 가혹할 가
+袈 가사 가
+嫁 시집갈 가
+稼 심을 가
+恪 삼갈 각
+殼 껍질 각
+墾 개간할 간
+奸 간사할 간
+揀 가릴 간
+澗 산골물 간
+癎 간질 간
+竿 낚싯대 간
+艱 어려울 간
+諫 간할 간
+喝 꾸짖을 갈
+竭 다할 갈
+褐 갈색 갈
+勘 헤아릴 감
+堪 견딜 감
+柑 귤 감
+疳 감질 감
+瞰 굽어볼 감
+紺 감색 감
+匣 갑 갑
+閘 수문 갑
+慷 슬플 강
+糠 겨 강
+腔 속빌 강
+薑 생강 강
+凱 개선할 개
+漑 물댈 개
+箇 낱 개
+芥 겨자 개
+羹 국 갱
+渠 개천 거
+倨 거만할 거
+醵 추렴할 거
+巾 수건 건
+虔 공경할 건
+腱 힘줄 건
+劫 위협할 겁
+怯 겁낼 겁
+檄 격문 격
+膈 가슴 격
+`
+};
+
+const parseGrade = (grade: Grade, raw: string): HanjaData[] =>
+  raw
+    .trim()
+    .split('\n')
+    .map(line => {
+      const [char, hun, eum] = line.trim().split(/\s+/);
+      const gloss = HANJA_GLOSSES[char];
+      return { id: `local-${char}`, char, hun, eum, hunEum: `${hun} ${eum}`, grade, ...(gloss ? { gloss } : {}) };
+    });
+
+export const HANJA_DATASET: HanjaData[] = (Object.keys(RAW_DATASET) as Grade[]).flatMap(grade =>
+  parseGrade(grade, RAW_DATASET[grade])
+);
@@ -0,0 +1,158 @@
+// Short English meanings, shown next to the Korean 훈 outside the Korean UI so learners who
+// do not read Korean can still play. Covers 8급 and 7급 so far; characters without a gloss
+// simply show the Korean meaning alone.
+export const HANJA_GLOSSES: Record<string, string> = {
+  // 8급
+  敎: 'teach',
+  校: 'school',
+  九: 'nine',
+  國: 'country',
+  軍: 'army',
+  金: 'gold, metal',
+  南: 'south',
+  女: 'woman',
+  年: 'year',
+  大: 'big',
+  東: 'east',
+  六: 'six',
+  萬: 'ten thousand',
+  母: 'mother',
+  木: 'tree, wood',
+  門: 'gate',
+  民: 'people',
+  白: 'white',
+  父: 'father',
+  北: 'north',
+  四: 'four',
+  山: 'mountain',
+  三: 'three',
+  生: 'life, be born',
+  西: 'west',
+  先: 'first, ahead',
+  小: 'small',
+  水: 'water',
+  室: 'room',
+  十: 'ten',
+  五: 'five',
+  王: 'king',
+  外: 'outside',
+  月: 'moon, month',
+  二: 'two',
+  人: 'person',
+  一: 'one',
+  日: 'sun, day',
+  長: 'long',
+  弟: 'younger brother',
+  中: 'middle',
+  靑: 'blue, green',
+  寸: 'inch',
+  七: 'seven',
+  土: 'earth, soil',
+  八: 'eight',
+  學: 'learn',
+  韓: 'Korea',
+  兄: 'elder brother',
+  火: 'fire',
+
+  // 7급
+  家: 'house, family',
+  歌: 'song',
+  間: 'between',
+  江: 'river',
+  車: 'cart, vehicle',
+  工: 'craft, work',
+  空: 'empty, sky',
+  口: 'mouth',
+  旗: 'flag',
+  記: 'record',
+  氣: 'energy, air',
+  男: 'man',
+  內: 'inside',
+  農: 'farming',
+  答: 'answer',
+  道: 'road, way',
+  冬: 'winter',
+  同: 'same',
+  洞: 'village, cave',
+  動: 'move',
+  登: 'climb',
+  來: 'come',
+  力: 'strength',
+  老: 'old',
+  里: 'village',
+  林: 'forest',
+  立: 'stand',
+  每: 'every',
+  面: 'face',
+  名: 'name',
+  命: 'life, order',
+  文: 'writing',
+  問: 'ask',
+  物: 'thing',
+  方: 'direction, square',
+  百: 'hundred',
+  夫: 'husband',
+  不: 'not',
+  事: 'matter, work',
+  算: 'calculate',
+  上: 'up, above',
+  色: 'color',
+  夕: 'evening',
+  姓: 'surname',
+  世: 'world, generation',
+  少: 'few, young',
+  所: 'place',
+  手: 'hand',
+  數: 'number, count',
+  市: 'market, city',
+  時: 'time',
+  植: 'plant',
+  食: 'food, eat',
+  心: 'heart, mind',
+  安: 'peace, comfort',
+  語: 'language, words',
+  然: 'so, thus',
+  午: 'noon',
+  右: 'right',
+  有: 'have, exist',
+  育: 'raise, nurture',
+  邑: 'town',
+  入: 'enter',
+  子: 'child, son',
+  字: 'letter, character',
+  自: 'self',
+  場: 'place, ground',
+  全: 'whole',
+  前: 'front, before',
+  電: 'electricity, lightning',
+  正: 'correct, upright',
+  祖: 'ancestor',
+  足: 'foot, enough',
+  左: 'left',
+  主: 'master, owner',
+  住: 'live, reside',
+  重: 'heavy',
+  地: 'ground, land',
+  紙: 'paper',
+  直: 'straight',
+  川: 'stream',
+  千: 'thousand',
+  天: 'sky, heaven',
+  草: 'grass',
+  村: 'village',
+  秋: 'autumn',
+  春: 'spring',
+  出: 'go out',
+  便: 'convenient',
+  平: 'flat, peaceful',
+  下: 'down, below',
+  夏: 'summer',
+  漢: 'Han (China)',
+  海: 'sea',
+  花: 'flower',
+  話: 'speech, talk',
+  活: 'live, lively',
+  孝: 'filial piety',
+  後: 'after, behind',
+  休: 'rest'
+};
@@ -0,0 +1,246 @@
+// 한자어 for reading (독음) questions, one "word reading" entry per line. Readings follow
+// the initial sound law (女子 여자, 來日 내일). Words are built from 8급-6급 characters, with a few 5급 ones.
+export interface HanjaWord {
+  word: string;
+  reading: string;
+}
+
+const RAW_WORDS = `
+學校 학교
+校長 교장
+敎室 교실
+敎育 교육
+國民 국민
+國軍 국군
+國土 국토
+國語 국어
+國旗 국기
+韓國 한국
+大韓 대한
+大學 대학
+大門 대문
+南北 남북
+東西 동서
+東門 동문
+南山 남산
+父母 부모
+兄弟 형제
+女子 여자
+女王 여왕
+女軍 여군
+王子 왕자
+先生 선생
+學生 학생
+生日 생일
+年長 연장
+人生 인생
+人民 인민
+萬人 만인
+萬一 만일
+一生 일생
+三寸 삼촌
+四寸 사촌
+外國 외국
+火山 화산
+山水 산수
+水門 수문
+土木 토목
+日月 일월
+靑年 청년
+靑山 청산
+白人 백인
+中國 중국
+中年 중년
+軍人 군인
+民生 민생
+室長 실장
+門中 문중
+家門 가문
+家口 가구
+歌手 가수
+江山 강산
+空間 공간
+工場 공장
+人口 인구
+入口 입구
+出口 출구
+日記 일기
+記事 기사
+空氣 공기
+男女 남녀
+男子 남자
+內外 내외
+農夫 농부
+農村 농촌
+答紙 답지
+同生 동생
+洞口 동구
+動物 동물
+登山 등산
+來日 내일
+老人 노인
+老後 노후
+每日 매일
+每年 매년
+名山 명산
+名所 명소
+生命 생명
+文字 문자
+問答 문답
+方面 방면
+百姓 백성
+不安 불안
+算數 산수
+上下 상하
+世上 세상
+少年 소년
+住所 주소
+手足 수족
+植物 식물
+食事 식사
+食口 식구
+安心 안심
+自然 자연
+正午 정오
+左右 좌우
+有名 유명
+入學 입학
+電話 전화
+電氣 전기
+全國 전국
+正直 정직
+祖父 조부
+祖母 조모
+主人 주인
+重力 중력
+地方 지방
+土地 토지
+千年 천년
+天地 천지
+草食 초식
+春秋 춘추
+出生 출생
+平日 평일
+平安 평안
+下山 하산
+漢字 한자
+海外 해외
+花草 화초
+活動 활동
+孝道 효도
+後日 후일
+休日 휴일
+休紙 휴지
+時間 시간
+市場 시장
+立春 입춘
+秋夕 추석
+里長 이장
+力道 역도
+便紙 편지
+便安 편안
+不便 불편
+事物 사물
+夫人 부인
+姓名 성명
+所有 소유
+各自 각자
+感動 감동
+強力 강력
+開學 개학
+計算 계산
+世界 세계
+高校 고교
+苦生 고생
+成功 성공
+公共 공공
+科學 과학
+光明 광명
+交通 교통
+地球 지구
+近方 근방
+今年 금년
+特急 특급
+高級 고급
+短命 단명
+食堂 식당
+時代 시대
+反對 반대
+地圖 지도
+讀書 독서
+童話 동화
+頭目 두목
+平等 평등
+音樂 음악
+例文 예문
+道路 도로
+理由 이유
+明白 명백
+新聞 신문
+美人 미인
+半球 반구
+發表 발표
+番號 번호
+別名 별명
+病院 병원
+本部 본부
+社會 사회
+石油 석유
+出席 출석
+直線 직선
+生成 생성
+反省 반성
+消火 소화
+子孫 자손
+手術 수술
+學習 학습
+始作 시작
+神話 신화
+自身 자신
+自信 자신
+新年 신년
+失業 실업
+愛國 애국
+野生 야생
+夜間 야간
+農藥 농약
+太陽 태양
+西洋 서양
+言語 언어
+英語 영어
+永遠 영원
+用語 용어
+運動 운동
+公園 공원
+注油 주유
+銀行 은행
+音讀 음독
+意見 의견
+醫學 의학
+作文 작문
+昨年 작년
+文章 문장
+現在 현재
+天才 천재
+家庭 가정
+問題 문제
+朝食 조식
+家族 가족
+集中 집중
+親族 친족
+通話 통화
+特別 특별
+和合 화합
+幸運 행운
+方向 방향
+表現 표현
+形成 형성
+平和 평화
+會話 회화
+訓育 훈육
+`;
+
+export const HANJA_WORDS: HanjaWord[] = RAW_WORDS.trim().split('\n').map(line => {
+  const [word, reading] = line.trim().split(/\s+/);
+  return { word, reading };
+});
@@ -0,0 +1,442 @@
+import { MessageKey } from './ko';
+
+export const en: Record<MessageKey, string> = {
+  'common.grade': 'Grade {level}',
+  'common.close': 'Close',
+  'common.on': 'ON',
+  'common.off': 'OFF',
+  'common.seconds': '{n}s',
+  'common.me': 'You',
+  'common.player': 'Player',
+  'common.ai': 'AI',
+  'common.back': 'Back',
+  'common.skipped': '{n} entries were skipped.',
+  'common.repaired': '{n} entries were completed from the bundled data.',
+
+  'app.title': 'Han-Bingo',
+  'app.subtitle': 'Real-time Hanja battle royale',
+
+  'setup.savedGame': 'You have a game in progress',
+  'setup.savedAt': 'Saved {time}',
+  'setup.continue': 'Continue',
+  'setup.newGame': 'Start over',
+  'setup.language': 'Language',
+  'setup.level': 'Challenge Level',
+  'setup.gradesNeedSource': 'Grade {level} and above need a word list or another hanja source. The bundled dataset does not hold their full lists yet.',
+  'setup.players': 'Players',
+  'setup.playerCount': '{n} players',
+  'setup.board': 'Board',
+  'setup.seats': 'Seats',
+  'setup.human': 'Human',
+  'setup.ai': 'AI',
+  'setup.profile': 'P{n} profile',
+  'setup.guest': 'Guest',
+  'setup.goal': 'Goal',
+  'setup.winLines': 'Lines to win',
+  'setup.lineCount': '{n} lines',
+  'setup.mode': 'Mode',
+  'setup.quiz': 'Quiz',
+  'setup.scoring': 'Scoring',
+  'setup.tieBreak': 'Simultaneous bingo',
+  'setup.seed': 'Seed',
+  'setup.seedPlaceholder': 'Leave empty for a random one',
+  'setup.seedHint': 'The same seed and settings deal the same boards anywhere. Review weighting and external hanja sources are turned off.',
+  'setup.match': 'Match',
+  'setup.bestOf': 'Games',
+  'setup.roundRobinHint': 'Every seat plays every other seat once, one on one.',
+  'setup.tournamentInProgress': 'Tournament in progress · {n}/{total} games played',
+  'setup.tournamentDone': 'Tournament finished · {n} games',
+  'setup.standings': 'Standings',
+  'setup.reducedMotion': 'Reduce motion',
+  'setup.content': 'Hanja source',
+  'setup.wordList': 'Word list',
+  'setup.noWordList': 'Random from the grade',
+  'setup.editWordLists': 'Edit word lists',
+  'setup.listCount': '{n} hanja / {needed} cells',
+  'setup.autoFill': 'Fill missing cells with Grade {level} hanja',
+  'setup.study': 'Study record · Review',
+  'setup.profiles': 'Player profiles',
+  'setup.profileCount': '{n}',
+  'setup.online': 'Online',
+  'setup.createRoom': 'Create room',
+  'setup.roomCode': 'Code',
+  'setup.joinRoom': 'Join',
+  'setup.start': 'GAME START',
+
+  'mode.STANDARD': 'Standard (random layout)',
+  'mode.DRAFT': 'Draft (place your own)',
+
+  'winPattern.LINES': 'Line bingo',
+  'winPattern.FOUR_CORNERS': 'Four corners',
+  'winPattern.X': 'X shape',
+  'winPattern.PLUS': 'Plus',
+  'winPattern.BLACKOUT': 'Blackout',
+  'goal.lines': '{done}/{total} lines',
+  'goal.pattern': '{pattern} {done}/{total}',
+
+  'difficulty.EASY': 'Easy',
+  'difficulty.NORMAL': 'Normal',
+  'difficulty.HARD': 'Hard',
+
+  'scoring.orderBonus': 'First-answer bonus',
+  'scoring.speedBonus': 'Speed bonus',
+  'scoring.wrongPenalty': 'Wrong-answer penalty',
+  'scoring.steal': 'Steal rule',
+  'scoringHint.orderBonus': 'The first, second and third correct answers earn 5, 3 and 1 extra points.',
+  'scoringHint.speedBonus': 'A correct answer within 5 seconds earns a point per second left.',
+  'scoringHint.wrongPenalty': 'A wrong answer loses 5 points, but never below 0. Running out of time does not.',
+  'scoringHint.steal': 'If the player whose turn it is answers correctly, only they flip the card; if they miss, the others who got it right steal it.',
+  'tieBreak.POINTS': 'Points',
+  'tieBreak.SPEED': 'Fastest answer',
+  'tieBreak.TURN_ORDER': 'Turn order',
+  'tieBreak.SHARED': 'Shared win',
+  'tieBreak.PLAYOFF': 'Playoff',
+
+  'tournament.SINGLE': 'Single game',
+  'tournament.BEST_OF': 'Best of N',
+  'tournament.ROUND_ROBIN': 'Round robin',
+  'tournament.bestOf': 'Best of {n}',
+  'tournament.progress': '{n}/{total} games',
+  'tournament.champion': '{name} wins the tournament!',
+  'tournament.rank': '#{n}',
+  'tournament.played': 'Played',
+  'tournament.record': 'W / Shared / D / L',
+  'tournament.standingPoints': 'Standing pts',
+  'tournament.games': 'Results',
+  'tournament.gameNumber': 'Game {n}',
+  'tournament.next': 'Start game {n}: {names}',
+  'tournament.abandon': 'Abandon',
+  'tournament.abandonConfirm': 'Abandon the tournament? The standings will be deleted.',
+  'tournament.finish': 'Finish tournament',
+  'tournament.replaceConfirm': 'Discard the tournament in progress and start a new one?',
+
+  'profiles.title': 'Player profiles',
+  'profiles.name': 'Name',
+  'profiles.namePlaceholder': 'New profile name',
+  'profiles.color': 'Avatar colour',
+  'profiles.add': 'Add',
+  'profiles.delete': 'Delete profile',
+  'profiles.deleteConfirm': 'Delete the profile {name} and its history?',
+  'profiles.empty': 'No profiles yet. Play under a profile to build up stats and XP.',
+  'profiles.level': 'Lv.{n}',
+  'profiles.games': 'Games',
+  'profiles.wins': 'Wins',
+  'profiles.bestStreak': 'Best streak',
+  'profiles.locked': 'Locked',
+  'achievement.firstWin': 'First win',
+  'achievementHint.firstWin': 'Win a game for the first time',
+  'achievement.threeLines': 'Triple bingo',
+  'achievementHint.threeLines': 'Complete 3 lines in one game',
+  'achievement.perfect': 'Perfect grade {level}',
+  'achievementHint.perfect': 'Answer {n} or more quizzes without a miss in a grade {level} game',
+  'achievement.winStreak': 'Winning streak',
+  'achievementHint.winStreak': 'Win {n} games in a row',
+  'achievement.answerStreak': 'Know-it-all',
+  'achievementHint.answerStreak': 'Answer {n} quizzes in a row correctly',
+  'achievement.regular': 'Regular',
+  'achievementHint.regular': 'Play {n} games',
+  'achievement.level': 'Hanja master',
+  'achievementHint.level': 'Reach level {n}',
+
+  'aiLevel.BEGINNER': 'Beginner',
+  'aiLevel.INTERMEDIATE': 'Intermediate',
+  'aiLevel.EXPERT': 'Expert',
+
+  'quizType.HANJA_TO_HUNEUM': 'Meaning & sound',
+  'quizType.HUNEUM_TO_HANJA': 'Find the hanja',
+  'quizType.HANJA_TO_EUM': 'Sound',
+  'quizType.HANJA_TO_HUN': 'Meaning',
+  'quizType.TYPED_EUM': 'Type the sound',
+  'quizType.WORD_READING': 'Word reading',
+  'quizType.RADICAL': 'Radical',
+  'quizType.STROKES': 'Strokes',
+  'quizQuestion.HANJA_TO_HUNEUM': 'What are the meaning (훈) and sound (음) of this hanja?',
+  'quizQuestion.HUNEUM_TO_HANJA': 'Which hanja has this meaning and sound?',
+  'quizQuestion.HANJA_TO_EUM': 'What is the sound (음) of this hanja?',
+  'quizQuestion.HANJA_TO_HUN': 'What is the meaning (훈) of this hanja?',
+  'quizQuestion.TYPED_EUM': 'Type the sound (음) of this hanja.',
+  'quizQuestion.WORD_READING': 'How is this hanja word read?',
+  'quizQuestion.RADICAL': 'What is the radical of this hanja?',
+  'quizQuestion.STROKES': 'How many strokes does this hanja have?',
+
+  'outcome.CORRECT': 'Correct',
+  'outcome.WRONG': 'Wrong',
+  'outcome.TIMEOUT': 'Time out',
+
+  'error.needHuman': 'At least one human player is needed.',
+  'error.notEnoughHanja': 'There are not enough Grade {level} hanja to build the boards.',
+  'error.roomNotFound': 'Room not found.',
+  'error.joinFirst': 'Join a room first.',
+  'error.badRequest': 'Invalid request.',
+  'error.roomStarted': 'This room has already started.',
+  'error.roomFull': 'The room is full.',
+  'error.seatNotFound': 'Seat not found.',
+  'error.hostOnly': 'Only the host can start the game.',
+  'error.gameInProgress': 'A game is already in progress.',
+  'error.waitForSeats': 'Wait until every seat is taken.',
+  'error.listTooShort': 'The list {name} has {n} hanja, too few for {needed} cells. Turn on auto-fill or pick a smaller board.',
+
+  'loading.title': 'Getting ready...',
+  'loading.provider': 'Getting hanja from {name}.',
+  'loading.local': 'Building the boards from the Grade {level} hanja list.',
+
+  'game.turn': 'TURN',
+  'game.currentTurn': 'Current Turn',
+  'game.timeLeft': '{n} seconds left',
+  'game.reconnecting': 'Reconnecting...',
+  'game.myBoard': 'My board',
+  'game.points': '{n} pts',
+  'game.playoff': 'Playoff {n}/{max}',
+  'game.playerBoard': "{name}'s board",
+  'game.spectating': "Watching {name}'s board",
+  'game.miniBoard': "{name}'s board: {flipped}/{total} cells solved, {goal}",
+  'game.peekPhase': 'PEEK PHASE',
+  'game.peekHint': 'Flip 2-3 cards and remember where they are!',
+  'game.selectPhase': 'SELECT PHASE',
+  'game.selectHint': 'Pick a card to battle over!',
+  'game.finishPeek': 'Done peeking',
+  'game.waiting': 'Waiting for {name}...',
+  'game.log': 'Game Log',
+  'phase.PEEK': 'Peek',
+  'phase.SELECT': 'Select',
+  'phase.QUIZ': 'Quiz',
+
+  'gameOver.winner': '{name} wins!',
+  'gameOver.shared': '{names} share the win!',
+  'gameOver.draw': 'Draw!',
+  'gameOver.drawDetail': 'No cards were left to flip, so nobody could win.',
+  'gameOver.playoffShared': 'The playoff was still undecided, so the win is shared.',
+  'gameOver.tieBreak.POINTS': 'Simultaneous bingo! Points decided it.',
+  'gameOver.tieBreak.SPEED': 'Simultaneous bingo! The fastest answer won.',
+  'gameOver.tieBreak.TURN_ORDER': 'Simultaneous bingo! Turn order decided it.',
+  'gameOver.tieBreak.SHARED': 'Simultaneous bingo! Everyone who got there wins.',
+  'gameOver.tieBreak.PLAYOFF': 'Simultaneous bingo! Decided in a playoff.',
+  'gameOver.subtitle': 'What a match!',
+  'gameOver.seed': 'Seed',
+  'gameOver.copyLink': 'Copy link',
+  'gameOver.copied': 'Copied',
+  'gameOver.sharePrompt': 'Share this link',
+  'gameOver.report': 'Report',
+  'gameOver.replay': 'Replay',
+  'gameOver.playAgain': 'Play again',
+  'gameOver.standings': 'Standings',
+  'gameOver.xp': '+{n} XP',
+  'gameOver.levelUp': 'Level up!',
+  'gameOver.leaveRoom': 'Leave room',
+
+  'card.revealed': 'Card {n}: {face}, solved',
+  'card.peeked': 'Card {n}: {face}, peeking',
+  'card.hidden': 'Card {n}, face down',
+  'card.selectable': 'Card {n}, face down, can be picked',
+
+  'quiz.turn': 'Turn',
+  'quiz.status': 'Status',
+  'quiz.submitted': 'Answered',
+  'quiz.thinking': 'Thinking',
+  'quiz.typedPlaceholder': 'Type the sound (음) in Hangul',
+  'quiz.submit': 'Submit',
+  'quiz.answerIs': 'Answer: {answer}',
+  'quiz.options': 'Options',
+  'quiz.option': 'Option {n}: {label}',
+  'quiz.optionCorrect': 'Option {n}: {label}, correct',
+  'quiz.optionWrong': 'Option {n}: {label}, your wrong answer',
+  'quiz.seatOption': '{name} option {n}: {label}',
+  'quiz.me': 'Me',
+  'quiz.ownKeys': 'Answer with your own keys',
+
+  'announce.draft': 'Draft: choose hanja and place them on your board.',
+  'announce.myTurn': 'Your turn.',
+  'announce.turn': "{name}'s turn.",
+  'announce.peek': 'Peek: move with the arrow keys and press Enter to flip a card. {n} seconds.',
+  'announce.select': 'Pick a card to battle over. Arrow keys to move, Enter to pick.',
+  'announce.quiz': 'Quiz: {question} {prompt}. {how} {n} seconds.',
+  'announce.quizTyped': 'Type the sound.',
+  'announce.quizKeys': 'Answer with the number keys.',
+  'announce.results': 'The answer is {answer}. {results}.',
+  'announce.timer': '{n} seconds left.',
+  'announce.gameOver': 'Game over. {name} wins!',
+  'announce.gameOverShared': 'Game over. {names} share the win!',
+  'announce.gameOverNoWinner': 'Game over. It\'s a draw.',
+
+  'privacy.handOver': 'Pass the device',
+  'privacy.turn': "{name}'s turn",
+  'privacy.ready': 'Ready',
+
+  'bonus.gauge': 'Bonus {gauge}/{max}',
+  'bonus.gaugeShield': 'Bonus {gauge}/{max} · Shield ready',
+
+  'draft.title': 'Draft',
+  'draft.pick': 'PICK',
+  'draft.placeHint': 'Tap an empty cell to place the hanja!',
+  'draft.chooseHint': 'Choose a hanja from the pool!',
+  'draft.waiting': 'Waiting for {name} to place...',
+  'draft.autoFill': 'Place the rest automatically',
+  'draft.pool': 'Hanja Pool',
+
+  'lobby.room': 'Online Room',
+  'lobby.connecting': 'Connecting to the server...',
+  'lobby.reconnecting': 'Reconnecting to the server...',
+  'lobby.shareCode': 'Share the room code with your friends.',
+  'lobby.emptySeat': 'Empty seat',
+  'lobby.start': 'GAME START',
+  'lobby.waitingPlayers': 'Waiting for players',
+  'lobby.waitingHost': 'Waiting for the host to start...',
+  'lobby.leave': 'Leave',
+
+  'study.title': 'Study record',
+  'study.clear': 'Clear record',
+  'study.clearConfirm': "Clear all of {name}'s study record?",
+  'study.mastery': 'Mastery',
+  'study.seenCount': '{n} hanja studied',
+  'study.gradeSummary': 'Mastered {mastered} · Weak {weak} · Due {due} / {total}',
+  'study.queue': 'Hanja to review',
+  'study.empty': 'Nothing to review right now. Play a game to build your record.',
+  'mastery.NEW': 'New',
+  'mastery.WEAK': 'Weak',
+  'mastery.LEARNING': 'Learning',
+  'mastery.MASTERED': 'Mastered',
+
+  'provider.BUNDLED': 'Bundled list',
+  'provider.FILE': 'Imported file',
+  'provider.GEMINI': 'Gemini',
+  'provider.OPENAI': 'OpenAI-compatible server',
+  'providerHint.BUNDLED': 'Deals from the official grade lists. Works offline.',
+  'providerHint.FILE': 'Fills the boards from your own list of hanja (JSON or CSV).',
+  'providerHint.GEMINI': 'Google Gemini picks characters for the grade.',
+  'providerHint.OPENAI': 'Any OpenAI-compatible API picks the characters, including a local LLM server.',
+
+  'content.title': 'Hanja source',
+  'content.apiKey': 'API key',
+  'content.apiKeyOptional': 'API key (optional)',
+  'content.model': 'Model',
+  'content.baseUrl': 'Server URL',
+  'content.keyNotice': 'API keys are stored in this browser only and never sent to the game server.',
+  'content.notReady': 'Not set up yet, so games use the bundled list.',
+  'content.fallback': 'If there is no answer within {n} seconds, or too few hanja come back, the bundled list fills the board.',
+  'content.fileImport': 'Import a JSON or CSV file',
+  'content.fileFormat': 'Format: [{ "char": "天", "hun": "하늘", "eum": "천", "grade": "7급" }]. Entries without a grade are dealt at every grade.',
+  'content.fileLoaded': '{name} · {n} hanja',
+  'content.fileRemove': 'Remove file',
+  'content.fileNone': 'No file imported.',
+  'content.pools': 'Saved hanja',
+  'content.poolsHint': 'Boards are drawn at once from the hanja saved for each grade, and more are fetched in the background when a grade runs low. Refresh replaces a grade\'s saved hanja.',
+  'content.poolCount': '{n}',
+  'content.refresh': 'Refresh {grade}',
+
+  'wordList.title': 'Word lists',
+  'wordList.new': 'New list',
+  'wordList.import': 'Import',
+  'wordList.exportJson': 'Export JSON',
+  'wordList.exportCsv': 'Export CSV',
+  'wordList.delete': 'Delete list',
+  'wordList.deleteConfirm': 'Delete the list {name}?',
+  'wordList.none': 'No word lists yet. Create one or import a CSV or JSON file.',
+  'wordList.name': 'Name',
+  'wordList.count': '{n} hanja',
+  'wordList.char': 'Hanja',
+  'wordList.hun': 'Meaning (훈)',
+  'wordList.eum': 'Sound (음)',
+  'wordList.gloss': 'English',
+  'wordList.grade': 'Grade',
+  'wordList.add': 'Add',
+  'wordList.save': 'Save',
+  'wordList.cancel': 'Cancel',
+  'wordList.edit': 'Edit {char}',
+  'wordList.remove': 'Remove {char}',
+  'wordList.imported': 'Imported {n} hanja from {name}.',
+  'wordList.formatHint': 'CSV columns: char, hun, eum, gloss, grade (header row optional). JSON: [{ "char": "天", "hun": "하늘", "eum": "천" }]',
+
+  'validation.notHan': 'Not a single hanja character',
+  'validation.badEum': 'The sound must be one Hangul syllable',
+  'validation.hunHasEum': 'Removed the sound from the meaning',
+  'validation.emptyHun': 'The meaning is empty',
+  'validation.notList': 'Not a list of hanja',
+  'validation.notJson': 'Not valid JSON',
+  'validation.duplicate': 'Already in the list',
+  'validation.filledFromDataset': 'Hun and eum were empty and were filled in from the bundled data',
+
+  'report.title': 'Match report',
+  'report.print': 'Print',
+  'report.grade': 'Grade',
+  'report.turns': 'Turns',
+  'report.turnCount': '{n} turns',
+  'report.seed': 'Seed',
+  'report.player': 'Player',
+  'report.accuracy': 'Accuracy',
+  'report.counts': 'Correct / Wrong / Time out',
+  'report.averageAnswer': 'Average answer',
+  'report.points': 'Points',
+  'report.lines': 'Lines completed (turn)',
+  'report.hanjaTitle': 'Hanja asked · most missed first (○ correct · ✕ wrong · ⏱ time out)',
+  'report.noQuestions': 'No questions were asked.',
+  'report.hanja': 'Hanja',
+  'report.turn': 'Turn',
+  'report.csvTurn': 'Turn',
+  'report.csvHanja': 'Hanja',
+  'report.csvHunEum': 'Meaning & sound',
+  'report.csvGrade': 'Grade',
+  'report.csvQuizType': 'Question type',
+  'report.csvBoard': 'Board',
+  'report.csvPlayer': 'Player',
+  'report.csvResult': 'Result',
+  'report.csvSeconds': 'Answer time (s)',
+  'report.csvPoints': 'Points',
+  'report.csvLines': 'Lines completed',
+  'line.row': 'Row {n}',
+  'line.column': 'Column {n}',
+  'line.diagonalDown': 'Diagonal ↘',
+  'line.diagonalUp': 'Diagonal ↙',
+
+  'replay.title': 'Replay',
+  'replay.seed': 'Seed',
+  'replay.prevTurn': 'Previous turn',
+  'replay.prev': 'Previous',
+  'replay.next': 'Next',
+  'replay.nextTurn': 'Next turn',
+  'replay.draft': 'Draft',
+  'replay.turnOf': 'Turn {turn} / {last}',
+  'replay.lines': '{n} lines',
+  'replay.shield': 'Shield',
+
+  'log.gameStart': 'Game start! Grade {level}, {size}×{size}.',
+  'log.draftStart': 'Draft start! Place the hanja on your board.',
+  'log.draftDone': 'Draft finished! Let the battle begin.',
+  'log.turn': "{name}'s turn.",
+  'log.autoSelect': 'Time out! A random card was picked.',
+  'log.peek': '{name} peeked at a card.',
+  'log.select': '{name} picked {char} · {quiz}',
+  'log.selectHidden': '{name} picked a card · {quiz}',
+  'log.answered': '{name} answered.',
+  'log.answer.CORRECT': '{name}: correct ({seconds}s)',
+  'log.answer.WRONG': '{name}: wrong ({seconds}s)',
+  'log.answer.TIMEOUT': '{name}: out of time',
+  'log.flip': '{name} flipped {char}.',
+  'log.line': '{name} completed {line}!',
+  'log.shieldGained': '{name} earned a shield!',
+  'log.shieldBlocked': "{name}'s shield blocked the penalty!",
+  'log.penalty': '{name} answered wrong! {char} was flipped back.',
+  'log.winner': '{name} wins!',
+  'log.stolen': '{names} stole the card!',
+  'log.score': 'Points: {changes}',
+  'log.scoreNone': 'No points this round.',
+  'log.tieBreak.POINTS': 'Simultaneous bingo for {names}! Points decide the winner.',
+  'log.tieBreak.SPEED': 'Simultaneous bingo for {names}! The fastest answer wins.',
+  'log.tieBreak.TURN_ORDER': 'Simultaneous bingo for {names}! Turn order decides the winner.',
+  'log.tieBreak.SHARED': 'Simultaneous bingo for {names}! They share the win.',
+  'log.tieBreak.PLAYOFF': 'Simultaneous bingo for {names}! Starting a playoff.',
+  'log.playoffRound': 'Playoff round {n}/{max}: nobody answered correctly alone, so it goes on.',
+  'log.sharedWin': '{names} share the win!',
+  'log.draw': 'No cards left to flip. Draw!',
+  'log.validation': 'Hanja check: {repaired} repaired, {rejected} dropped, {toppedUp} filled from the bundled list',
+
+  'log.export': 'Export events as JSON',
+  'log.filter': 'Event type',
+  'log.player': 'Player',
+  'log.allPlayers': 'All players',
+  'log.empty': 'No events to show.',
+  'logFilter.ALL': 'All',
+  'logFilter.TURNS': 'Turns & picks',
+  'logFilter.ANSWERS': 'Answers',
+  'logFilter.BOARD': 'Board',
+  'logFilter.MATCH': 'Match'
+};
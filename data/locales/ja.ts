@@ -0,0 +1,442 @@
+import { MessageKey } from './ko';
+
+export const ja: Record<MessageKey, string> = {
+  'common.grade': '{level}級',
+  'common.close': '閉じる',
+  'common.on': 'ON',
+  'common.off': 'OFF',
+  'common.seconds': '{n}秒',
+  'common.me': 'あなた',
+  'common.player': 'プレイヤー',
+  'common.ai': 'AI',
+  'common.back': '戻る',
+  'common.skipped': '{n}件をスキップしました。',
+  'common.repaired': '{n}件を内蔵データで補いました。',
+
+  'app.title': 'ハンビンゴ',
+  'app.subtitle': 'リアルタイム漢字バトルロイヤル',
+
+  'setup.savedGame': '進行中のゲームがあります',
+  'setup.savedAt': '{time}に保存',
+  'setup.continue': '続ける',
+  'setup.newGame': '最初から',
+  'setup.language': 'Language',
+  'setup.level': 'レベル',
+  'setup.gradesNeedSource': '{level}級以上は単語帳か別の漢字ソースが必要です。内蔵データにはまだ全リストがありません。',
+  'setup.players': '人数',
+  'setup.playerCount': '{n}人',
+  'setup.board': 'ボード',
+  'setup.seats': '座席',
+  'setup.human': '人間',
+  'setup.ai': 'AI',
+  'setup.profile': 'P{n} のプロフィール',
+  'setup.guest': 'ゲスト',
+  'setup.goal': '勝利条件',
+  'setup.winLines': '必要な列数',
+  'setup.lineCount': '{n}列',
+  'setup.mode': 'モード',
+  'setup.quiz': 'クイズ',
+  'setup.scoring': '得点ルール',
+  'setup.tieBreak': '同時ビンゴ',
+  'setup.seed': 'シード',
+  'setup.seedPlaceholder': '空欄ならランダム',
+  'setup.seedHint': '同じシードと設定なら、どこでも同じボードで始まります。復習の重み付けと外部の漢字ソースは無効になります。',
+  'setup.match': '試合形式',
+  'setup.bestOf': '試合数',
+  'setup.roundRobinHint': 'すべての席が1対1で一度ずつ対戦します。',
+  'setup.tournamentInProgress': 'トーナメント進行中 · {n}/{total}試合',
+  'setup.tournamentDone': 'トーナメント終了 · {n}試合',
+  'setup.standings': '順位表',
+  'setup.reducedMotion': '動きを減らす',
+  'setup.content': '漢字ソース',
+  'setup.wordList': '単語帳',
+  'setup.noWordList': '級からランダム',
+  'setup.editWordLists': '単語帳を編集',
+  'setup.listCount': '{n}字 / ボード{needed}マス',
+  'setup.autoFill': '足りないマスは{level}級の漢字で埋める',
+  'setup.study': '学習記録・復習',
+  'setup.profiles': 'プレイヤープロフィール',
+  'setup.profileCount': '{n}人',
+  'setup.online': 'オンライン',
+  'setup.createRoom': '部屋を作る',
+  'setup.roomCode': 'コード',
+  'setup.joinRoom': '参加',
+  'setup.start': 'ゲーム開始',
+
+  'mode.STANDARD': '通常（ランダム配置）',
+  'mode.DRAFT': 'ドラフト（自分で配置）',
+
+  'winPattern.LINES': 'ラインビンゴ',
+  'winPattern.FOUR_CORNERS': '四隅',
+  'winPattern.X': 'X字',
+  'winPattern.PLUS': '十字',
+  'winPattern.BLACKOUT': '全部',
+  'goal.lines': '{done}/{total} 列',
+  'goal.pattern': '{pattern} {done}/{total}',
+
+  'difficulty.EASY': 'やさしい',
+  'difficulty.NORMAL': 'ふつう',
+  'difficulty.HARD': 'むずかしい',
+
+  'scoring.orderBonus': '早い者勝ちボーナス',
+  'scoring.speedBonus': 'スピードボーナス',
+  'scoring.wrongPenalty': '誤答の減点',
+  'scoring.steal': '横取りルール',
+  'scoringHint.orderBonus': '1・2・3番目に正解した人に5・3・1点を加えます。',
+  'scoringHint.speedBonus': '5秒以内に正解すると、残り秒数分の点を加えます。',
+  'scoringHint.wrongPenalty': '誤答は5点減点(0点未満にはなりません)。時間切れは減点しません。',
+  'scoringHint.steal': '手番の人が正解するとその人だけがカードをめくり、間違えると正解した他の人が横取りします。',
+  'tieBreak.POINTS': '得点',
+  'tieBreak.SPEED': '回答の速さ',
+  'tieBreak.TURN_ORDER': '手番順',
+  'tieBreak.SHARED': '同時優勝',
+  'tieBreak.PLAYOFF': '延長戦',
+
+  'tournament.SINGLE': '1試合',
+  'tournament.BEST_OF': '多試合制',
+  'tournament.ROUND_ROBIN': '総当たり',
+  'tournament.bestOf': '{n}試合制',
+  'tournament.progress': '{n}/{total}試合',
+  'tournament.champion': '{name}が総合優勝！',
+  'tournament.rank': '{n}位',
+  'tournament.played': '試合',
+  'tournament.record': '勝 / 同時 / 分 / 負',
+  'tournament.standingPoints': '勝ち点',
+  'tournament.games': '試合結果',
+  'tournament.gameNumber': '第{n}試合',
+  'tournament.next': '第{n}試合開始：{names}',
+  'tournament.abandon': 'やめる',
+  'tournament.abandonConfirm': 'トーナメントをやめますか？順位表は削除されます。',
+  'tournament.finish': 'トーナメントを終える',
+  'tournament.replaceConfirm': '進行中のトーナメントを消して新しく始めますか？',
+
+  'profiles.title': 'プレイヤープロフィール',
+  'profiles.name': '名前',
+  'profiles.namePlaceholder': '新しいプロフィール名',
+  'profiles.color': 'アバターの色',
+  'profiles.add': '追加',
+  'profiles.delete': 'プロフィールを削除',
+  'profiles.deleteConfirm': '{name} のプロフィールと記録を削除しますか？',
+  'profiles.empty': 'プロフィールはまだありません。プロフィールで遊ぶと記録と経験値がたまります。',
+  'profiles.level': 'Lv.{n}',
+  'profiles.games': 'ゲーム',
+  'profiles.wins': '優勝',
+  'profiles.bestStreak': '最多連勝',
+  'profiles.locked': '未達成',
+  'achievement.firstWin': '初優勝',
+  'achievementHint.firstWin': 'はじめてゲームに優勝する',
+  'achievement.threeLines': 'トリプルビンゴ',
+  'achievementHint.threeLines': '1ゲームでビンゴを3列そろえる',
+  'achievement.perfect': '{level}級パーフェクト',
+  'achievementHint.perfect': '{level}級のゲームで{n}問以上をノーミスで答える',
+  'achievement.winStreak': '連勝街道',
+  'achievementHint.winStreak': '{n}ゲーム連続で優勝する',
+  'achievement.answerStreak': '物知り博士',
+  'achievementHint.answerStreak': '{n}問連続で正解する',
+  'achievement.regular': '常連さん',
+  'achievementHint.regular': '{n}ゲーム遊ぶ',
+  'achievement.level': '漢字の達人',
+  'achievementHint.level': 'レベル{n}に到達する',
+
+  'aiLevel.BEGINNER': '初級',
+  'aiLevel.INTERMEDIATE': '中級',
+  'aiLevel.EXPERT': '上級',
+
+  'quizType.HANJA_TO_HUNEUM': '訓音',
+  'quizType.HUNEUM_TO_HANJA': '漢字さがし',
+  'quizType.HANJA_TO_EUM': '音',
+  'quizType.HANJA_TO_HUN': '訓',
+  'quizType.TYPED_EUM': '音を書く',
+  'quizType.WORD_READING': '漢字語の読み',
+  'quizType.RADICAL': '部首',
+  'quizType.STROKES': '画数',
+  'quizQuestion.HANJA_TO_HUNEUM': 'この漢字の訓（意味）と音（読み）は？',
+  'quizQuestion.HUNEUM_TO_HANJA': 'この意味と読みに合う漢字は？',
+  'quizQuestion.HANJA_TO_EUM': 'この漢字の音（読み）は？',
+  'quizQuestion.HANJA_TO_HUN': 'この漢字の訓（意味）は？',
+  'quizQuestion.TYPED_EUM': 'この漢字の音（読み）をハングルで書いてください。',
+  'quizQuestion.WORD_READING': 'この漢字語の読みは？',
+  'quizQuestion.RADICAL': 'この漢字の部首は？',
+  'quizQuestion.STROKES': 'この漢字の総画数は？',
+
+  'outcome.CORRECT': '正解',
+  'outcome.WRONG': '不正解',
+  'outcome.TIMEOUT': '時間切れ',
+
+  'error.needHuman': '人間のプレイヤーが最低一人必要です。',
+  'error.notEnoughHanja': '{level}級の漢字が足りず、ボードを作れません。',
+  'error.roomNotFound': '部屋が見つかりません。',
+  'error.joinFirst': '先に部屋に参加してください。',
+  'error.badRequest': '不正なリクエストです。',
+  'error.roomStarted': 'この部屋はすでに始まっています。',
+  'error.roomFull': '部屋が満員です。',
+  'error.seatNotFound': '座席が見つかりません。',
+  'error.hostOnly': 'ゲームを始められるのはホストだけです。',
+  'error.gameInProgress': 'すでにゲームが進行中です。',
+  'error.waitForSeats': '全員がそろうまでお待ちください。',
+  'error.listTooShort': '単語帳「{name}」は{n}字しかないため、{needed}マスのボードを埋められません。自動補充をオンにするか、ボードを小さくしてください。',
+
+  'loading.title': '対戦準備中...',
+  'loading.provider': '{name}から漢字を取得しています。',
+  'loading.local': '{level}級の配定漢字でボードを作っています。',
+
+  'game.turn': 'ターン',
+  'game.currentTurn': '手番',
+  'game.timeLeft': '残り{n}秒',
+  'game.reconnecting': '再接続中...',
+  'game.myBoard': '自分のボード',
+  'game.points': '{n}点',
+  'game.playoff': '延長戦 {n}/{max}',
+  'game.playerBoard': '{name}のボード',
+  'game.spectating': '{name}のボードを観戦中',
+  'game.miniBoard': '{name}のボード：{flipped}/{total}マス正解、{goal}',
+  'game.peekPhase': 'のぞき見',
+  'game.peekHint': 'カードを2〜3枚めくって位置を覚えましょう！',
+  'game.selectPhase': 'カード選択',
+  'game.selectHint': '対戦するカードを選びましょう！',
+  'game.finishPeek': 'のぞき見終了',
+  'game.waiting': '{name}の行動を待っています...',
+  'game.log': 'ログ',
+  'phase.PEEK': 'のぞき見',
+  'phase.SELECT': 'カード選択',
+  'phase.QUIZ': 'クイズ対戦',
+
+  'gameOver.winner': '{name}の勝利！',
+  'gameOver.shared': '{names}の同時優勝！',
+  'gameOver.draw': '引き分け！',
+  'gameOver.drawDetail': 'めくれるカードがなくなり、勝負がつきませんでした。',
+  'gameOver.playoffShared': '延長戦でも決着がつかず、同時優勝です。',
+  'gameOver.tieBreak.POINTS': '同時ビンゴ！得点で勝負を決めました。',
+  'gameOver.tieBreak.SPEED': '同時ビンゴ！いちばん速く正解した人の勝ち。',
+  'gameOver.tieBreak.TURN_ORDER': '同時ビンゴ！手番順で勝負を決めました。',
+  'gameOver.tieBreak.SHARED': '同時ビンゴ！そろった全員の優勝です。',
+  'gameOver.tieBreak.PLAYOFF': '同時ビンゴ！延長戦で勝負を決めました。',
+  'gameOver.subtitle': 'ナイスゲーム！',
+  'gameOver.seed': 'シード',
+  'gameOver.copyLink': 'リンクをコピー',
+  'gameOver.copied': 'コピーしました',
+  'gameOver.sharePrompt': 'このリンクを共有してください',
+  'gameOver.report': 'レポート',
+  'gameOver.replay': 'リプレイ',
+  'gameOver.playAgain': 'もう一度',
+  'gameOver.standings': '順位表を見る',
+  'gameOver.xp': '+{n} XP',
+  'gameOver.levelUp': 'レベルアップ！',
+  'gameOver.leaveRoom': '部屋を出る',
+
+  'card.revealed': '{n}番 {face}、正解済み',
+  'card.peeked': '{n}番 {face}、のぞき見中',
+  'card.hidden': '{n}番 裏向き',
+  'card.selectable': '{n}番 裏向き、選択可能',
+
+  'quiz.turn': 'ターン',
+  'quiz.status': '状況',
+  'quiz.submitted': '回答済み',
+  'quiz.thinking': '考え中',
+  'quiz.typedPlaceholder': '音（読み）をハングルで入力',
+  'quiz.submit': '送信',
+  'quiz.answerIs': '正解：{answer}',
+  'quiz.options': '選択肢',
+  'quiz.option': '{n}番 {label}',
+  'quiz.optionCorrect': '{n}番 {label}、正解',
+  'quiz.optionWrong': '{n}番 {label}、あなたの誤答',
+  'quiz.seatOption': '{name} {n}番 {label}',
+  'quiz.me': '自分',
+  'quiz.ownKeys': 'それぞれのキーで答えてください',
+
+  'announce.draft': 'ドラフト：漢字を選んでボードに配置してください。',
+  'announce.myTurn': 'あなたの番です。',
+  'announce.turn': '{name}の番です。',
+  'announce.peek': 'のぞき見：矢印キーで移動し、Enterでカードをめくります。{n}秒。',
+  'announce.select': '対戦するカードを選んでください。矢印キーで移動、Enterで選択。',
+  'announce.quiz': 'クイズ：{question} {prompt}。{how} {n}秒。',
+  'announce.quizTyped': '読みを入力してください。',
+  'announce.quizKeys': '数字キーで答えてください。',
+  'announce.results': '正解は{answer}。{results}。',
+  'announce.timer': '残り{n}秒です。',
+  'announce.gameOver': 'ゲーム終了。{name}の勝利！',
+  'announce.gameOverShared': 'ゲーム終了。{names}の同時優勝！',
+  'announce.gameOverNoWinner': 'ゲーム終了。引き分けです。',
+
+  'privacy.handOver': '端末を渡してください',
+  'privacy.turn': '{name}の番',
+  'privacy.ready': '準備完了',
+
+  'bonus.gauge': 'ボーナス {gauge}/{max}',
+  'bonus.gaugeShield': 'ボーナス {gauge}/{max}・シールドあり',
+
+  'draft.title': 'ドラフト',
+  'draft.pick': 'PICK',
+  'draft.placeHint': '空いているマスを押して漢字を配置しましょう！',
+  'draft.chooseHint': 'プールから配置する漢字を選びましょう！',
+  'draft.waiting': '{name}の配置を待っています...',
+  'draft.autoFill': '残りを自動配置',
+  'draft.pool': '漢字プール',
+
+  'lobby.room': 'オンラインルーム',
+  'lobby.connecting': 'サーバーに接続中...',
+  'lobby.reconnecting': 'サーバーに再接続中...',
+  'lobby.shareCode': '友だちに部屋コードを教えましょう。',
+  'lobby.emptySeat': '空席',
+  'lobby.start': 'ゲーム開始',
+  'lobby.waitingPlayers': '参加者を待っています',
+  'lobby.waitingHost': 'ホストの開始を待っています...',
+  'lobby.leave': '退出',
+
+  'study.title': '学習記録',
+  'study.clear': '記録を消す',
+  'study.clearConfirm': '{name}の学習記録をすべて消しますか？',
+  'study.mastery': '習熟度',
+  'study.seenCount': '{n}字 学習',
+  'study.gradeSummary': '習得 {mastered}・苦手 {weak}・復習 {due} / {total}',
+  'study.queue': '復習する漢字',
+  'study.empty': '今復習する漢字はありません。ゲームをすると記録がたまります。',
+  'mastery.NEW': '新しい漢字',
+  'mastery.WEAK': '苦手',
+  'mastery.LEARNING': '学習中',
+  'mastery.MASTERED': '習得',
+
+  'provider.BUNDLED': '内蔵リスト',
+  'provider.FILE': 'インポートしたファイル',
+  'provider.GEMINI': 'Gemini',
+  'provider.OPENAI': 'OpenAI互換サーバー',
+  'providerHint.BUNDLED': '級ごとの配定漢字から選びます。オフラインでも使えます。',
+  'providerHint.FILE': '自作の漢字リスト（JSON・CSV）でボードを作ります。',
+  'providerHint.GEMINI': 'Google Geminiが級に合った漢字を選びます。',
+  'providerHint.OPENAI': 'OpenAI互換APIが漢字を選びます。ローカルLLMサーバーも使えます。',
+
+  'content.title': '漢字ソース',
+  'content.apiKey': 'APIキー',
+  'content.apiKeyOptional': 'APIキー（任意）',
+  'content.model': 'モデル',
+  'content.baseUrl': 'サーバーURL',
+  'content.keyNotice': 'APIキーはこのブラウザにだけ保存され、ゲームサーバーには送られません。',
+  'content.notReady': '設定が終わっていないため、内蔵リストを使います。',
+  'content.fallback': '{n}秒以内に応答がないか漢字が足りない場合は、内蔵リストで補います。',
+  'content.fileImport': 'JSON・CSVファイルをインポート',
+  'content.fileFormat': '形式：[{ "char": "天", "hun": "하늘", "eum": "천", "grade": "7급" }]。級のない漢字はすべての級で出ます。',
+  'content.fileLoaded': '{name} · {n}字',
+  'content.fileRemove': 'ファイルを削除',
+  'content.fileNone': 'インポートしたファイルはありません。',
+  'content.pools': '保存した漢字',
+  'content.poolsHint': '級ごとに保存した漢字からすぐにボードを作り、少なくなるとバックグラウンドで追加します。更新するとその級の漢字をすべて入れ替えます。',
+  'content.poolCount': '{n}字',
+  'content.refresh': '{grade}を更新',
+
+  'wordList.title': '単語帳',
+  'wordList.new': '新しい単語帳',
+  'wordList.import': 'インポート',
+  'wordList.exportJson': 'JSONで書き出す',
+  'wordList.exportCsv': 'CSVで書き出す',
+  'wordList.delete': '単語帳を削除',
+  'wordList.deleteConfirm': '単語帳「{name}」を削除しますか？',
+  'wordList.none': '単語帳がありません。新しく作るか、CSV・JSONファイルをインポートしてください。',
+  'wordList.name': '名前',
+  'wordList.count': '{n}字',
+  'wordList.char': '漢字',
+  'wordList.hun': '訓（意味）',
+  'wordList.eum': '音',
+  'wordList.gloss': '英語の意味',
+  'wordList.grade': '級',
+  'wordList.add': '追加',
+  'wordList.save': '保存',
+  'wordList.cancel': 'キャンセル',
+  'wordList.edit': '{char}を編集',
+  'wordList.remove': '{char}を削除',
+  'wordList.imported': '{name}から{n}字をインポートしました。',
+  'wordList.formatHint': 'CSVの列：char, hun, eum, gloss, grade（見出し行は任意）。JSON：[{ "char": "天", "hun": "하늘", "eum": "천" }]',
+
+  'validation.notHan': '漢字1文字ではありません',
+  'validation.badEum': '音はハングル1音節にしてください',
+  'validation.hunHasEum': '訓の後ろの音を取り除きました',
+  'validation.emptyHun': '訓が空です',
+  'validation.notList': '漢字のリストではありません',
+  'validation.notJson': 'JSON形式ではありません',
+  'validation.duplicate': 'すでにある漢字です',
+  'validation.filledFromDataset': '訓と音が空だったため、内蔵データで補いました',
+
+  'report.title': '試合レポート',
+  'report.print': '印刷',
+  'report.grade': '級',
+  'report.turns': 'ターン',
+  'report.turnCount': '{n}ターン',
+  'report.seed': 'シード',
+  'report.player': 'プレイヤー',
+  'report.accuracy': '正答率',
+  'report.counts': '正解 / 不正解 / 時間切れ',
+  'report.averageAnswer': '平均回答時間',
+  'report.points': '得点',
+  'report.lines': '完成した列（ターン）',
+  'report.hanjaTitle': '出題された漢字・間違いの多い順（○ 正解・✕ 不正解・⏱ 時間切れ）',
+  'report.noQuestions': '出題された問題はありません。',
+  'report.hanja': '漢字',
+  'report.turn': 'ターン',
+  'report.csvTurn': 'ターン',
+  'report.csvHanja': '漢字',
+  'report.csvHunEum': '訓音',
+  'report.csvGrade': '級',
+  'report.csvQuizType': '問題の種類',
+  'report.csvBoard': '出題ボード',
+  'report.csvPlayer': 'プレイヤー',
+  'report.csvResult': '結果',
+  'report.csvSeconds': '回答時間（秒）',
+  'report.csvPoints': '得点',
+  'report.csvLines': '完成した列',
+  'line.row': '{n}行',
+  'line.column': '{n}列',
+  'line.diagonalDown': '対角線 ↘',
+  'line.diagonalUp': '対角線 ↙',
+
+  'replay.title': 'リプレイ',
+  'replay.seed': 'シード',
+  'replay.prevTurn': '前のターン',
+  'replay.prev': '前へ',
+  'replay.next': '次へ',
+  'replay.nextTurn': '次のターン',
+  'replay.draft': 'ドラフト',
+  'replay.turnOf': '{turn} / {last} ターン',
+  'replay.lines': '{n}列',
+  'replay.shield': 'シールド',
+
+  'log.gameStart': 'ゲーム開始！{level}級、{size}×{size}。',
+  'log.draftStart': 'ドラフト開始！漢字をボードに配置してください。',
+  'log.draftDone': 'ドラフト完了！対戦を始めます。',
+  'log.turn': '{name}の番です。',
+  'log.autoSelect': '時間切れ！ランダムなカードが選ばれました。',
+  'log.peek': '{name}: カードをのぞき見',
+  'log.select': '{name}: {char}を選択 · {quiz}',
+  'log.selectHidden': '{name}: カードを選択 · {quiz}',
+  'log.answered': '{name}: 回答済み',
+  'log.answer.CORRECT': '{name}: 正解（{seconds}秒）',
+  'log.answer.WRONG': '{name}: 不正解（{seconds}秒）',
+  'log.answer.TIMEOUT': '{name}: 時間切れ',
+  'log.flip': '{name}: {char}のカードをめくった',
+  'log.line': '{name}: {line}完成！',
+  'log.shieldGained': '{name}がシールドを獲得！',
+  'log.shieldBlocked': '{name}のシールドがペナルティを防ぎました！',
+  'log.penalty': '{name}は不正解のペナルティ！{char}のカードが裏返りました。',
+  'log.winner': '{name}の勝利！',
+  'log.stolen': '{names}がカードを横取り！',
+  'log.score': '得点: {changes}',
+  'log.scoreNone': 'このラウンドは得点の変動なし。',
+  'log.tieBreak.POINTS': '{names}が同時ビンゴ！得点で勝者を決めます。',
+  'log.tieBreak.SPEED': '{names}が同時ビンゴ！いちばん速く正解した人の勝ち。',
+  'log.tieBreak.TURN_ORDER': '{names}が同時ビンゴ！手番順で勝者を決めます。',
+  'log.tieBreak.SHARED': '{names}が同時ビンゴ！全員の優勝です。',
+  'log.tieBreak.PLAYOFF': '{names}が同時ビンゴ！延長戦を始めます。',
+  'log.playoffRound': '延長戦 {n}/{max}ラウンド：一人だけ正解した人がいないので続けます。',
+  'log.sharedWin': '{names}の同時優勝！',
+  'log.draw': 'めくれるカードがありません。引き分け！',
+  'log.validation': '漢字チェック：{repaired}件修正、{rejected}件除外、{toppedUp}件を内蔵データで補充',
+
+  'log.export': 'イベントをJSONで書き出す',
+  'log.filter': 'イベントの種類',
+  'log.player': 'プレイヤー',
+  'log.allPlayers': '全プレイヤー',
+  'log.empty': '表示するイベントはありません。',
+  'logFilter.ALL': 'すべて',
+  'logFilter.TURNS': '手番・選択',
+  'logFilter.ANSWERS': '回答',
+  'logFilter.BOARD': 'ボード',
+  'logFilter.MATCH': '試合'
+};
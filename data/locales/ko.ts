@@ -0,0 +1,444 @@
+// Korean UI text, the source catalog. Every other locale has to provide the same keys.
+// Placeholders in braces are filled in by t() (services/i18n.ts).
+export const ko = {
+  'common.grade': '{level}급',
+  'common.close': '닫기',
+  'common.on': 'ON',
+  'common.off': 'OFF',
+  'common.seconds': '{n}초',
+  'common.me': '나',
+  'common.player': '플레이어',
+  'common.ai': 'AI',
+  'common.back': '돌아가기',
+  'common.skipped': '{n}개 항목을 건너뛰었습니다.',
+  'common.repaired': '{n}개 항목은 기본 데이터로 보충했습니다.',
+
+  'app.title': '한빙고',
+  'app.subtitle': '실시간 한자 배틀 로얄',
+
+  'setup.savedGame': '진행 중인 게임이 있습니다',
+  'setup.savedAt': '{time}에 저장됨',
+  'setup.continue': '이어하기',
+  'setup.newGame': '새로 시작',
+  'setup.language': 'Language',
+  'setup.level': 'Challenge Level',
+  'setup.gradesNeedSource': '{level}급부터는 단어장이나 다른 한자 출처가 있어야 고를 수 있습니다. 기본 데이터에는 아직 이 급수들의 전체 목록이 없습니다.',
+  'setup.players': 'Players',
+  'setup.playerCount': '{n}인',
+  'setup.board': 'Board',
+  'setup.seats': 'Seats',
+  'setup.human': '사람',
+  'setup.ai': 'AI',
+  'setup.profile': 'P{n} 프로필',
+  'setup.guest': '게스트',
+  'setup.goal': 'Goal',
+  'setup.winLines': '승리 조건',
+  'setup.lineCount': '{n}줄',
+  'setup.mode': 'Mode',
+  'setup.quiz': 'Quiz',
+  'setup.scoring': '점수 규칙',
+  'setup.tieBreak': '동시 빙고',
+  'setup.seed': 'Seed',
+  'setup.seedPlaceholder': '비워두면 무작위',
+  'setup.seedHint': '같은 시드와 설정이면 어디서나 같은 보드로 시작합니다. 복습 가중치와 외부 한자 출처는 꺼집니다.',
+  'setup.match': '경기 방식',
+  'setup.bestOf': '판 수',
+  'setup.roundRobinHint': '모든 좌석이 서로 한 번씩 1:1로 겨룹니다.',
+  'setup.tournamentInProgress': '토너먼트 진행 중 · {n}/{total}경기',
+  'setup.tournamentDone': '토너먼트 종료 · {n}경기',
+  'setup.standings': '순위표',
+  'setup.reducedMotion': '움직임 줄이기',
+  'setup.content': '한자 출처',
+  'setup.wordList': '단어장',
+  'setup.noWordList': '급수에서 무작위로',
+  'setup.editWordLists': '단어장 편집',
+  'setup.listCount': '{n}자 / 보드 {needed}칸',
+  'setup.autoFill': '모자란 칸은 {level}급 한자로 채우기',
+  'setup.study': '학습 기록 · 복습',
+  'setup.profiles': '플레이어 프로필',
+  'setup.profileCount': '{n}명',
+  'setup.online': 'Online',
+  'setup.createRoom': '방 만들기',
+  'setup.roomCode': '코드',
+  'setup.joinRoom': '참가',
+  'setup.start': 'GAME START',
+
+  'mode.STANDARD': '일반 (랜덤 배치)',
+  'mode.DRAFT': '드래프트 (직접 배치)',
+
+  'winPattern.LINES': '줄 빙고',
+  'winPattern.FOUR_CORNERS': '네 모서리',
+  'winPattern.X': 'X자',
+  'winPattern.PLUS': '십자',
+  'winPattern.BLACKOUT': '전체',
+  'goal.lines': '{done}/{total} 줄',
+  'goal.pattern': '{pattern} {done}/{total}',
+
+  'difficulty.EASY': '쉬움',
+  'difficulty.NORMAL': '보통',
+  'difficulty.HARD': '어려움',
+
+  'scoring.orderBonus': '먼저 맞히기 보너스',
+  'scoring.speedBonus': '빠른 답 보너스',
+  'scoring.wrongPenalty': '오답 감점',
+  'scoring.steal': '뺏기 규칙',
+  'scoringHint.orderBonus': '1·2·3번째로 맞힌 사람에게 5·3·1점을 더 줍니다.',
+  'scoringHint.speedBonus': '5초 안에 맞히면 남은 초만큼 점수를 더 줍니다.',
+  'scoringHint.wrongPenalty': '틀린 답은 5점을 잃습니다(0점 아래로는 내려가지 않음). 시간 초과는 감점되지 않습니다.',
+  'scoringHint.steal': '차례인 사람이 맞히면 그 사람만 카드를 뒤집고, 틀리면 맞힌 다른 사람이 뺏어 뒤집습니다.',
+  'tieBreak.POINTS': '점수',
+  'tieBreak.SPEED': '빠른 답',
+  'tieBreak.TURN_ORDER': '차례 순',
+  'tieBreak.SHARED': '공동 우승',
+  'tieBreak.PLAYOFF': '연장전',
+
+  'tournament.SINGLE': '한 판',
+  'tournament.BEST_OF': '다판 승부',
+  'tournament.ROUND_ROBIN': '리그전',
+  'tournament.bestOf': '{n}판 승부',
+  'tournament.progress': '{n}/{total}경기',
+  'tournament.champion': '{name} 최종 우승!',
+  'tournament.rank': '{n}위',
+  'tournament.played': '경기',
+  'tournament.record': '승 / 공동 / 무 / 패',
+  'tournament.standingPoints': '승점',
+  'tournament.games': '경기 결과',
+  'tournament.gameNumber': '{n}경기',
+  'tournament.next': '{n}경기 시작: {names}',
+  'tournament.abandon': '그만두기',
+  'tournament.abandonConfirm': '토너먼트를 그만둘까요? 순위표가 지워집니다.',
+  'tournament.finish': '토너먼트 끝내기',
+  'tournament.replaceConfirm': '진행 중인 토너먼트를 지우고 새로 시작할까요?',
+
+  'profiles.title': '플레이어 프로필',
+  'profiles.name': '이름',
+  'profiles.namePlaceholder': '새 프로필 이름',
+  'profiles.color': '아바타 색',
+  'profiles.add': '추가',
+  'profiles.delete': '프로필 삭제',
+  'profiles.deleteConfirm': '{name} 프로필과 기록을 삭제할까요?',
+  'profiles.empty': '아직 프로필이 없습니다. 프로필을 만들면 게임마다 기록과 경험치가 쌓입니다.',
+  'profiles.level': 'Lv.{n}',
+  'profiles.games': '게임',
+  'profiles.wins': '우승',
+  'profiles.bestStreak': '최다 연승',
+  'profiles.locked': '잠김',
+  'achievement.firstWin': '첫 우승',
+  'achievementHint.firstWin': '게임에서 처음으로 우승하기',
+  'achievement.threeLines': '세 줄 빙고',
+  'achievementHint.threeLines': '한 게임에서 빙고 3줄 완성하기',
+  'achievement.perfect': '{level}급 만점',
+  'achievementHint.perfect': '{level}급 게임에서 {n}문제 이상 하나도 틀리지 않기',
+  'achievement.winStreak': '연승 행진',
+  'achievementHint.winStreak': '{n}게임 연속 우승하기',
+  'achievement.answerStreak': '척척박사',
+  'achievementHint.answerStreak': '{n}문제 연속 정답',
+  'achievement.regular': '단골손님',
+  'achievementHint.regular': '{n}게임 플레이하기',
+  'achievement.level': '한자 고수',
+  'achievementHint.level': '레벨 {n} 달성하기',
+
+  'aiLevel.BEGINNER': '초급',
+  'aiLevel.INTERMEDIATE': '중급',
+  'aiLevel.EXPERT': '고급',
+
+  'quizType.HANJA_TO_HUNEUM': '훈음',
+  'quizType.HUNEUM_TO_HANJA': '한자 찾기',
+  'quizType.HANJA_TO_EUM': '음',
+  'quizType.HANJA_TO_HUN': '훈',
+  'quizType.TYPED_EUM': '음 쓰기',
+  'quizType.WORD_READING': '한자어 독음',
+  'quizType.RADICAL': '부수',
+  'quizType.STROKES': '획수',
+  'quizQuestion.HANJA_TO_HUNEUM': '다음 한자의 훈(뜻)과 음(소리)은?',
+  'quizQuestion.HUNEUM_TO_HANJA': '다음 뜻과 소리에 맞는 한자는?',
+  'quizQuestion.HANJA_TO_EUM': '다음 한자의 음(소리)은?',
+  'quizQuestion.HANJA_TO_HUN': '다음 한자의 훈(뜻)은?',
+  'quizQuestion.TYPED_EUM': '다음 한자의 음(소리)을 쓰세요.',
+  'quizQuestion.WORD_READING': '다음 한자어의 독음은?',
+  'quizQuestion.RADICAL': '다음 한자의 부수는?',
+  'quizQuestion.STROKES': '다음 한자의 총 획수는?',
+
+  'outcome.CORRECT': '정답',
+  'outcome.WRONG': '오답',
+  'outcome.TIMEOUT': '시간 초과',
+
+  'error.needHuman': '사람 플레이어가 최소 한 명 필요합니다.',
+  'error.notEnoughHanja': '{level}급 한자가 부족해 보드를 만들 수 없습니다.',
+  'error.roomNotFound': '방을 찾을 수 없습니다.',
+  'error.joinFirst': '먼저 방에 참가하세요.',
+  'error.badRequest': '잘못된 요청입니다.',
+  'error.roomStarted': '이미 시작된 방입니다.',
+  'error.roomFull': '방이 가득 찼습니다.',
+  'error.seatNotFound': '자리를 찾을 수 없습니다.',
+  'error.hostOnly': '방장만 게임을 시작할 수 있습니다.',
+  'error.gameInProgress': '이미 게임이 진행 중입니다.',
+  'error.waitForSeats': '모든 자리가 찰 때까지 기다려주세요.',
+  'error.listTooShort': '{name} 단어장은 {n}자라서 {needed}칸 보드를 채울 수 없습니다. 자동 채우기를 켜거나 보드를 줄여 주세요.',
+
+  'loading.title': '대결 준비 중...',
+  'loading.provider': '{name}에서 한자를 받아 오고 있습니다.',
+  'loading.local': '{level}급 배정한자로 보드를 만들고 있습니다.',
+
+  'game.turn': 'TURN',
+  'game.currentTurn': 'Current Turn',
+  'game.timeLeft': '남은 시간 {n}초',
+  'game.reconnecting': '재연결 중...',
+  'game.myBoard': '나의 보드',
+  'game.points': '{n}점',
+  'game.playoff': '연장전 {n}/{max}',
+  'game.playerBoard': '{name}의 보드',
+  'game.spectating': '{name}의 보드 (관전 중)',
+  'game.miniBoard': '{name}의 보드: {flipped}/{total}칸 맞힘, {goal}',
+  'game.peekPhase': 'PEEK PHASE',
+  'game.peekHint': '카드 2~3장을 뒤집어 위치를 기억하세요!',
+  'game.selectPhase': 'SELECT PHASE',
+  'game.selectHint': '대결할 카드를 선택하세요!',
+  'game.finishPeek': '미리보기 완료',
+  'game.waiting': '{name}의 행동을 기다리는 중...',
+  'game.log': 'Game Log',
+  'phase.PEEK': '미리보기',
+  'phase.SELECT': '카드선택',
+  'phase.QUIZ': '퀴즈대결',
+
+  'gameOver.winner': '{name} 승리!',
+  'gameOver.shared': '{names} 공동 우승!',
+  'gameOver.draw': '무승부!',
+  'gameOver.drawDetail': '더 뒤집을 카드가 없어 승부를 가리지 못했습니다.',
+  'gameOver.playoffShared': '연장전에서도 승부가 나지 않아 공동 우승입니다.',
+  'gameOver.tieBreak.POINTS': '동시 빙고! 점수로 승부를 가렸습니다.',
+  'gameOver.tieBreak.SPEED': '동시 빙고! 더 빨리 맞힌 사람이 이겼습니다.',
+  'gameOver.tieBreak.TURN_ORDER': '동시 빙고! 차례 순으로 승부를 가렸습니다.',
+  'gameOver.tieBreak.SHARED': '동시 빙고! 함께 우승했습니다.',
+  'gameOver.tieBreak.PLAYOFF': '동시 빙고! 연장전 끝에 승부를 가렸습니다.',
+  'gameOver.subtitle': '멋진 승부였습니다!',
+  'gameOver.seed': '시드',
+  'gameOver.copyLink': '링크 복사',
+  'gameOver.copied': '복사됨',
+  'gameOver.sharePrompt': '이 링크를 공유하세요',
+  'gameOver.report': '보고서',
+  'gameOver.replay': '다시 보기',
+  'gameOver.playAgain': '다시 하기',
+  'gameOver.standings': '순위표 보기',
+  'gameOver.xp': '+{n} XP',
+  'gameOver.levelUp': '레벨 업!',
+  'gameOver.leaveRoom': '방 나가기',
+
+  'card.revealed': '{n}번 {face}, 맞힌 카드',
+  'card.peeked': '{n}번 {face}, 엿보는 중',
+  'card.hidden': '{n}번 뒷면',
+  'card.selectable': '{n}번 뒷면, 선택 가능',
+
+  'quiz.turn': 'Turn',
+  'quiz.status': 'Status',
+  'quiz.submitted': '제출 완료',
+  'quiz.thinking': '생각 중',
+  'quiz.typedPlaceholder': '음(소리)을 입력하세요',
+  'quiz.submit': '제출',
+  'quiz.answerIs': '정답: {answer}',
+  'quiz.options': '보기',
+  'quiz.option': '{n}번 {label}',
+  'quiz.optionCorrect': '{n}번 {label}, 정답',
+  'quiz.optionWrong': '{n}번 {label}, 내 오답',
+  'quiz.seatOption': '{name} {n}번 {label}',
+  'quiz.me': 'Me',
+  'quiz.ownKeys': '각자의 키로 답하세요',
+
+  'announce.draft': '드래프트: 한자를 골라 보드에 배치하세요.',
+  'announce.myTurn': '내 차례입니다.',
+  'announce.turn': '{name}의 차례입니다.',
+  'announce.peek': '미리보기: 방향키로 이동하고 Enter로 카드를 뒤집어 보세요. {n}초.',
+  'announce.select': '대결할 카드를 고르세요. 방향키로 이동, Enter로 선택.',
+  'announce.quiz': '퀴즈: {question} {prompt}. {how} {n}초.',
+  'announce.quizTyped': '음을 입력하세요.',
+  'announce.quizKeys': '숫자 키로 답하세요.',
+  'announce.results': '정답은 {answer}. {results}.',
+  'announce.timer': '{n}초 남았습니다.',
+  'announce.gameOver': '게임 종료. {name} 승리!',
+  'announce.gameOverShared': '게임 종료. {names} 공동 우승!',
+  'announce.gameOverNoWinner': '게임 종료. 무승부입니다.',
+
+  'privacy.handOver': '기기를 넘겨주세요',
+  'privacy.turn': '{name}의 차례',
+  'privacy.ready': '준비 완료',
+
+  'bonus.gauge': '보너스 {gauge}/{max}',
+  'bonus.gaugeShield': '보너스 {gauge}/{max} · 방패 보유',
+
+  'draft.title': '드래프트',
+  'draft.pick': 'PICK',
+  'draft.placeHint': '빈 칸을 눌러 한자를 배치하세요!',
+  'draft.chooseHint': '풀에서 배치할 한자를 고르세요!',
+  'draft.waiting': '{name}의 배치를 기다리는 중...',
+  'draft.autoFill': '남은 한자 자동 배치',
+  'draft.pool': 'Hanja Pool',
+
+  'lobby.room': 'Online Room',
+  'lobby.connecting': '서버에 연결하는 중...',
+  'lobby.reconnecting': '서버에 다시 연결하는 중...',
+  'lobby.shareCode': '친구에게 방 코드를 알려주세요.',
+  'lobby.emptySeat': '빈 자리',
+  'lobby.start': 'GAME START',
+  'lobby.waitingPlayers': '참가자를 기다리는 중',
+  'lobby.waitingHost': '방장이 게임을 시작하기를 기다리는 중...',
+  'lobby.leave': '나가기',
+
+  'study.title': '학습 기록',
+  'study.clear': '기록 지우기',
+  'study.clearConfirm': '{name}의 학습 기록을 모두 지울까요?',
+  'study.mastery': 'Mastery',
+  'study.seenCount': '{n}자 학습',
+  'study.gradeSummary': '익힘 {mastered} · 약함 {weak} · 복습 {due} / {total}',
+  'study.queue': '복습할 한자',
+  'study.empty': '지금 복습할 한자가 없습니다. 게임을 하면 기록이 쌓입니다.',
+  'mastery.NEW': '새 한자',
+  'mastery.WEAK': '약함',
+  'mastery.LEARNING': '학습 중',
+  'mastery.MASTERED': '익힘',
+
+  'provider.BUNDLED': '내장 배정한자',
+  'provider.FILE': '가져온 파일',
+  'provider.GEMINI': 'Gemini',
+  'provider.OPENAI': 'OpenAI 호환 서버',
+  'providerHint.BUNDLED': '한국어문회 배정한자에서 뽑습니다. 인터넷 연결이 필요 없습니다.',
+  'providerHint.FILE': '직접 만든 한자 목록(JSON·CSV)으로 보드를 채웁니다.',
+  'providerHint.GEMINI': 'Google Gemini가 급수에 맞는 한자를 고릅니다.',
+  'providerHint.OPENAI': 'OpenAI 호환 API로 한자를 고릅니다. 로컬 LLM 서버도 됩니다.',
+
+  'content.title': '한자 출처',
+  'content.apiKey': 'API 키',
+  'content.apiKeyOptional': 'API 키 (선택)',
+  'content.model': '모델',
+  'content.baseUrl': '서버 주소',
+  'content.keyNotice': 'API 키는 이 브라우저에만 저장되고 게임 서버로 보내지지 않습니다.',
+  'content.notReady': '설정이 끝나지 않아 내장 배정한자를 사용합니다.',
+  'content.fallback': '{n}초 안에 응답이 없거나 한자가 모자라면 내장 배정한자로 채웁니다.',
+  'content.fileImport': 'JSON·CSV 파일 가져오기',
+  'content.fileFormat': '[{ "char": "天", "hun": "하늘", "eum": "천", "grade": "7급" }] 형식입니다. 급수가 없는 한자는 모든 급수에서 나옵니다.',
+  'content.fileLoaded': '{name} · {n}자',
+  'content.fileRemove': '파일 지우기',
+  'content.fileNone': '가져온 파일이 없습니다.',
+  'content.pools': '저장된 한자',
+  'content.poolsHint': '급수마다 받아 둔 한자에서 보드를 바로 뽑고, 모자라면 게임 중에 더 받아 둡니다. 새로 받기를 누르면 그 급수의 한자를 모두 바꿉니다.',
+  'content.poolCount': '{n}자',
+  'content.refresh': '{grade} 새로 받기',
+
+  'wordList.title': '단어장',
+  'wordList.new': '새 단어장',
+  'wordList.import': '가져오기',
+  'wordList.exportJson': 'JSON 내보내기',
+  'wordList.exportCsv': 'CSV 내보내기',
+  'wordList.delete': '단어장 지우기',
+  'wordList.deleteConfirm': '{name} 단어장을 지울까요?',
+  'wordList.none': '단어장이 없습니다. 새로 만들거나 CSV·JSON 파일을 가져오세요.',
+  'wordList.name': '이름',
+  'wordList.count': '{n}자',
+  'wordList.char': '한자',
+  'wordList.hun': '훈',
+  'wordList.eum': '음',
+  'wordList.gloss': '영어 뜻',
+  'wordList.grade': '급수',
+  'wordList.add': '추가',
+  'wordList.save': '저장',
+  'wordList.cancel': '취소',
+  'wordList.edit': '{char} 고치기',
+  'wordList.remove': '{char} 빼기',
+  'wordList.imported': '{name}에서 {n}자를 가져왔습니다.',
+  'wordList.formatHint': 'CSV 열: char, hun, eum, gloss, grade (첫 줄 머리글은 선택). JSON: [{ "char": "天", "hun": "하늘", "eum": "천" }]',
+
+  'validation.notHan': '한자 한 글자가 아닙니다',
+  'validation.badEum': '음은 한글 한 음절이어야 합니다',
+  'validation.hunHasEum': '훈 뒤의 음을 떼어 냈습니다',
+  'validation.emptyHun': '훈이 비어 있습니다',
+  'validation.notList': '한자 목록이 아닙니다',
+  'validation.notJson': 'JSON 형식이 아닙니다',
+  'validation.duplicate': '이미 있는 한자입니다',
+  'validation.filledFromDataset': '훈과 음이 비어 있어 기본 데이터로 채웠습니다',
+
+  'report.title': '경기 보고서',
+  'report.print': '인쇄',
+  'report.grade': '급수',
+  'report.turns': '턴',
+  'report.turnCount': '{n}턴',
+  'report.seed': '시드',
+  'report.player': '플레이어',
+  'report.accuracy': '정답률',
+  'report.counts': '정답 / 오답 / 시간 초과',
+  'report.averageAnswer': '평균 응답',
+  'report.points': '점수',
+  'report.lines': '완성한 줄 (턴)',
+  'report.hanjaTitle': '출제된 한자 · 많이 틀린 순 (○ 정답 · ✕ 오답 · ⏱ 시간 초과)',
+  'report.noQuestions': '출제된 문제가 없습니다.',
+  'report.hanja': '한자',
+  'report.turn': '턴',
+  'report.csvTurn': '턴',
+  'report.csvHanja': '한자',
+  'report.csvHunEum': '훈음',
+  'report.csvGrade': '급수',
+  'report.csvQuizType': '문제 유형',
+  'report.csvBoard': '출제 보드',
+  'report.csvPlayer': '플레이어',
+  'report.csvResult': '결과',
+  'report.csvSeconds': '응답 시간(초)',
+  'report.csvPoints': '점수',
+  'report.csvLines': '완성한 줄',
+  'line.row': '{n}행',
+  'line.column': '{n}열',
+  'line.diagonalDown': '대각선 ↘',
+  'line.diagonalUp': '대각선 ↙',
+
+  'replay.title': '다시 보기',
+  'replay.seed': '시드',
+  'replay.prevTurn': '이전 턴',
+  'replay.prev': '이전',
+  'replay.next': '다음',
+  'replay.nextTurn': '다음 턴',
+  'replay.draft': '드래프트',
+  'replay.turnOf': '{turn} / {last} 턴',
+  'replay.lines': '{n}줄',
+  'replay.shield': '방패',
+
+  'log.gameStart': '게임 시작! {level}급, {size}×{size}.',
+  'log.draftStart': '드래프트 시작! 한자를 보드에 배치하세요.',
+  'log.draftDone': '드래프트 완료! 대결을 시작합니다.',
+  'log.turn': '{name}의 차례입니다.',
+  'log.autoSelect': '시간 초과! 랜덤 카드가 선택되었습니다.',
+  'log.peek': '{name}: 카드 엿보기',
+  'log.select': '{name}: {char} 선택 · {quiz}',
+  'log.selectHidden': '{name}: 카드 선택 · {quiz}',
+  'log.answered': '{name}: 답변 완료',
+  'log.answer.CORRECT': '{name}: 정답 ({seconds}초)',
+  'log.answer.WRONG': '{name}: 오답 ({seconds}초)',
+  'log.answer.TIMEOUT': '{name}: 시간 초과',
+  'log.flip': '{name}: {char} 카드 뒤집기',
+  'log.line': '{name}: {line} 완성!',
+  'log.shieldGained': '{name} 방패 획득!',
+  'log.shieldBlocked': '{name}의 방패가 페널티를 막았습니다!',
+  'log.penalty': '{name} 오답 페널티! {char} 카드가 다시 뒤집혔습니다.',
+  'log.winner': '{name} 승리!',
+  'log.stolen': '{names} 카드 뺏기 성공!',
+  'log.score': '점수: {changes}',
+  'log.scoreNone': '이번 라운드는 점수 변동이 없습니다.',
+  'log.tieBreak.POINTS': '{names} 동시 빙고! 점수로 승자를 가립니다.',
+  'log.tieBreak.SPEED': '{names} 동시 빙고! 더 빨리 맞힌 사람이 이깁니다.',
+  'log.tieBreak.TURN_ORDER': '{names} 동시 빙고! 차례 순으로 승자를 가립니다.',
+  'log.tieBreak.SHARED': '{names} 동시 빙고! 함께 우승합니다.',
+  'log.tieBreak.PLAYOFF': '{names} 동시 빙고! 연장전을 시작합니다.',
+  'log.playoffRound': '연장전 {n}/{max}라운드: 혼자 맞힌 사람이 없어 계속합니다.',
+  'log.sharedWin': '{names} 공동 우승!',
+  'log.draw': '더 뒤집을 카드가 없습니다. 무승부!',
+  'log.validation': '한자 검증: {repaired}개 보정, {rejected}개 제외, {toppedUp}개 기본 데이터로 보충',
+
+  'log.export': '이벤트 JSON 내보내기',
+  'log.filter': '이벤트 종류',
+  'log.player': '플레이어',
+  'log.allPlayers': '모든 플레이어',
+  'log.empty': '표시할 이벤트가 없습니다.',
+  'logFilter.ALL': '전체',
+  'logFilter.TURNS': '차례 · 선택',
+  'logFilter.ANSWERS': '답변',
+  'logFilter.BOARD': '보드',
+  'logFilter.MATCH': '경기'
+};
+
+export type MessageKey = keyof typeof ko;
@@ -0,0 +1,185 @@
+import { AILevel, Cell, GameAction, GameSettings, GameState, Grade, HanjaData, Player } from '../types';
+import { getCellLineWeights, getGoalProgress, getLines, getPatternCells } from './board';
+import { getActivePlayer, getDrafterId, getSelectableCells, MAX_PEEKS, selectCard } from './gameEngine';
+import { getCorrectAnswer } from './quiz';
+import { Rng, forkRng, hashToUnit, pickRandom, randomBetween, shuffle } from './random';
+
+// AI decisions for the seat that has to act. Each returns the action to dispatch
+// (or null when there is nothing to do) plus how long the AI "thinks" first.
+// AI randomness comes from a fork of the match seed, so seeded games replay the same way.
+
+export interface AIMove {
+  delay: number; // ms
+  actions: GameAction[];
+}
+
+interface AIProfile {
+  recall: Record<Grade, number>; // Chance of knowing a hanja of that grade
+  memory: number; // Chance of still remembering a peeked cell
+  peeks: number;
+  answerDelay: [number, number]; // ms, when the AI knows the answer
+  strategy: 'RANDOM' | 'LINES' | 'LINES_AND_BLOCK';
+}
+
+export const AI_FINISH_PEEK_DELAY = 1500; // ms after the last peek
+
+export const AI_LEVELS: AILevel[] = ['BEGINNER', 'INTERMEDIATE', 'EXPERT'];
+
+export const AI_PROFILES: Record<AILevel, AIProfile> = {
+  BEGINNER: {
+    recall: { '8급': 0.75, '7급': 0.65, '6급': 0.55, '5급': 0.45, '4급': 0.35, '3급': 0.3, '2급': 0.25, '1급': 0.2 },
+    memory: 0.5,
+    peeks: 2,
+    answerDelay: [3000, 6500],
+    strategy: 'RANDOM'
+  },
+  INTERMEDIATE: {
+    recall: { '8급': 0.9, '7급': 0.85, '6급': 0.8, '5급': 0.7, '4급': 0.6, '3급': 0.5, '2급': 0.45, '1급': 0.4 },
+    memory: 0.8,
+    peeks: 2,
+    answerDelay: [2000, 5000],
+    strategy: 'LINES'
+  },
+  EXPERT: {
+    recall: { '8급': 0.98, '7급': 0.96, '6급': 0.93, '5급': 0.9, '4급': 0.85, '3급': 0.8, '2급': 0.75, '1급': 0.7 },
+    memory: 1,
+    peeks: MAX_PEEKS,
+    answerDelay: [800, 3000],
+    strategy: 'LINES_AND_BLOCK'
+  }
+};
+
+const getProfile = (player: Player): AIProfile => AI_PROFILES[player.aiLevel || 'INTERMEDIATE'];
+
+// One decision's randomness, keyed so two AIs deciding at once do not mirror each other
+const aiRng = (state: GameState, player: Player, decision: string): Rng =>
+  forkRng(state.rngState, `${player.id}:${decision}:${state.turnIndex}:${state.draft?.pickIndex ?? 0}`);
+
+// Whether this AI knows a hanja. Stable for the whole game so strategy and answers agree.
+const knowsHanja = (state: GameState, player: Player, hanja: HanjaData): boolean =>
+  hashToUnit(`${state.seed}:${player.id}:${hanja.char}`) < getProfile(player).recall[hanja.grade || state.settings.grade];
+
+// Peeked cells the AI still remembers (hanja identity is only known for these)
+const rememberedCells = (state: GameState, player: Player): Set<string> => {
+  const { memory } = getProfile(player);
+  return new Set(player.seenCellIds.filter(id => hashToUnit(`${state.seed}:${player.id}:mem:${id}`) < memory));
+};
+
+// How much flipping this cell moves the player toward the goal (0 when it does not help)
+const cellValue = (board: Cell[], settings: GameSettings, index: number): number => {
+  const size = settings.boardSize;
+  if (settings.winPattern === 'LINES') {
+    const lines = getLines(size).filter(line => line.includes(index));
+    const best = Math.max(...lines.map(line => line.filter(i => board[i].isFlipped).length));
+    return best / size + lines.length * 0.01;
+  }
+  if (!getPatternCells(settings.winPattern, size).includes(index)) return 0;
+  const { done, total } = getGoalProgress(board, settings.winPattern, settings.winLines);
+  return 1 + done / total;
+};
+
+// Opponents one flip away from their goal
+const threateningOpponents = (state: GameState, player: Player): Player[] =>
+  state.players.filter(p => {
+    if (p.id === player.id) return false;
+    const { done, total } = getGoalProgress(p.board, state.settings.winPattern, state.settings.winLines);
+    return state.settings.winPattern === 'LINES'
+      ? getLines(state.settings.boardSize).some(line => line.filter(i => !p.board[i].isFlipped).length === 1) && done + 1 >= total
+      : total - done <= 1;
+  });
+
+// Most familiar hanja goes to the cell crossing the most lines
+export const decideDraftPlacement = (state: GameState): AIMove | null => {
+  const draft = state.draft;
+  if (!draft) return null;
+  const drafterId = getDrafterId(draft);
+  const drafter = state.players.find(p => p.id === drafterId);
+  if (!drafter?.isAI) return null;
+  const rng = aiRng(state, drafter, 'draft');
+
+  const slots = draft.slots[drafterId];
+  const weights = getCellLineWeights(state.settings.boardSize);
+  const hanjaId = draft.aiPreferences[drafterId].find(id => !slots.some(s => s?.id === id));
+  const slotIndex = shuffle(slots.map((s, idx) => (s ? -1 : idx)).filter(idx => idx >= 0), rng)
+    .sort((a, b) => weights[b] - weights[a])[0];
+  if (hanjaId === undefined || slotIndex === undefined) return null;
+
+  return {
+    delay: randomBetween(300, 700, rng),
+    actions: [{ type: 'DRAFT_PLACE', playerId: drafterId, placements: [{ hanjaId, slotIndex }] }]
+  };
+};
+
+// Beginners peek at random; stronger AIs look at unknown cells on their most promising lines
+export const decidePeek = (state: GameState): AIMove | null => {
+  const player = getActivePlayer(state);
+  if (!player?.isAI) return null;
+  const profile = getProfile(player);
+  const remembered = rememberedCells(state, player);
+  const rng = aiRng(state, player, 'peek');
+
+  const candidates = shuffle(player.board.filter(c => !c.isFlipped && !remembered.has(c.id)), rng);
+  if (profile.strategy !== 'RANDOM') {
+    candidates.sort((a, b) => cellValue(player.board, state.settings, b.gridIndex) - cellValue(player.board, state.settings, a.gridIndex));
+  }
+  const toPeek = candidates.slice(0, profile.peeks);
+
+  return {
+    delay: randomBetween(1000, 2000, rng),
+    actions: toPeek.map(c => ({ type: 'PEEK', playerId: player.id, cellId: c.id }))
+  };
+};
+
+// Scores each unflipped cell: progress toward the goal, plus confidence in answering the
+// remembered hanja. Experts also "block" by preferring hanja that threatening opponents
+// have already flipped, so the quiz cannot complete their line.
+export const decideSelect = (state: GameState): AIMove | null => {
+  const player = getActivePlayer(state);
+  if (!player?.isAI) return null;
+  const profile = getProfile(player);
+
+  const unrevealed = getSelectableCells(state, player);
+  if (unrevealed.length === 0) return null;
+  const rng = aiRng(state, player, 'select');
+
+  let target = shuffle(unrevealed, rng)[0];
+  if (profile.strategy !== 'RANDOM') {
+    const remembered = rememberedCells(state, player);
+    const threats = profile.strategy === 'LINES_AND_BLOCK' ? threateningOpponents(state, player) : [];
+
+    const score = (cell: Cell): number => {
+      let value = cellValue(player.board, state.settings, cell.gridIndex);
+      if (remembered.has(cell.id)) {
+        value += knowsHanja(state, player, cell.hanja) ? 0.5 : -0.5;
+        const safe = threats.every(t => t.board.some(c => c.hanja.id === cell.hanja.id && c.isFlipped));
+        if (threats.length > 0) value += safe ? 1 : -1;
+      }
+      return value;
+    };
+    target = shuffle(unrevealed, rng).sort((a, b) => score(b) - score(a))[0];
+  }
+
+  const action = selectCard(state, target.hanja.id);
+  return action ? { delay: randomBetween(1000, 2000, rng), actions: [action] } : null;
+};
+
+// Known hanja are answered correctly; unknown ones are a guess (a random option, or the
+// sound of some other character when typing), and take longer
+export const decideAnswer = (state: GameState, playerId: string): AIMove | null => {
+  const quiz = state.quiz;
+  const player = state.players.find(p => p.id === playerId);
+  if (!quiz || !quiz.targetHanja || !player || quiz.answers[playerId]) return null;
+  const [minDelay, maxDelay] = getProfile(player).answerDelay;
+  const rng = aiRng(state, player, 'answer');
+
+  const knows = knowsHanja(state, player, quiz.targetHanja);
+  const guess = quiz.options.length > 0
+    ? pickRandom(quiz.options, rng)!.id
+    : pickRandom(player.board, rng)?.hanja.eum || '?';
+  const optionId = knows ? getCorrectAnswer(quiz) : guess;
+
+  return {
+    delay: knows ? randomBetween(minDelay, maxDelay, rng) : randomBetween(minDelay + 1000, maxDelay + 1000, rng),
+    actions: [{ type: 'ANSWER', playerId, optionId }]
+  };
+};
@@ -0,0 +1,65 @@
+import { GamePhase, GameState } from '../types';
+import { getAnswerOutcome, isTimedPhase } from './gameEngine';
+import { getCorrectLabel } from './quiz';
+import { t } from '../services/i18n';
+
+// Screen-reader announcements: one short sentence for what just changed between two states,
+// as seen by `viewerId`. Read out through a live region, so sighted players lose nothing.
+
+const TIMER_WARNINGS = [5, 3]; // Seconds left worth announcing
+
+const nameOf = (state: GameState, playerId: string, viewerId: string): string =>
+  playerId === viewerId ? t('common.me') : state.players.find(p => p.id === playerId)?.name || playerId;
+
+export const announceChange = (prev: GameState, next: GameState, viewerId: string): string | null => {
+  const active = next.players[next.turnIndex];
+  const isMine = active?.id === viewerId;
+
+  if (next.phase !== prev.phase) {
+    switch (next.phase) {
+      case GamePhase.DRAFT:
+        return t('announce.draft');
+      case GamePhase.TURN_START:
+        return isMine ? t('announce.myTurn') : t('announce.turn', { name: active?.name ?? '' });
+      case GamePhase.PEEK:
+        return isMine ? t('announce.peek', { n: next.timeLeft }) : null;
+      case GamePhase.SELECT:
+        return isMine ? t('announce.select') : null;
+      case GamePhase.QUIZ: {
+        const quiz = next.quiz;
+        if (!quiz) return null;
+        return t('announce.quiz', {
+          question: t(`quizQuestion.${quiz.type}`),
+          prompt: quiz.prompt,
+          how: t(quiz.type === 'TYPED_EUM' ? 'announce.quizTyped' : 'announce.quizKeys'),
+          n: next.timeLeft
+        });
+      }
+      case GamePhase.GAME_OVER: {
+        const winnerIds = next.outcome?.winnerIds ?? [];
+        if (winnerIds.length > 1) {
+          return t('announce.gameOverShared', { names: winnerIds.map(id => nameOf(next, id, viewerId)).join(', ') });
+        }
+        return winnerIds.length === 1
+          ? t('announce.gameOver', { name: nameOf(next, winnerIds[0], viewerId) })
+          : t('announce.gameOverNoWinner');
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Results of the quiz round
+  const quiz = next.quiz;
+  if (quiz?.resultsShown && !prev.quiz?.resultsShown) {
+    const results = next.players
+      .map(p => `${nameOf(next, p.id, viewerId)} ${t(`outcome.${getAnswerOutcome(quiz, quiz.answers[p.id])}`)}`)
+      .join(', ');
+    return t('announce.results', { answer: getCorrectLabel(quiz), results });
+  }
+
+  if (isTimedPhase(next.phase) && next.timeLeft !== prev.timeLeft && TIMER_WARNINGS.includes(next.timeLeft)) {
+    return t('announce.timer', { n: next.timeLeft });
+  }
+  return null;
+};
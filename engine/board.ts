@@ -0,0 +1,86 @@
+import { BoardSize, Cell, HanjaData, WinPattern } from '../types';
+
+export const BOARD_SIZES: BoardSize[] = [3, 4, 5, 6];
+export const WIN_PATTERNS: WinPattern[] = ['LINES', 'FOUR_CORNERS', 'X', 'PLUS', 'BLACKOUT'];
+
+export const getBoardSize = (board: Cell[]): number => Math.round(Math.sqrt(board.length));
+
+export const buildBoard = (slots: HanjaData[], playerIndex: number): Cell[] =>
+  slots.map((h, idx) => ({
+    id: `${h.id}-${playerIndex}`,
+    hanja: h,
+    isFlipped: false,
+    isPeeked: false,
+    gridIndex: idx
+  }));
+
+// Every bingo line on a size x size grid: rows, columns, then both diagonals.
+export const getLines = (size: number): number[][] => {
+  const range = Array.from({ length: size }).map((_, i) => i);
+  return [
+    ...range.map(row => range.map(col => row * size + col)),
+    ...range.map(col => range.map(row => row * size + col)),
+    range.map(i => i * size + i),
+    range.map(i => i * size + (size - 1 - i))
+  ];
+};
+
+export const getCompletedLines = (board: Cell[]): number[] =>
+  getLines(getBoardSize(board))
+    .map((line, idx) => (line.every(i => board[i].isFlipped) ? idx : -1))
+    .filter(idx => idx >= 0);
+
+export const checkBingo = (board: Cell[]): number => getCompletedLines(board).length;
+
+// Cells a named goal needs. Even sizes use the two middle rows/columns for PLUS.
+export const getPatternCells = (pattern: Exclude<WinPattern, 'LINES'>, size: number): number[] => {
+  const last = size - 1;
+  const middles = size % 2 === 0 ? [size / 2 - 1, size / 2] : [Math.floor(size / 2)];
+  const cells = new Set<number>();
+
+  switch (pattern) {
+    case 'FOUR_CORNERS':
+      [0, last, last * size, last * size + last].forEach(i => cells.add(i));
+      break;
+    case 'X':
+      getLines(size).slice(2 * size).flat().forEach(i => cells.add(i));
+      break;
+    case 'PLUS':
+      for (let i = 0; i < size; i++) {
+        middles.forEach(m => {
+          cells.add(m * size + i);
+          cells.add(i * size + m);
+        });
+      }
+      break;
+    case 'BLACKOUT':
+      for (let i = 0; i < size * size; i++) cells.add(i);
+      break;
+  }
+  return [...cells].sort((a, b) => a - b);
+};
+
+// Progress toward the goal, e.g. 2/3 lines or 7/9 cells of an X.
+export const getGoalProgress = (
+  board: Cell[],
+  pattern: WinPattern,
+  winLines: number
+): { done: number; total: number } => {
+  if (board.length === 0) return { done: 0, total: pattern === 'LINES' ? winLines : 0 };
+  if (pattern === 'LINES') return { done: checkBingo(board), total: winLines };
+
+  const cells = getPatternCells(pattern, getBoardSize(board));
+  return { done: cells.filter(i => board[i].isFlipped).length, total: cells.length };
+};
+
+export const isGoalComplete = (board: Cell[], pattern: WinPattern, winLines: number): boolean => {
+  const { done, total } = getGoalProgress(board, pattern, winLines);
+  return total > 0 && done >= total;
+};
+
+// Number of bingo lines passing through each cell (e.g. on 5x5: center = 4, diagonals = 3, others = 2).
+export const getCellLineWeights = (size: number): number[] => {
+  const weights = Array(size * size).fill(0);
+  getLines(size).forEach(line => line.forEach(i => weights[i]++));
+  return weights;
+};
@@ -0,0 +1,123 @@
+import { Grade, HanjaData, QuizDifficulty } from '../types';
+import { HANJA_COMPONENTS } from '../data/hanjaComponents';
+import { getHanjaUpToGrade } from '../services/hanjaSource';
+import { Rng, shuffle, weightedSample } from './random';
+
+// Wrong options that look like plausible answers: same 음, same 훈, shared radical or a
+// similar stroke count. Difficulty only changes how strongly those are preferred.
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+// Each point of similarity multiplies a candidate's chance of being picked by this much
+const SIMILARITY_BIAS: Record<QuizDifficulty, number> = {
+  EASY: 1, // Plain random
+  NORMAL: 1.8,
+  HARD: 4
+};
+
+// Options compare by what the player sees, ignoring spacing
+export const displayKey = (label: string): string => label.normalize('NFC').replace(/\s+/g, '');
+
+// Every character up to the chosen grade plus the board itself (which may hold characters from another provider)
+export const getDistractorPool = (grade: Grade, board: HanjaData[]): HanjaData[] => {
+  const byChar = new Map<string, HanjaData>();
+  [...getHanjaUpToGrade(grade), ...board].forEach(h => byChar.set(h.char, h));
+  return Array.from(byChar.values());
+};
+
+const syllableParts = (syllable: string): [number, number, number] | null => {
+  const code = syllable.charCodeAt(0) - 0xac00;
+  if (syllable.length !== 1 || code < 0 || code > 11171) return null;
+  return [Math.floor(code / 588), Math.floor((code % 588) / 28), code % 28];
+};
+
+// 0-2: same initial consonant, vowel and final each count, capped at "nearly the same sound"
+const soundSimilarity = (a: string, b: string): number => {
+  const pa = syllableParts(a);
+  const pb = syllableParts(b);
+  if (!pa || !pb) return 0;
+  return Math.min(2, pa.filter((part, i) => part === pb[i]).length);
+};
+
+const sharesSyllable = (a: string, b: string): boolean => Array.from(a).some(ch => b.includes(ch));
+
+// How easily `candidate` is mistaken for `target`
+export const confusability = (target: HanjaData, candidate: HanjaData): number => {
+  let score = 0;
+  if (candidate.eum === target.eum) score += 3;
+  else score += soundSimilarity(candidate.eum, target.eum);
+
+  if (displayKey(candidate.hun) === displayKey(target.hun)) score += 3;
+  else if (sharesSyllable(candidate.hun, target.hun)) score += 1;
+
+  const a = HANJA_COMPONENTS[target.char];
+  const b = HANJA_COMPONENTS[candidate.char];
+  if (a && b) {
+    if (a.radical === b.radical) score += 2;
+    if (Math.abs(a.strokes - b.strokes) <= 2) score += 1;
+  }
+  return score;
+};
+
+// Options of a similar length and sharing syllables are harder to rule out at a glance
+export const labelSimilarity = (correct: string, label: string): number =>
+  (label.length === correct.length ? 1 : 0) + (sharesSyllable(label, correct) ? 1 : 0);
+
+// Up to `count` distinct labels, none displayed the same as `correct`, weighted by `score`
+const pickLabels = <T>(
+  correct: string,
+  candidates: T[],
+  label: (item: T) => string,
+  score: (item: T) => number,
+  difficulty: QuizDifficulty,
+  count: number,
+  rng: Rng
+): string[] => {
+  const taken = new Set([displayKey(correct)]);
+  const bias = SIMILARITY_BIAS[difficulty];
+  const picked: string[] = [];
+
+  for (const item of weightedSample(candidates, item => bias ** score(item), candidates.length, rng)) {
+    const text = label(item);
+    const key = displayKey(text);
+    if (!key || taken.has(key)) continue;
+    taken.add(key);
+    picked.push(text);
+    if (picked.length === count) break;
+  }
+  return picked;
+};
+
+// Wrong options for a question about `target`, shown through `label`
+export const pickHanjaDistractors = (
+  target: HanjaData,
+  pool: HanjaData[],
+  label: (hanja: HanjaData) => string,
+  difficulty: QuizDifficulty,
+  count: number,
+  rng: Rng
+): string[] => {
+  const correct = label(target);
+  // A character with the same 훈음 would be a second right answer, whatever is displayed
+  const candidates = pool.filter(h => h.char !== target.char && displayKey(h.hunEum) !== displayKey(target.hunEum));
+  return pickLabels(correct, candidates, label, h => confusability(target, h) + labelSimilarity(correct, label(h)), difficulty, count, rng);
+};
+
+// Wrong options when only the option text is known (word readings, radicals)
+export const pickLabelDistractors = (
+  correct: string,
+  labels: string[],
+  difficulty: QuizDifficulty,
+  count: number,
+  rng: Rng
+): string[] => pickLabels(correct, labels, l => l, l => labelSimilarity(correct, l), difficulty, count, rng);
+
+// Stroke counts close to the real one are harder to rule out
+const STROKE_OFFSETS: Record<QuizDifficulty, number[]> = {
+  EASY: [-6, -5, -4, 4, 5, 6],
+  NORMAL: [-3, -2, -1, 1, 2, 3],
+  HARD: [-2, -1, 1, 2, 3]
+};
+
+export const pickStrokeDistractors = (strokes: number, difficulty: QuizDifficulty, count: number, rng: Rng): number[] =>
+  shuffle(STROKE_OFFSETS[difficulty].map(d => strokes + d).filter(n => n > 0), rng).slice(0, count);
@@ -0,0 +1,108 @@
+import { GameEvent, GameEventType, GameState } from '../types';
+import { describeLine } from './report';
+import { gradeLevel } from '../services/hanjaSource';
+import { t, translate } from '../services/i18n';
+
+// Reading GameState.events: one line of text per event for the log panel and the replay,
+// filters by kind and by player, and a JSON export of the whole stream.
+
+export type EventFilter = 'ALL' | 'TURNS' | 'ANSWERS' | 'BOARD' | 'MATCH';
+
+export const EVENT_FILTERS: EventFilter[] = ['ALL', 'TURNS', 'ANSWERS', 'BOARD', 'MATCH'];
+
+const FILTER_TYPES: Record<Exclude<EventFilter, 'ALL'>, GameEventType[]> = {
+  TURNS: ['TURN_START', 'PEEK', 'SELECT'],
+  ANSWERS: ['ANSWER', 'SCORE'],
+  BOARD: ['FLIP', 'LINE', 'SHIELD', 'STEAL'],
+  MATCH: ['GAME_START', 'DRAFT_START', 'DRAFT_DONE', 'TIE', 'PLAYOFF_ROUND', 'GAME_OVER', 'NOTE']
+};
+
+// Every player an event is about
+export const getEventPlayerIds = (event: GameEvent): string[] => {
+  switch (event.type) {
+    case 'STEAL':
+    case 'TIE':
+      return event.playerIds;
+    case 'GAME_OVER':
+      return event.outcome.winnerIds;
+    case 'SCORE':
+      return Object.keys(event.points).filter(id => event.points[id] !== 0);
+    default:
+      return 'playerId' in event ? [event.playerId] : [];
+  }
+};
+
+export const filterEvents = (events: GameEvent[], filter: EventFilter, playerId: string | null): GameEvent[] =>
+  events.filter(event =>
+    (filter === 'ALL' || FILTER_TYPES[filter].includes(event.type))
+    && (!playerId || getEventPlayerIds(event).includes(playerId))
+  );
+
+export const describeEvent = (event: GameEvent, state: GameState): string => {
+  const nameOf = (id: string) => state.players.find(p => p.id === id)?.name || id;
+  const namesOf = (ids: string[]) => ids.map(nameOf).join(', ');
+
+  switch (event.type) {
+    case 'GAME_START':
+      return t('log.gameStart', { level: gradeLevel(event.grade), size: event.boardSize });
+    case 'DRAFT_START':
+      return t('log.draftStart');
+    case 'DRAFT_DONE':
+      return t('log.draftDone');
+    case 'TURN_START':
+      return t('log.turn', { name: nameOf(event.playerId) });
+    case 'PEEK':
+      return t('log.peek', { name: nameOf(event.playerId) });
+    case 'SELECT': {
+      const params = { name: nameOf(event.playerId), char: event.hanja?.char ?? '', quiz: t(`quizType.${event.quizType}`) };
+      const text = t(event.hanja ? 'log.select' : 'log.selectHidden', params);
+      return event.auto ? `${t('log.autoSelect')} ${text}` : text;
+    }
+    case 'ANSWER':
+      if (!event.outcome) return t('log.answered', { name: nameOf(event.playerId) });
+      return t(`log.answer.${event.outcome}`, {
+        name: nameOf(event.playerId),
+        seconds: event.latencyMs === null ? '' : (event.latencyMs / 1000).toFixed(1)
+      });
+    case 'FLIP':
+      return t(event.faceUp ? 'log.flip' : 'log.penalty', { name: nameOf(event.playerId), char: event.hanja.char });
+    case 'LINE':
+      return t('log.line', { name: nameOf(event.playerId), line: describeLine(event.line, state.settings.boardSize) });
+    case 'SHIELD':
+      return t(event.used ? 'log.shieldBlocked' : 'log.shieldGained', { name: nameOf(event.playerId) });
+    case 'STEAL':
+      return t('log.stolen', { names: namesOf(event.playerIds) });
+    case 'SCORE': {
+      const changes = Object.entries(event.points)
+        .filter(([, points]) => points !== 0)
+        .map(([id, points]) => `${nameOf(id)} ${points > 0 ? '+' : ''}${points}`);
+      return changes.length > 0 ? t('log.score', { changes: changes.join(', ') }) : t('log.scoreNone');
+    }
+    case 'TIE':
+      return t(`log.tieBreak.${event.tieBreak}`, { names: namesOf(event.playerIds) });
+    case 'PLAYOFF_ROUND':
+      return t('log.playoffRound', { n: event.round, max: event.max });
+    case 'GAME_OVER': {
+      const { kind, winnerIds } = event.outcome;
+      if (kind === 'DRAW') return t('log.draw');
+      return kind === 'SHARED'
+        ? t('log.sharedWin', { names: namesOf(winnerIds) })
+        : t('log.winner', { name: namesOf(winnerIds) });
+    }
+    case 'NOTE':
+      return translate(event.message);
+  }
+};
+
+// The stream with the players it refers to, for spreadsheets and scripts outside the app
+export const eventsToJson = (state: GameState, events: GameEvent[] = state.events): string =>
+  JSON.stringify(
+    {
+      seed: state.seed,
+      settings: state.settings,
+      players: state.players.map(p => ({ id: p.id, name: p.name, isAI: p.isAI, color: p.color })),
+      events
+    },
+    null,
+    2
+  );
@@ -0,0 +1,577 @@
+import {
+  AnswerOutcome,
+  Cell,
+  DraftState,
+  GameAction,
+  GameEvent,
+  GameEventData,
+  GamePhase,
+  GameSettings,
+  GameState,
+  HanjaData,
+  MatchOutcome,
+  Player,
+  PlayoffState,
+  QuizQuestion,
+  QuizState,
+  RoundRecord,
+  SeatConfig
+} from '../types';
+import { buildBoard, checkBingo, getCompletedLines, isGoalComplete } from './board';
+import { getDistractorPool } from './distractors';
+import { generateQuestion, isCorrectAnswer } from './quiz';
+import { Rng, createRng, pickRandom, seedToState, shuffle } from './random';
+import { DEFAULT_SCORING, ScoredRound, addPoints, breakTie, getFlippingPlayers, scoreRound } from './scoring';
+import { gradeLevel } from '../services/hanjaSource';
+import { t } from '../services/i18n';
+
+export const COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b']; // Blue, Red, Green, Yellow; seats without a profile colour
+export const TURN_TIMEOUT = 30; // Shared time for PEEK and SELECT
+export const QUIZ_TIMEOUT = 10;
+export const MAX_PEEKS = 3;
+export const SHIELD_GAUGE_MAX = 3; // Correct answers needed to earn a shield
+export const PLAYOFF_ROUNDS = 3; // Undecided playoff rounds before the contenders share the win
+export const TIMEOUT_ANSWER = 'TIMEOUT_WRONG';
+export const TURN_START_DELAY = 1000; // ms before PEEK begins
+export const RESULTS_DELAY = 3000; // ms quiz results stay on screen
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  grade: '8급',
+  playerCount: 2,
+  mode: 'STANDARD',
+  boardSize: 5,
+  winPattern: 'LINES',
+  winLines: 1,
+  quizDifficulty: 'NORMAL',
+  scoring: DEFAULT_SCORING,
+  seed: '',
+  seats: [
+    { name: '', isAI: false, aiLevel: 'INTERMEDIATE' },
+    { name: '', isAI: true, aiLevel: 'INTERMEDIATE' },
+    { name: '', isAI: true, aiLevel: 'INTERMEDIATE' },
+    { name: '', isAI: true, aiLevel: 'INTERMEDIATE' }
+  ]
+};
+
+export const initialGameState: GameState = {
+  phase: GamePhase.SETUP,
+  settings: DEFAULT_SETTINGS,
+  players: [],
+  turnIndex: 0,
+  peekedCardIds: [],
+  quiz: null,
+  draft: null,
+  timeLeft: 0,
+  events: [],
+  seed: '',
+  rngState: 0,
+  actionLog: [],
+  rounds: [],
+  playoff: null,
+  outcome: null
+};
+
+// --- Selectors ---
+
+export const getActivePlayer = (state: GameState): Player | undefined => state.players[state.turnIndex];
+
+export const getHumanPlayers = (state: GameState): Player[] => state.players.filter(p => !p.isAI);
+
+export const getDrafterId = (draft: DraftState): string => draft.order[draft.pickIndex % draft.order.length];
+
+export const getBoardCellCount = (settings: GameSettings): number => settings.boardSize * settings.boardSize;
+
+export const hasWon = (player: Player, settings: GameSettings): boolean =>
+  isGoalComplete(player.board, settings.winPattern, settings.winLines);
+
+// Cards the player may quiz: unflipped ones, or any card for a playoff contender whose board is full
+export const getSelectableCells = (state: GameState, player: Player): Cell[] => {
+  const unflipped = player.board.filter(c => !c.isFlipped);
+  return unflipped.length > 0 || !state.playoff ? unflipped : player.board;
+};
+
+export const isTimedPhase = (phase: GamePhase): boolean =>
+  phase === GamePhase.PEEK || phase === GamePhase.SELECT || phase === GamePhase.QUIZ;
+
+export const getAnswerOutcome = (quiz: QuizQuestion, answer: string | undefined): AnswerOutcome =>
+  isCorrectAnswer(quiz, answer) ? 'CORRECT' : !answer || answer === TIMEOUT_ANSWER ? 'TIMEOUT' : 'WRONG';
+
+// --- Action Creators (all randomness lives here) ---
+
+// Actions carry the time they happened, so the reducer can time events without a clock
+export const stampAction = (action: GameAction): GameAction =>
+  action.at === undefined ? { ...action, at: Date.now() } : action;
+
+// What an unnamed seat is called, in the current locale
+export const getDefaultSeatName = (isAI: boolean): string => t(isAI ? 'common.ai' : 'common.player');
+
+// "P2 Mina": the seat number, then the typed name or the default one
+export const getSeatName = (seat: SeatConfig, index: number): string =>
+  `P${index + 1} ${seat.name.trim() || getDefaultSeatName(seat.isAI)}`;
+
+// Profile colours where they are unique, then the unused defaults
+const pickColors = (seats: SeatConfig[]): string[] => {
+  const chosen = seats.map((seat, i) =>
+    seat.color && seats.findIndex(s => s.color === seat.color) === i ? seat.color : null
+  );
+  const spare = COLORS.filter(c => !chosen.includes(c));
+  return chosen.map(c => c ?? spare.shift()!);
+};
+
+// `seed` should also have dealt `pool` (services/hanjaSource.ts) for the match to be reproducible
+export const startGame = (settings: GameSettings, pool: HanjaData[], seed: string): GameAction => {
+  const isDraft = settings.mode === 'DRAFT';
+  const rng = createRng(seedToState(`${seed}:game`));
+
+  // Create Players with Numbered Names
+  // In DRAFT mode boards stay empty until every player has placed the whole pool.
+  const seats = settings.seats.slice(0, settings.playerCount);
+  const colors = pickColors(seats);
+  const players: Player[] = seats.map((seat, i) => ({
+    id: `player-${i + 1}`,
+    name: getSeatName(seat, i),
+    isAI: seat.isAI,
+    aiLevel: seat.isAI ? seat.aiLevel : undefined,
+    board: isDraft ? [] : buildBoard(shuffle(pool, rng), i),
+    score: 0,
+    points: 0,
+    color: colors[i],
+    bonusGauge: 0,
+    hasShield: false,
+    seenCellIds: []
+  }));
+
+  const draft: DraftState | null = isDraft
+    ? {
+        pool,
+        slots: Object.fromEntries(players.map(p => [p.id, Array(pool.length).fill(null)])),
+        order: shuffle(players.map(p => p.id), rng),
+        pickIndex: 0,
+        aiPreferences: Object.fromEntries(
+          players.filter(p => p.isAI).map(p => [p.id, shuffle(pool, rng).map(h => h.id)])
+        )
+      }
+    : null;
+
+  // RANDOM TURN ORDER
+  const startTurn = Math.floor(rng.next() * players.length);
+  return { type: 'START_GAME', settings, players, startTurn, draft, seed, rngState: rng.getState() };
+};
+
+export const autoFillDraft = (state: GameState, playerId: string): GameAction | null => {
+  if (!state.draft) return null;
+  const rng = createRng(state.rngState);
+  const slots = state.draft.slots[playerId];
+  const remaining = shuffle<HanjaData>(state.draft.pool.filter(h => !slots.some(s => s?.id === h.id)), rng);
+  const emptySlots = slots.map((s, idx) => (s ? -1 : idx)).filter(idx => idx >= 0);
+  return {
+    type: 'DRAFT_PLACE',
+    playerId,
+    placements: emptySlots.map((slotIndex, i) => ({ hanjaId: remaining[i].id, slotIndex })),
+    rngState: rng.getState()
+  };
+};
+
+const buildSelect = (state: GameState, hanjaId: string, auto: boolean, rng: Rng): GameAction | null => {
+  const player = getActivePlayer(state);
+  const hanja = player?.board.find(c => c.hanja.id === hanjaId)?.hanja;
+  if (!player || !hanja) return null;
+
+  // Generate Quiz: a question type allowed at this grade, wrong options from the whole grade
+  const { grade, quizDifficulty } = state.settings;
+  const pool = getDistractorPool(grade, player.board.map(c => c.hanja));
+  const question = generateQuestion(grade, hanja, pool, quizDifficulty, rng);
+  if (!question) return null;
+
+  return { type: 'SELECT', playerId: player.id, hanjaId, question, auto, rngState: rng.getState() };
+};
+
+export const selectCard = (state: GameState, hanjaId: string): GameAction | null =>
+  buildSelect(state, hanjaId, false, createRng(state.rngState));
+
+// What happens when the shared clock runs out in the current phase.
+export const resolveTimeout = (state: GameState): GameAction | null => {
+  const player = getActivePlayer(state);
+  if (!player) return null;
+
+  switch (state.phase) {
+    case GamePhase.PEEK:
+      return { type: 'FINISH_PEEK', playerId: player.id };
+    case GamePhase.SELECT: {
+      // Auto-select random card for active player
+      const rng = createRng(state.rngState);
+      const target = pickRandom(getSelectableCells(state, player), rng) || player.board[0];
+      return buildSelect(state, target.hanja.id, true, rng);
+    }
+    case GamePhase.QUIZ:
+      return state.quiz && !state.quiz.resultsShown ? { type: 'QUIZ_TIMEOUT' } : null;
+    default:
+      return null;
+  }
+};
+
+export const advance = (state: GameState): GameAction => {
+  const rng = createRng(state.rngState);
+  const penalties: Record<string, string> = {};
+
+  // Wrong answer or timeout turns one random flipped cell back over (unless shielded)
+  if (state.phase === GamePhase.QUIZ && state.quiz) {
+    state.players.forEach(p => {
+      if (isCorrectAnswer(state.quiz!, state.quiz!.answers[p.id]) || p.hasShield) return;
+      const lost = pickRandom(p.board.filter(c => c.isFlipped), rng);
+      if (lost) penalties[p.id] = lost.id;
+    });
+  }
+
+  return { type: 'ADVANCE', penalties, rngState: rng.getState() };
+};
+
+// --- Reducer ---
+
+const withEvents = (state: GameState, at: number, ...events: GameEventData[]): GameState => {
+  let turn = state.events[state.events.length - 1]?.turn ?? 0;
+  const added = events.map((event, i): GameEvent => {
+    if (event.type === 'TURN_START') turn++;
+    return { ...event, seq: state.events.length + i, at, turn };
+  });
+  return { ...state, events: [...state.events, ...added] };
+};
+
+const beginTurn = (state: GameState, turnIndex: number, at: number): GameState => {
+  const next: GameState = {
+    ...state,
+    phase: GamePhase.TURN_START,
+    turnIndex,
+    peekedCardIds: [],
+    quiz: null
+  };
+  return withEvents(next, at, { type: 'TURN_START', playerId: state.players[turnIndex].id });
+};
+
+const placeDraft = (state: GameState, action: Extract<GameAction, { type: 'DRAFT_PLACE' }>, at: number): GameState => {
+  const draft = state.draft!;
+  const { playerId } = action;
+  if (getDrafterId(draft) !== playerId) return state;
+
+  const slots = [...draft.slots[playerId]];
+  action.placements.forEach(({ hanjaId, slotIndex }) => {
+    const hanja = draft.pool.find(h => h.id === hanjaId);
+    if (hanja && !slots[slotIndex] && !slots.some(s => s?.id === hanjaId)) {
+      slots[slotIndex] = hanja;
+    }
+  });
+  const nextSlots = { ...draft.slots, [playerId]: slots };
+
+  // Advance to the next drafter that still has empty cells
+  const isFull = (id: string) => nextSlots[id].every(Boolean);
+  if (draft.order.every(isFull)) {
+    const players = state.players.map((p, i) => ({ ...p, board: buildBoard(nextSlots[p.id] as HanjaData[], i) }));
+    return beginTurn(withEvents({ ...state, players, draft: null }, at, { type: 'DRAFT_DONE' }), state.turnIndex, at);
+  }
+  let pickIndex = draft.pickIndex + 1;
+  while (isFull(draft.order[pickIndex % draft.order.length])) pickIndex++;
+
+  return { ...state, draft: { ...draft, slots: nextSlots, pickIndex } };
+};
+
+const showResultsIfDone = (state: GameState): GameState => {
+  const quiz = state.quiz!;
+  const allAnswered = state.players.every(p => quiz.answers[p.id]);
+  return allAnswered ? { ...state, quiz: { ...quiz, resultsShown: true } } : state;
+};
+
+// The next seat after the current turn that can play: a playoff contender during a playoff,
+// otherwise anyone with a card left to quiz
+const getNextTurnIndex = (state: GameState): number => {
+  const count = state.players.length;
+  for (let step = 1; step <= count; step++) {
+    const index = (state.turnIndex + step) % count;
+    const player = state.players[index];
+    const canPlay = state.playoff
+      ? state.playoff.playerIds.includes(player.id)
+      : player.board.some(c => !c.isFlipped);
+    if (canPlay) return index;
+  }
+  return (state.turnIndex + 1) % count;
+};
+
+const endMatch = (state: GameState, outcome: MatchOutcome, at: number): GameState =>
+  withEvents({ ...state, phase: GamePhase.GAME_OVER, playoff: null, outcome }, at, { type: 'GAME_OVER', outcome });
+
+// One playoff round: a contender who alone answers correctly wins. After PLAYOFF_ROUNDS
+// undecided rounds the contenders share the win.
+const settlePlayoff = (state: GameState, playoff: PlayoffState, scored: ScoredRound, at: number): GameState => {
+  const correct = playoff.playerIds.filter(id => scored.results[id] === 'CORRECT');
+  const tie = { tiedIds: playoff.playerIds, tieBreak: 'PLAYOFF' as const };
+  if (correct.length === 1) {
+    return endMatch(state, { kind: 'WIN', winnerIds: correct, ...tie }, at);
+  }
+  const round = playoff.round + 1;
+  if (round >= PLAYOFF_ROUNDS) {
+    return endMatch(state, { kind: 'SHARED', winnerIds: playoff.playerIds, ...tie }, at);
+  }
+  const next = withEvents(
+    { ...state, playoff: { ...playoff, round } },
+    at,
+    { type: 'PLAYOFF_ROUND', round, max: PLAYOFF_ROUNDS }
+  );
+  return beginTurn(next, getNextTurnIndex(next), at);
+};
+
+const evaluateRound = (state: GameState, penalties: Record<string, string>, at: number): GameState => {
+  const quiz = state.quiz!;
+  const { scoring } = state.settings;
+  const owner = state.players[state.turnIndex];
+  const targetId = quiz.targetHanja?.id;
+  const events: GameEventData[] = [];
+
+  const scored: ScoredRound = {
+    answerOrder: Object.keys(quiz.answers),
+    results: Object.fromEntries(state.players.map(p => [p.id, getAnswerOutcome(quiz, quiz.answers[p.id])])),
+    answerSeconds: Object.fromEntries(
+      Object.entries(quiz.answerSeconds).filter(([playerId]) => quiz.answers[playerId] !== TIMEOUT_ANSWER)
+    )
+  };
+  const points = scoreRound(scored, scoring);
+  const flipping = getFlippingPlayers(scored, owner.id, scoring);
+  if (scoring.steal && flipping.length > 0 && !flipping.includes(owner.id)) {
+    events.push({ type: 'STEAL', playerIds: flipping });
+  }
+
+  const players = state.players.map((p: Player): Player => {
+    const scoredPlayer = { ...p, points: addPoints(p.points, points[p.id]) };
+
+    if (scored.results[p.id] === 'CORRECT') {
+      const target = flipping.includes(p.id) ? p.board.find(cell => cell.hanja.id === targetId && !cell.isFlipped) : undefined;
+      const board = target ? p.board.map(cell => (cell === target ? { ...cell, isFlipped: true } : cell)) : p.board;
+      if (target) events.push({ type: 'FLIP', playerId: p.id, cellId: target.id, hanja: target.hanja, faceUp: true });
+
+      // Fill the bonus gauge; a full gauge turns into a shield (only one can be held)
+      let bonusGauge = Math.min(p.bonusGauge + 1, SHIELD_GAUGE_MAX);
+      let hasShield = p.hasShield;
+      if (bonusGauge === SHIELD_GAUGE_MAX && !hasShield) {
+        bonusGauge = 0;
+        hasShield = true;
+        events.push({ type: 'SHIELD', playerId: p.id, used: false });
+      }
+
+      return { ...scoredPlayer, board, score: checkBingo(board), bonusGauge, hasShield };
+    }
+
+    // Wrong answer or timeout: the gauge resets and one flipped cell is turned back over
+    if (!p.board.some(c => c.isFlipped)) {
+      return { ...scoredPlayer, bonusGauge: 0 };
+    }
+    if (p.hasShield) {
+      events.push({ type: 'SHIELD', playerId: p.id, used: true });
+      return { ...scoredPlayer, bonusGauge: 0, hasShield: false };
+    }
+
+    const lost = p.board.find(cell => cell.id === penalties[p.id] && cell.isFlipped);
+    const board = p.board.map((cell: Cell) => (cell === lost ? { ...cell, isFlipped: false } : cell));
+    if (lost) events.push({ type: 'FLIP', playerId: p.id, cellId: lost.id, hanja: lost.hanja, faceUp: false });
+    return { ...scoredPlayer, board, score: checkBingo(board), bonusGauge: 0 };
+  });
+
+  const round: RoundRecord = {
+    turn: state.rounds.length + 1,
+    playerId: owner.id,
+    hanja: quiz.targetHanja!,
+    quizType: quiz.type,
+    results: scored.results,
+    answerSeconds: scored.answerSeconds,
+    completedLines: Object.fromEntries(players.map((p, i) => {
+      const before = getCompletedLines(state.players[i].board);
+      return [p.id, getCompletedLines(p.board).filter(line => !before.includes(line))];
+    })),
+    // What the totals actually moved by, after the MIN_POINTS floor
+    points: Object.fromEntries(players.map((p, i) => [p.id, p.points - state.players[i].points]))
+  };
+  events.push({ type: 'SCORE', points: round.points });
+  Object.entries(round.completedLines).forEach(([playerId, lines]) =>
+    lines.forEach(line => events.push({ type: 'LINE', playerId, line }))
+  );
+  const next = withEvents({ ...state, players, rounds: [...state.rounds, round] }, at, ...events);
+
+  if (state.playoff) return settlePlayoff(next, state.playoff, scored, at);
+
+  const winners = players.filter(p => hasWon(p, state.settings));
+  if (winners.length === 0) {
+    // Nobody has a card left to quiz, so nobody can still reach the goal
+    if (players.every(p => p.board.every(c => c.isFlipped))) {
+      return endMatch(next, { kind: 'DRAW', winnerIds: [], tiedIds: [], tieBreak: null }, at);
+    }
+    return beginTurn(next, getNextTurnIndex(next), at);
+  }
+  if (winners.length === 1) {
+    return endMatch(next, { kind: 'WIN', winnerIds: [winners[0].id], tiedIds: [], tieBreak: null }, at);
+  }
+
+  // Several players completed their goal on the same answer
+  const tiedIds = winners.map(p => p.id);
+  const { tieBreak } = scoring;
+  const tied = withEvents(next, at, { type: 'TIE', playerIds: tiedIds, tieBreak });
+  if (tieBreak === 'SHARED') {
+    return endMatch(tied, { kind: 'SHARED', winnerIds: tiedIds, tiedIds, tieBreak }, at);
+  }
+  if (tieBreak === 'PLAYOFF') {
+    const playoff = { ...tied, playoff: { playerIds: tiedIds, round: 0 } };
+    return beginTurn(playoff, getNextTurnIndex(playoff), at);
+  }
+  const winnerId = breakTie(
+    winners.map(p => ({
+      id: p.id,
+      points: p.points,
+      seat: (players.indexOf(p) - state.turnIndex + players.length) % players.length
+    })),
+    scored,
+    tieBreak
+  );
+  return endMatch(tied, { kind: 'WIN', winnerIds: [winnerId], tiedIds, tieBreak }, at);
+};
+
+const applyAction = (state: GameState, action: GameAction): GameState => {
+  // Actions dispatched without a time (tests, old logs) reuse the latest event's
+  const at = action.at ?? state.events[state.events.length - 1]?.at ?? 0;
+  switch (action.type) {
+    case 'LOAD':
+      return { ...state, phase: GamePhase.LOADING };
+
+    case 'START_GAME': {
+      const next: GameState = {
+        ...initialGameState,
+        settings: action.settings,
+        players: action.players,
+        turnIndex: action.startTurn,
+        draft: action.draft,
+        events: state.events, // Notes logged while the game was loading
+        seed: action.seed
+      };
+      const { grade, boardSize } = action.settings;
+      const started = withEvents(next, at, { type: 'GAME_START', grade, boardSize });
+      if (action.draft) {
+        return withEvents({ ...started, phase: GamePhase.DRAFT }, at, { type: 'DRAFT_START' });
+      }
+      return beginTurn(started, action.startTurn, at);
+    }
+
+    case 'DRAFT_PLACE':
+      if (state.phase !== GamePhase.DRAFT || !state.draft) return state;
+      return placeDraft(state, action, at);
+
+    case 'PEEK': {
+      const player = getActivePlayer(state);
+      const cell = player?.board.find(c => c.id === action.cellId);
+      if (state.phase !== GamePhase.PEEK || player?.id !== action.playerId || !cell || cell.isFlipped) return state;
+      if (state.peekedCardIds.includes(cell.id) || state.peekedCardIds.length >= MAX_PEEKS) return state;
+      const players = state.players.map(p =>
+        p.id === player.id && !p.seenCellIds.includes(cell.id) ? { ...p, seenCellIds: [...p.seenCellIds, cell.id] } : p
+      );
+      return withEvents(
+        { ...state, players, peekedCardIds: [...state.peekedCardIds, cell.id] },
+        at,
+        { type: 'PEEK', playerId: player.id, cellId: cell.id }
+      );
+    }
+
+    case 'FINISH_PEEK':
+      if (state.phase !== GamePhase.PEEK || getActivePlayer(state)?.id !== action.playerId) return state;
+      // Do NOT reset timeLeft here. SELECT continues the same countdown.
+      return { ...state, phase: GamePhase.SELECT, peekedCardIds: [] };
+
+    case 'SELECT': {
+      const player = getActivePlayer(state);
+      const cell = player?.board.find(c => c.hanja.id === action.hanjaId);
+      if (state.phase !== GamePhase.SELECT || player?.id !== action.playerId || !cell) return state;
+      if (!getSelectableCells(state, player).includes(cell)) return state;
+
+      const quiz: QuizState = {
+        ...action.question,
+        targetHanja: cell.hanja,
+        answers: {},
+        answerSeconds: {},
+        resultsShown: false,
+        startedAt: at
+      };
+      return withEvents(
+        { ...state, phase: GamePhase.QUIZ, quiz, timeLeft: QUIZ_TIMEOUT },
+        at,
+        { type: 'SELECT', playerId: player.id, hanja: cell.hanja, quizType: quiz.type, auto: !!action.auto }
+      );
+    }
+
+    case 'ANSWER': {
+      const quiz = state.quiz;
+      if (state.phase !== GamePhase.QUIZ || !quiz || quiz.resultsShown || quiz.answers[action.playerId]) return state;
+      if (!state.players.some(p => p.id === action.playerId)) return state;
+      const answered = withEvents(state, at, {
+        type: 'ANSWER',
+        playerId: action.playerId,
+        outcome: getAnswerOutcome(quiz, action.optionId),
+        latencyMs: Math.max(0, at - quiz.startedAt)
+      });
+      return showResultsIfDone({
+        ...answered,
+        quiz: {
+          ...quiz,
+          answers: { ...quiz.answers, [action.playerId]: action.optionId },
+          answerSeconds: { ...quiz.answerSeconds, [action.playerId]: QUIZ_TIMEOUT - state.timeLeft }
+        }
+      });
+    }
+
+    case 'TICK':
+      if (!isTimedPhase(state.phase) || state.timeLeft <= 0) return state;
+      return { ...state, timeLeft: state.timeLeft - 1 };
+
+    case 'QUIZ_TIMEOUT': {
+      const quiz = state.quiz;
+      if (state.phase !== GamePhase.QUIZ || !quiz || quiz.resultsShown) return state;
+      // Auto-submit 'TIMEOUT' for anyone who hasn't answered
+      const late = state.players.filter(p => !quiz.answers[p.id]);
+      const answers = { ...quiz.answers, ...Object.fromEntries(late.map(p => [p.id, TIMEOUT_ANSWER])) };
+      const timedOut = withEvents(
+        state,
+        at,
+        ...late.map((p): GameEventData => ({ type: 'ANSWER', playerId: p.id, outcome: 'TIMEOUT', latencyMs: null }))
+      );
+      return { ...timedOut, quiz: { ...quiz, answers, resultsShown: true } };
+    }
+
+    case 'ADVANCE':
+      if (state.phase === GamePhase.TURN_START) {
+        return { ...state, phase: GamePhase.PEEK, timeLeft: TURN_TIMEOUT };
+      }
+      if (state.phase === GamePhase.QUIZ && state.quiz?.resultsShown) {
+        return evaluateRound(state, action.penalties, at);
+      }
+      return state;
+
+    case 'LOG':
+      return withEvents(state, at, { type: 'NOTE', message: action.message });
+
+    case 'SYNC':
+    case 'RESTORE':
+      return action.state;
+
+    case 'RESET':
+      return { ...initialGameState, settings: state.settings };
+
+    default:
+      return state;
+  }
+};
+
+// Actions a replay needs: everything a player or the engine decided, but not the clock
+const UNRECORDED: GameAction['type'][] = ['LOAD', 'TICK', 'SYNC', 'RESTORE', 'RESET'];
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  const next = applyAction(state, action);
+  if (next === state || UNRECORDED.includes(action.type)) return next;
+
+  return {
+    ...next,
+    rngState: 'rngState' in action && action.rngState !== undefined ? action.rngState : next.rngState,
+    actionLog: action.type === 'START_GAME' ? [action] : [...next.actionLog, action]
+  };
+};
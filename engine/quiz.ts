@@ -0,0 +1,173 @@
+import { Grade, HanjaData, QuizDifficulty, QuizOption, QuizQuestion, QuizState, QuizType } from '../types';
+import { HANJA_COMPONENTS, RADICALS } from '../data/hanjaComponents';
+import { HANJA_WORDS } from '../data/hanjaWords';
+import { pickHanjaDistractors, pickLabelDistractors, pickStrokeDistractors } from './distractors';
+import { Rng, pickRandom, shuffle } from './random';
+
+// Question generation and answer checking for every quiz type. Type names and question
+// text are UI strings: see quizType.* and quizQuestion.* in data/locales.
+
+interface QuizTypeInfo {
+  promptIsHanja: boolean;
+  optionsAreHanja: boolean;
+}
+
+export const QUIZ_TYPE_INFO: Record<QuizType, QuizTypeInfo> = {
+  HANJA_TO_HUNEUM: { promptIsHanja: true, optionsAreHanja: false },
+  HUNEUM_TO_HANJA: { promptIsHanja: false, optionsAreHanja: true },
+  HANJA_TO_EUM: { promptIsHanja: true, optionsAreHanja: false },
+  HANJA_TO_HUN: { promptIsHanja: true, optionsAreHanja: false },
+  TYPED_EUM: { promptIsHanja: true, optionsAreHanja: false },
+  WORD_READING: { promptIsHanja: true, optionsAreHanja: false },
+  RADICAL: { promptIsHanja: true, optionsAreHanja: true },
+  STROKES: { promptIsHanja: true, optionsAreHanja: false }
+};
+
+// Each grade adds question types on top of the easier grades
+const BASIC_TYPES: QuizType[] = ['HANJA_TO_HUNEUM', 'HUNEUM_TO_HANJA', 'HANJA_TO_EUM', 'HANJA_TO_HUN'];
+const READING_TYPES: QuizType[] = [...BASIC_TYPES, 'WORD_READING', 'TYPED_EUM', 'STROKES'];
+const ALL_TYPES: QuizType[] = [...READING_TYPES, 'RADICAL'];
+
+export const QUIZ_TYPES_BY_GRADE: Record<Grade, QuizType[]> = {
+  '8급': BASIC_TYPES,
+  '7급': READING_TYPES,
+  '6급': ALL_TYPES,
+  '5급': ALL_TYPES,
+  '4급': ALL_TYPES,
+  '3급': ALL_TYPES,
+  '2급': ALL_TYPES,
+  '1급': ALL_TYPES
+};
+
+const OPTION_COUNT = 4;
+
+// --- Answer checking ---
+
+const Y_VOWELS = [2, 3, 6, 7, 12, 17, 20]; // ㅑ ㅒ ㅕ ㅖ ㅛ ㅠ ㅣ
+const INITIAL_N = 2;
+const INITIAL_R = 5;
+const INITIAL_NONE = 11;
+
+// The initial-sound-law spelling of a syllable (력 -> 역, 로 -> 노, 녀 -> 여), or the syllable itself
+export const applyInitialSoundLaw = (syllable: string): string => {
+  const code = syllable.charCodeAt(0) - 0xac00;
+  if (syllable.length !== 1 || code < 0 || code > 11171) return syllable;
+
+  const initial = Math.floor(code / 588);
+  const medial = Math.floor((code % 588) / 28);
+  const final = code % 28;
+  let next = initial;
+  if (initial === INITIAL_R) next = Y_VOWELS.includes(medial) ? INITIAL_NONE : INITIAL_N;
+  if (initial === INITIAL_N && Y_VOWELS.includes(medial)) next = INITIAL_NONE;
+  return String.fromCharCode(0xac00 + next * 588 + medial * 28 + final);
+};
+
+// Compares typed answers without caring about spacing, punctuation or composition form
+export const normalizeAnswer = (text: string): string =>
+  text.normalize('NFC').replace(/[^가-힣0-9]/g, '');
+
+export const isCorrectAnswer = (quiz: QuizQuestion, answer: string | undefined): boolean => {
+  if (!answer) return false;
+  return quiz.type === 'TYPED_EUM'
+    ? quiz.acceptedAnswers.includes(normalizeAnswer(answer))
+    : answer === quiz.correctOptionId;
+};
+
+// --- Question building ---
+
+// `distractors` are already distinct from the correct answer (see engine/distractors.ts)
+const withOptions = (
+  type: QuizType,
+  prompt: string,
+  correct: string,
+  distractors: string[],
+  rng: Rng
+): QuizQuestion | null => {
+  if (distractors.length < OPTION_COUNT - 1) return null;
+
+  const shuffled = shuffle([correct, ...distractors.slice(0, OPTION_COUNT - 1)], rng);
+  const options: QuizOption[] = shuffled.map((label, i) => ({ id: `option-${i + 1}`, label }));
+  return {
+    type,
+    prompt,
+    options,
+    correctOptionId: options[shuffled.indexOf(correct)].id,
+    acceptedAnswers: []
+  };
+};
+
+// Builds a question about `hanja`, taking wrong options from `pool`. Returns null when
+// this type cannot be asked about this character (no word, no radical data, too few options).
+export const buildQuestion = (
+  type: QuizType,
+  hanja: HanjaData,
+  pool: HanjaData[],
+  difficulty: QuizDifficulty,
+  rng: Rng
+): QuizQuestion | null => {
+  const count = OPTION_COUNT - 1;
+  const fromPool = (label: (h: HanjaData) => string) => pickHanjaDistractors(hanja, pool, label, difficulty, count, rng);
+
+  switch (type) {
+    case 'HANJA_TO_HUNEUM':
+      return withOptions(type, hanja.char, hanja.hunEum, fromPool(h => h.hunEum), rng);
+    case 'HUNEUM_TO_HANJA':
+      return withOptions(type, hanja.hunEum, hanja.char, fromPool(h => h.char), rng);
+    case 'HANJA_TO_EUM':
+      return withOptions(type, hanja.char, hanja.eum, fromPool(h => h.eum), rng);
+    case 'HANJA_TO_HUN':
+      return withOptions(type, hanja.char, hanja.hun, fromPool(h => h.hun), rng);
+    case 'TYPED_EUM': {
+      const accepted = Array.from(new Set([hanja.eum, applyInitialSoundLaw(hanja.eum), normalizeAnswer(hanja.hunEum)]));
+      return { type, prompt: hanja.char, options: [], correctOptionId: '', acceptedAnswers: accepted };
+    }
+    case 'WORD_READING': {
+      const word = pickRandom(HANJA_WORDS.filter(w => w.word.includes(hanja.char)), rng);
+      if (!word) return null;
+      const sameLength = HANJA_WORDS.filter(w => w.word.length === word.word.length).map(w => w.reading);
+      return withOptions(type, word.word, word.reading, pickLabelDistractors(word.reading, sameLength, difficulty, count, rng), rng);
+    }
+    case 'RADICAL': {
+      const components = HANJA_COMPONENTS[hanja.char];
+      if (!components) return null;
+      // Radicals of confusable characters come first, any radical fills the rest
+      const similar = fromPool(h => HANJA_COMPONENTS[h.char]?.radical || '');
+      const rest = pickLabelDistractors(components.radical, RADICALS.filter(r => !similar.includes(r)), difficulty, count, rng);
+      return withOptions(type, hanja.char, components.radical, [...similar, ...rest], rng);
+    }
+    case 'STROKES': {
+      const components = HANJA_COMPONENTS[hanja.char];
+      if (!components) return null;
+      const { strokes } = components;
+      const nearby = pickStrokeDistractors(strokes, difficulty, count, rng);
+      return withOptions(type, hanja.char, `${strokes}획`, nearby.map(n => `${n}획`), rng);
+    }
+  }
+};
+
+// Random question type allowed at this grade, falling back to the basic types when the
+// chosen one cannot be asked about this character.
+export const generateQuestion = (
+  grade: Grade,
+  hanja: HanjaData,
+  pool: HanjaData[],
+  difficulty: QuizDifficulty,
+  rng: Rng
+): QuizQuestion | null => {
+  const allowed = QUIZ_TYPES_BY_GRADE[grade];
+  for (const type of [...shuffle(allowed, rng), ...BASIC_TYPES]) {
+    const question = buildQuestion(type, hanja, pool, difficulty, rng);
+    if (question) return question;
+  }
+  return null;
+};
+
+// The correct answer as a player would give it (AI seats answer with this)
+export const getCorrectAnswer = (quiz: QuizState): string =>
+  quiz.type === 'TYPED_EUM' ? quiz.acceptedAnswers[0] : quiz.correctOptionId;
+
+// What to display as the correct answer once results are shown
+export const getCorrectLabel = (quiz: QuizState): string =>
+  quiz.type === 'TYPED_EUM'
+    ? quiz.acceptedAnswers[0] || ''
+    : quiz.options.find(o => o.id === quiz.correctOptionId)?.label || '';
@@ -0,0 +1,71 @@
+// Seeded randomness. A generator's whole state is one 32-bit integer (mulberry32), so a game
+// keeps it in GameState and every random decision can be reproduced from the match seed.
+
+export interface Rng {
+  next: () => number; // [0, 1)
+  getState: () => number; // Where the next draw starts from
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    },
+    getState: () => s
+  };
+};
+
+// FNV-1a
+const hashString = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Stable pseudo-random value in [0, 1) for a string key
+export const hashToUnit = (key: string): number => hashString(key) / 0x100000000;
+
+export const seedToState = (seed: string): number => hashString(seed);
+
+// A separate stream for one decision (an AI's peek, a board sample) that leaves the
+// game's own stream where it was
+export const forkRng = (state: number, key: string): Rng => createRng(hashString(`${state}:${key}`));
+
+const SEED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const SEED_LENGTH = 6;
+
+// Short enough to read out to another class. The only game decision left to Math.random.
+export const createSeed = (): string =>
+  Array.from({ length: SEED_LENGTH }, () => SEED_CHARS[Math.floor(Math.random() * SEED_CHARS.length)]).join('');
+
+export const normalizeSeed = (text: string): string => text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12);
+
+// Fisher–Yates
+export function shuffle<T>(array: T[], rng: Rng): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export const pickRandom = <T>(array: T[], rng: Rng): T | undefined => array[Math.floor(rng.next() * array.length)];
+
+// Weighted sample without replacement (Efraimidis–Spirakis): heavier items tend to come first
+export const weightedSample = <T>(items: T[], weight: (item: T) => number, count: number, rng: Rng): T[] =>
+  items
+    .map(item => ({ item, key: rng.next() ** (1 / Math.max(weight(item), 1e-6)) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(entry => entry.item);
+
+export const randomBetween = (min: number, max: number, rng: Rng): number => min + rng.next() * (max - min);
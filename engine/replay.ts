@@ -0,0 +1,105 @@
+import { AnswerOutcome, Cell, GameEvent, GameState, HanjaData, QuizType } from '../types';
+import { checkBingo } from './board';
+
+// Rebuilds a finished match from its event stream (GameState.events), one step per event.
+// Cells never move once dealt, so the boards start from their final layout face down and
+// the FLIP events turn them; lines, points and shields follow their own events.
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  color: string;
+  board: Cell[];
+  lines: number;
+  points: number;
+  hasShield: boolean;
+}
+
+export interface ReplayQuiz {
+  ownerId: string;
+  hanja: HanjaData | null;
+  quizType: QuizType;
+  results: Record<string, AnswerOutcome | null>; // playerId -> outcome, once answered
+}
+
+// The match as it stood right after one event
+export interface ReplayFrame {
+  players: ReplayPlayer[];
+  drafting: boolean; // Boards are still being filled in
+  activePlayerId: string | null;
+  peekedCellIds: string[];
+  quiz: ReplayQuiz | null;
+}
+
+export interface ReplayStep {
+  event: GameEvent;
+  frame: ReplayFrame;
+  turn: number; // 0 while drafting, then one per turn
+}
+
+const updatePlayer = (frame: ReplayFrame, playerId: string, update: (p: ReplayPlayer) => ReplayPlayer): ReplayFrame => ({
+  ...frame,
+  players: frame.players.map(p => (p.id === playerId ? update(p) : p))
+});
+
+const applyEvent = (frame: ReplayFrame, event: GameEvent): ReplayFrame => {
+  switch (event.type) {
+    case 'DRAFT_START':
+      return { ...frame, drafting: true };
+    case 'DRAFT_DONE':
+      return { ...frame, drafting: false };
+    case 'TURN_START':
+      return { ...frame, activePlayerId: event.playerId, peekedCellIds: [], quiz: null };
+    case 'PEEK':
+      return event.cellId ? { ...frame, peekedCellIds: [...frame.peekedCellIds, event.cellId] } : frame;
+    case 'SELECT':
+      return { ...frame, quiz: { ownerId: event.playerId, hanja: event.hanja, quizType: event.quizType, results: {} } };
+    case 'ANSWER':
+      return frame.quiz
+        ? { ...frame, quiz: { ...frame.quiz, results: { ...frame.quiz.results, [event.playerId]: event.outcome } } }
+        : frame;
+    case 'FLIP':
+      return updatePlayer(frame, event.playerId, p => {
+        const board = p.board.map(c => (c.id === event.cellId ? { ...c, isFlipped: event.faceUp } : c));
+        return { ...p, board, lines: checkBingo(board) };
+      });
+    case 'SHIELD':
+      return updatePlayer(frame, event.playerId, p => ({ ...p, hasShield: !event.used }));
+    case 'SCORE':
+      return {
+        ...frame,
+        players: frame.players.map(p => ({ ...p, points: p.points + (event.points[p.id] ?? 0) }))
+      };
+    default:
+      return frame;
+  }
+};
+
+export const buildReplay = (state: GameState): ReplayStep[] => {
+  let frame: ReplayFrame = {
+    players: state.players.map(p => ({
+      id: p.id,
+      name: p.name,
+      color: p.color,
+      board: p.board.map(c => ({ ...c, isFlipped: false })),
+      lines: 0,
+      points: 0,
+      hasShield: false
+    })),
+    drafting: state.settings.mode === 'DRAFT',
+    activePlayerId: null,
+    peekedCellIds: [],
+    quiz: null
+  };
+  return state.events.map(event => {
+    frame = applyEvent(frame, event);
+    return { event, frame, turn: event.turn };
+  });
+};
+
+// Index of the first step of the turn `delta` turns away from `index`'s turn
+export const findTurnStart = (steps: ReplayStep[], index: number, delta: number): number => {
+  const target = Math.max(0, Math.min(steps[steps.length - 1]?.turn ?? 0, (steps[index]?.turn ?? 0) + delta));
+  const found = steps.findIndex(step => step.turn === target);
+  return found < 0 ? index : found;
+};
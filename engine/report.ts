@@ -0,0 +1,168 @@
+import { AnswerOutcome, GameEvent, GameState, Grade, HanjaData } from '../types';
+import { formatGrade, t } from '../services/i18n';
+import { toCsv } from '../services/csv';
+
+// End-of-match statistics, built from the event stream (GameState.events). Pure so the
+// same report can be shown, printed or exported as CSV.
+
+export interface LineCompletion {
+  line: number; // Index into getLines(boardSize)
+  turn: number;
+}
+
+export interface PlayerReport {
+  playerId: string;
+  name: string;
+  color: string;
+  isWinner: boolean;
+  points: number;
+  correct: number;
+  wrong: number;
+  timeouts: number;
+  accuracy: number | null; // 0-1 over every quiz, null before the first one
+  averageSeconds: number | null; // Answer latency, over answers given before the clock ran out
+  lines: LineCompletion[];
+}
+
+export interface HanjaReport {
+  hanja: HanjaData;
+  turns: number[];
+  results: Record<string, AnswerOutcome[]>; // playerId -> one outcome per time it was asked
+  correct: number;
+  total: number;
+  accuracy: number | null; // null when nobody answered it (the match ended mid-quiz)
+}
+
+export interface MatchReport {
+  seed: string;
+  grade: Grade;
+  boardSize: number;
+  turns: number;
+  players: PlayerReport[];
+  hanja: HanjaReport[]; // Most missed first
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// Most missed first, then in the order they were asked; unanswered characters go last
+const compareHanja = (a: HanjaReport, b: HanjaReport): number => {
+  if (a.accuracy === null || b.accuracy === null) {
+    return Number(a.accuracy === null) - Number(b.accuracy === null) || a.turns[0] - b.turns[0];
+  }
+  return a.accuracy - b.accuracy || a.turns[0] - b.turns[0];
+};
+
+type EventOf<T extends GameEvent['type']> = Extract<GameEvent, { type: T }>;
+
+const ofType = <T extends GameEvent['type']>(events: GameEvent[], type: T): EventOf<T>[] =>
+  events.filter((event): event is EventOf<T> => event.type === type);
+
+export const buildMatchReport = (state: GameState): MatchReport => {
+  const { events, settings } = state;
+  const answers = ofType(events, 'ANSWER');
+  const selects = ofType(events, 'SELECT');
+
+  const players = state.players.map((p): PlayerReport => {
+    const own = answers.filter(a => a.playerId === p.id);
+    const outcomes = own.map(a => a.outcome);
+    const correct = outcomes.filter(o => o === 'CORRECT').length;
+    return {
+      playerId: p.id,
+      name: p.name,
+      color: p.color,
+      isWinner: !!state.outcome?.winnerIds.includes(p.id),
+      points: p.points,
+      correct,
+      wrong: outcomes.filter(o => o === 'WRONG').length,
+      timeouts: outcomes.filter(o => o === 'TIMEOUT').length,
+      accuracy: outcomes.length > 0 ? correct / outcomes.length : null,
+      averageSeconds: average(own.flatMap(a => (a.latencyMs === null ? [] : [a.latencyMs / 1000]))),
+      lines: ofType(events, 'LINE').filter(e => e.playerId === p.id).map(e => ({ line: e.line, turn: e.turn }))
+    };
+  });
+
+  const byChar = new Map<string, HanjaReport>();
+  selects.forEach(select => {
+    if (!select.hanja) return;
+    const entry = byChar.get(select.hanja.char) || {
+      hanja: select.hanja,
+      turns: [],
+      results: {},
+      correct: 0,
+      total: 0,
+      accuracy: null
+    };
+    entry.turns.push(select.turn);
+    answers.filter(a => a.turn === select.turn && a.outcome).forEach(({ playerId, outcome }) => {
+      entry.results[playerId] = [...(entry.results[playerId] || []), outcome!];
+      entry.total++;
+      if (outcome === 'CORRECT') entry.correct++;
+    });
+    entry.accuracy = entry.total > 0 ? entry.correct / entry.total : null;
+    byChar.set(select.hanja.char, entry);
+  });
+
+  return {
+    seed: state.seed,
+    grade: settings.grade,
+    boardSize: settings.boardSize,
+    turns: selects.length,
+    players,
+    hanja: Array.from(byChar.values()).sort(compareHanja)
+  };
+};
+
+// Rows, columns, then both diagonals, in getLines order
+export const describeLine = (line: number, size: number): string => {
+  if (line < size) return t('line.row', { n: line + 1 });
+  if (line < size * 2) return t('line.column', { n: line - size + 1 });
+  return t(line === size * 2 ? 'line.diagonalDown' : 'line.diagonalUp');
+};
+
+export const describeOutcome = (outcome: AnswerOutcome): string => t(`outcome.${outcome}`);
+
+// One row per player per quiz, read from the event stream, so a spreadsheet can pivot by
+// character or by player
+export const matchRoundsToCsv = (state: GameState): string => {
+  const names = Object.fromEntries(state.players.map(p => [p.id, p.name]));
+  const header = [
+    t('report.csvTurn'),
+    t('report.csvHanja'),
+    t('report.csvHunEum'),
+    t('report.csvGrade'),
+    t('report.csvQuizType'),
+    t('report.csvBoard'),
+    t('report.csvPlayer'),
+    t('report.csvResult'),
+    t('report.csvSeconds'),
+    t('report.csvPoints'),
+    t('report.csvLines')
+  ];
+  const { events, settings } = state;
+  const answers = ofType(events, 'ANSWER');
+  const scores = ofType(events, 'SCORE');
+  const lines = ofType(events, 'LINE');
+  const rows = ofType(events, 'SELECT').flatMap(select => {
+    const { hanja, turn } = select;
+    if (!hanja) return [];
+    const points = scores.find(e => e.turn === turn)?.points ?? {};
+    return state.players.map(p => {
+      const answer = answers.find(a => a.turn === turn && a.playerId === p.id);
+      return [
+        turn,
+        hanja.char,
+        hanja.hunEum,
+        formatGrade(hanja.grade || settings.grade),
+        t(`quizType.${select.quizType}`),
+        names[select.playerId],
+        p.name,
+        answer?.outcome ? describeOutcome(answer.outcome) : '',
+        !answer || answer.latencyMs === null ? '' : (answer.latencyMs / 1000).toFixed(1),
+        points[p.id] ?? '',
+        lines.filter(e => e.turn === turn && e.playerId === p.id).map(e => describeLine(e.line, settings.boardSize)).join(' ')
+      ];
+    });
+  });
+  return toCsv([header, ...rows]);
+};
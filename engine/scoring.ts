@@ -0,0 +1,94 @@
+import { AnswerOutcome, ScoringRules, TieBreak } from '../types';
+
+// Quiz points and flip rules for GameSettings.scoring. Points never decide the match on
+// their own (the bingo goal does), but they break ties and show up in the report.
+
+export const TIE_BREAKS: TieBreak[] = ['POINTS', 'SPEED', 'TURN_ORDER', 'SHARED', 'PLAYOFF'];
+
+export const DEFAULT_SCORING: ScoringRules = {
+  orderBonus: true,
+  speedBonus: true,
+  wrongPenalty: false,
+  steal: false,
+  tieBreak: 'POINTS'
+};
+
+export const CORRECT_POINTS = 10;
+export const ORDER_BONUS = [5, 3, 1]; // First, second and third correct answer
+export const SPEED_BONUS_SECONDS = 5; // One point per second left of this window
+export const WRONG_PENALTY = 5;
+// Totals never drop below this: a penalty at 0 points costs nothing, and ties are
+// compared on the floored totals
+export const MIN_POINTS = 0;
+
+// One evaluated quiz, as the scoring rules see it
+export interface ScoredRound {
+  answerOrder: string[]; // Player ids in the order their answers arrived
+  results: Record<string, AnswerOutcome>;
+  answerSeconds: Record<string, number>; // Missing for timeouts
+}
+
+// Correct answers, fastest first; answers in the same second keep their arrival order
+export const rankCorrectAnswers = (round: ScoredRound): string[] =>
+  round.answerOrder
+    .filter(id => round.results[id] === 'CORRECT')
+    .map((id, arrival) => ({ id, arrival, seconds: round.answerSeconds[id] ?? Infinity }))
+    .sort((a, b) => a.seconds - b.seconds || a.arrival - b.arrival)
+    .map(a => a.id);
+
+// Points each player gains (or loses) for the round
+export const scoreRound = (round: ScoredRound, rules: ScoringRules): Record<string, number> => {
+  const ranked = rankCorrectAnswers(round);
+  return Object.fromEntries(
+    Object.entries(round.results).map(([id, outcome]) => {
+      if (outcome === 'WRONG') return [id, rules.wrongPenalty ? -WRONG_PENALTY : 0];
+      if (outcome === 'TIMEOUT') return [id, 0];
+      const order = rules.orderBonus ? ORDER_BONUS[ranked.indexOf(id)] ?? 0 : 0;
+      const speed = rules.speedBonus ? Math.max(0, SPEED_BONUS_SECONDS - (round.answerSeconds[id] ?? Infinity)) : 0;
+      return [id, CORRECT_POINTS + order + speed];
+    })
+  );
+};
+
+// A player's total after a round's gain or loss
+export const addPoints = (total: number, delta: number): number => Math.max(MIN_POINTS, total + delta);
+
+// Whose cell flips. With the steal rule the card belongs to the turn owner: a correct owner
+// flips alone, and only when the owner misses can the others steal it.
+export const getFlippingPlayers = (round: ScoredRound, ownerId: string, rules: ScoringRules): string[] => {
+  const correct = Object.keys(round.results).filter(id => round.results[id] === 'CORRECT');
+  if (!rules.steal) return correct;
+  return correct.includes(ownerId) ? [ownerId] : correct;
+};
+
+export interface TieBreakCandidate {
+  id: string;
+  points: number; // Match total including this round
+  seat: number; // Seats after the turn owner (the owner is 0)
+}
+
+// Several players completed their goal on the same answer; a ranking rule picks one,
+// falling back to the other measures and finally to turn order so there is always a
+// single winner. SHARED and PLAYOFF are settled by the engine instead.
+export const breakTie = (candidates: TieBreakCandidate[], round: ScoredRound, rule: TieBreak): string => {
+  const ranked = rankCorrectAnswers(round);
+  const speed = (c: TieBreakCandidate) => {
+    const rank = ranked.indexOf(c.id);
+    return rank < 0 ? Infinity : rank;
+  };
+  const keys = (c: TieBreakCandidate): number[] => {
+    switch (rule) {
+      case 'SPEED':
+        return [speed(c), -c.points, c.seat];
+      case 'TURN_ORDER':
+        return [c.seat];
+      default:
+        return [-c.points, speed(c), c.seat];
+    }
+  };
+  const compare = (a: number[], b: number[]) => {
+    const i = a.findIndex((value, j) => value !== b[j]);
+    return i < 0 ? 0 : a[i] - b[i];
+  };
+  return [...candidates].sort((a, b) => compare(keys(a), keys(b)))[0].id;
+};
@@ -0,0 +1,129 @@
+import { GameSettings, GameState, Tournament, TournamentFormat, TournamentGame } from '../types';
+import { getSeatName } from './gameEngine';
+import { normalizeSeed } from './random';
+
+// Best-of-N matches and round-robin brackets over several local games. Pure, like the
+// engine: the app keeps the Tournament and feeds it each finished game.
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ['BEST_OF', 'ROUND_ROBIN'];
+export const BEST_OF_OPTIONS = [3, 5, 7];
+
+// Standing points per game
+const WIN_POINTS = 3;
+const SHARED_POINTS = 2;
+const DRAW_POINTS = 1;
+
+export interface Standing {
+  entrantId: string;
+  name: string;
+  played: number;
+  wins: number;
+  shared: number;
+  draws: number;
+  losses: number;
+  standingPoints: number;
+  quizPoints: number; // Summed over every game
+}
+
+export const createTournament = (settings: GameSettings, format: TournamentFormat, bestOf: number): Tournament => ({
+  format,
+  bestOf,
+  settings,
+  entrants: settings.seats.slice(0, settings.playerCount).map((seat, i) => ({ id: `entrant-${i + 1}`, seat })),
+  games: [],
+  currentSeed: null
+});
+
+// Every pair once, scheduled round by round (circle method)
+const getRoundRobinPairs = (ids: string[]): string[][] => {
+  const slots = ids.length % 2 ? [...ids, ''] : [...ids];
+  const pairs: string[][] = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const [a, b] = [slots[i], slots[slots.length - 1 - i]];
+      if (a && b) pairs.push([a, b]);
+    }
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return pairs;
+};
+
+export const getGamesPlanned = (tournament: Tournament): number =>
+  tournament.format === 'BEST_OF'
+    ? tournament.bestOf
+    : getRoundRobinPairs(tournament.entrants.map(e => e.id)).length;
+
+const countWins = (tournament: Tournament, entrantId: string): number =>
+  tournament.games.filter(g => g.winnerIds.includes(entrantId)).length;
+
+// Entrants of the next game in seat order, or null once the tournament is decided
+export const getNextPairing = (tournament: Tournament): string[] | null => {
+  const { games, entrants } = tournament;
+  if (tournament.format === 'BEST_OF') {
+    const majority = Math.floor(tournament.bestOf / 2) + 1;
+    const decided = games.length >= tournament.bestOf || entrants.some(e => countWins(tournament, e.id) >= majority);
+    return decided ? null : entrants.map(e => e.id);
+  }
+  return getRoundRobinPairs(entrants.map(e => e.id))[games.length] ?? null;
+};
+
+export const isTournamentOver = (tournament: Tournament): boolean => getNextPairing(tournament) === null;
+
+// Settings for a game between `entrantIds`. A fixed tournament seed gives every game
+// its own seed derived from it, so the whole tournament can be replayed.
+export const getTournamentGameSettings = (tournament: Tournament, entrantIds: string[]): GameSettings => {
+  const { settings } = tournament;
+  const seats = entrantIds.map(id => tournament.entrants.find(e => e.id === id)!.seat);
+  const gameNumber = String(tournament.games.length + 1).padStart(2, '0');
+  return {
+    ...settings,
+    playerCount: seats.length,
+    seats: settings.seats.map((seat, i) => seats[i] ?? seat),
+    seed: settings.seed ? normalizeSeed(settings.seed.slice(0, 10) + gameNumber) : ''
+  };
+};
+
+// Adds the finished game the tournament was waiting for; any other game is ignored
+export const recordTournamentGame = (tournament: Tournament, state: GameState): Tournament => {
+  const entrantIds = getNextPairing(tournament);
+  if (!entrantIds || !tournament.currentSeed || state.seed !== tournament.currentSeed || !state.outcome) {
+    return tournament;
+  }
+  const entrantOf = (playerId: string) => entrantIds[state.players.findIndex(p => p.id === playerId)];
+  const game: TournamentGame = {
+    seed: state.seed,
+    entrantIds,
+    winnerIds: state.outcome.winnerIds.map(entrantOf),
+    points: Object.fromEntries(state.players.map(p => [entrantOf(p.id), p.points]))
+  };
+  return { ...tournament, games: [...tournament.games, game], currentSeed: null };
+};
+
+// Entrant numbers stay fixed for the whole tournament, whichever seat they play from
+export const getEntrantName = (tournament: Tournament, entrantId: string): string => {
+  const index = tournament.entrants.findIndex(e => e.id === entrantId);
+  return getSeatName(tournament.entrants[index].seat, index);
+};
+
+// Most standing points first, then quiz points, then outright wins
+export const getStandings = (tournament: Tournament): Standing[] =>
+  tournament.entrants
+    .map((entrant): Standing => {
+      const played = tournament.games.filter(g => g.entrantIds.includes(entrant.id));
+      const won = played.filter(g => g.winnerIds.includes(entrant.id));
+      const wins = won.filter(g => g.winnerIds.length === 1).length;
+      const shared = won.length - wins;
+      const draws = played.filter(g => g.winnerIds.length === 0).length;
+      return {
+        entrantId: entrant.id,
+        name: getEntrantName(tournament, entrant.id),
+        played: played.length,
+        wins,
+        shared,
+        draws,
+        losses: played.length - won.length - draws,
+        standingPoints: wins * WIN_POINTS + shared * SHARED_POINTS + draws * DRAW_POINTS,
+        quizPoints: played.reduce((sum, g) => sum + (g.points[entrant.id] ?? 0), 0)
+      };
+    })
+    .sort((a, b) => b.standingPoints - a.standingPoints || b.quizPoints - a.quizPoints || b.wins - a.wins);
@@ -0,0 +1,78 @@
+import { Cell, DraftState, GameEvent, GamePhase, GameState, HanjaData, Player, QuizState } from '../types';
+
+// What a single seat may see of the full state. The server only ever sends this, so other
+// players' boards, peeks and the quiz answer never reach a client before they are public.
+
+export const HIDDEN_ANSWER = 'HIDDEN';
+
+const HIDDEN_HANJA: HanjaData = { id: 'hidden', char: '', hun: '', eum: '', hunEum: '' };
+
+// The prompt and option labels are all a player needs until the results are in
+const maskQuiz = (quiz: QuizState, viewerId: string): QuizState => {
+  if (quiz.resultsShown) return quiz;
+  return {
+    ...quiz,
+    targetHanja: quiz.targetHanja && HIDDEN_HANJA,
+    correctOptionId: '',
+    acceptedAnswers: [],
+    answers: Object.fromEntries(
+      Object.entries(quiz.answers).map(([playerId, answer]) => [playerId, playerId === viewerId ? answer : HIDDEN_ANSWER])
+    )
+  };
+};
+
+// Opponent cells stay face down unless flipped or revealed by the quiz results
+const maskBoard = (board: Cell[], playerIndex: number, quiz: QuizState | null): Cell[] =>
+  board.map(cell => {
+    const isRevealed = cell.isFlipped || (!!quiz?.resultsShown && quiz.targetHanja?.id === cell.hanja.id);
+    return isRevealed
+      ? cell
+      : { ...cell, id: `hidden-${playerIndex}-${cell.gridIndex}`, hanja: HIDDEN_HANJA, isPeeked: false };
+  });
+
+const maskDraft = (draft: DraftState, viewerId: string): DraftState => ({
+  ...draft,
+  slots: Object.fromEntries(
+    Object.entries(draft.slots).map(([playerId, slots]) => [
+      playerId,
+      playerId === viewerId ? slots : slots.map(s => (s ? HIDDEN_HANJA : null))
+    ])
+  ),
+  aiPreferences: {}
+});
+
+// Other seats' peeks stay private, and the open quiz's card and results wait like the quiz
+// itself. Also used for the local log, where `viewerId` is null.
+export const maskEvents = (state: GameState, viewerId: string | null): GameEvent[] => {
+  const openTurn = state.quiz && !state.quiz.resultsShown ? state.events[state.events.length - 1]?.turn : undefined;
+  return state.events.map((event): GameEvent => {
+    if (event.type === 'PEEK' && event.playerId !== viewerId) return { ...event, cellId: '' };
+    if (event.turn !== openTurn) return event;
+    if (event.type === 'SELECT') return { ...event, hanja: null };
+    if (event.type === 'ANSWER') return { ...event, outcome: null };
+    return event;
+  });
+};
+
+export const getPlayerView = (state: GameState, viewerId: string): GameState => {
+  // Once the match is over everything is public, including the seed and the replay log
+  if (state.phase === GamePhase.GAME_OVER) return state;
+  const isViewerTurn = state.players[state.turnIndex]?.id === viewerId;
+
+  const players = state.players.map((p: Player, i): Player =>
+    p.id === viewerId ? p : { ...p, board: maskBoard(p.board, i, state.quiz), seenCellIds: [] }
+  );
+
+  return {
+    ...state,
+    players,
+    peekedCardIds: isViewerTurn ? state.peekedCardIds : [],
+    quiz: state.quiz && maskQuiz(state.quiz, viewerId),
+    draft: state.draft && maskDraft(state.draft, viewerId),
+    events: maskEvents(state, viewerId),
+    // The seed deals every board, and the log holds every answer
+    seed: '',
+    rngState: 0,
+    actionLog: []
+  };
+};
@@ -0,0 +1,132 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, ServerMessage } from '../types';
+import {
+  Room,
+  RoomError,
+  Seat,
+  announceSeat,
+  closeRoom,
+  createRoom,
+  disconnectSeat,
+  handlePlayerAction,
+  isRoomEmpty,
+  joinRoom,
+  normalizeSettings,
+  resumeSeat,
+  startRoomGame
+} from './room';
+
+// Local game server: `npm start` here, then pick "온라인" in the app.
+// Binds to localhost only; it is meant for development and LAN-less testing.
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const EMPTY_ROOM_TTL = 10 * 60 * 1000; // Rooms nobody is connected to are dropped after this
+
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I/O, easy to read aloud
+
+const rooms = new Map<string, Room>();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const newRoomCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from({ length: 4 }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const findRoom = (code: string): Room => {
+  const room = rooms.get(code.trim().toUpperCase());
+  if (!room) throw new RoomError({ key: 'error.roomNotFound' });
+  return room;
+};
+
+const watchExpiry = (room: Room) => {
+  clearTimeout(expiryTimers.get(room.code));
+  expiryTimers.delete(room.code);
+  if (!isRoomEmpty(room)) return;
+
+  expiryTimers.set(room.code, setTimeout(() => {
+    closeRoom(room);
+    rooms.delete(room.code);
+    expiryTimers.delete(room.code);
+    console.log(`room ${room.code} closed`);
+  }, EMPTY_ROOM_TTL));
+};
+
+const wss = new WebSocketServer({ port: PORT, host: HOST });
+
+wss.on('connection', (socket: WebSocket) => {
+  let membership: { room: Room; seat: Seat } | null = null;
+
+  const send = (message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const attach = (room: Room, seat: Seat) => {
+    membership = { room, seat };
+    send({ type: 'JOINED', roomCode: room.code, playerId: seat.playerId, token: seat.token! });
+    announceSeat(room, seat);
+    watchExpiry(room);
+  };
+
+  const detach = (leaving: boolean) => {
+    if (!membership) return;
+    const { room, seat } = membership;
+    membership = null;
+    if (seat.send === send) disconnectSeat(room, seat, leaving);
+    watchExpiry(room);
+  };
+
+  const handleMessage = (message: ClientMessage) => {
+    switch (message.type) {
+      case 'CREATE': {
+        detach(true);
+        const room = createRoom(newRoomCode(), normalizeSettings(message.settings));
+        rooms.set(room.code, room);
+        console.log(`room ${room.code} created`);
+        attach(room, joinRoom(room, message.name, send));
+        return;
+      }
+      case 'JOIN': {
+        detach(true);
+        const room = findRoom(message.roomCode);
+        attach(room, joinRoom(room, message.name, send));
+        return;
+      }
+      case 'RESUME': {
+        detach(false);
+        const room = findRoom(message.roomCode);
+        attach(room, resumeSeat(room, message.token, send));
+        return;
+      }
+      case 'START':
+        if (!membership) throw new RoomError({ key: 'error.joinFirst' });
+        startRoomGame(membership.room, membership.seat.playerId);
+        return;
+      case 'ACTION':
+        if (!membership) throw new RoomError({ key: 'error.joinFirst' });
+        handlePlayerAction(membership.room, membership.seat.playerId, message.action);
+        return;
+      case 'LEAVE':
+        detach(true);
+        return;
+    }
+  };
+
+  socket.on('message', data => {
+    try {
+      handleMessage(JSON.parse(data.toString()) as ClientMessage);
+    } catch (error) {
+      // Room errors are meant for the player; anything else is a bad message
+      const message = error instanceof RoomError ? error.reason : { key: 'error.badRequest' };
+      if (!(error instanceof RoomError)) console.error(error);
+      send({ type: 'ERROR', message });
+    }
+  });
+
+  socket.on('close', () => detach(false));
+});
+
+wss.on('listening', () => console.log(`Han-Bingo server listening on ws://${HOST}:${PORT}`));
@@ -0,0 +1,301 @@
+import { randomUUID } from 'crypto';
+import { GameAction, GamePhase, GameSettings, GameState, MessageRef, RoomInfo, ScoringRules, SeatConfig, ServerMessage } from '../types';
+import {
+  DEFAULT_SETTINGS,
+  RESULTS_DELAY,
+  TURN_START_DELAY,
+  advance,
+  gameReducer,
+  getActivePlayer,
+  getBoardCellCount,
+  getDefaultSeatName,
+  initialGameState,
+  isTimedPhase,
+  selectCard,
+  resolveTimeout,
+  stampAction,
+  startGame
+} from '../engine/gameEngine';
+import { AIMove, AI_FINISH_PEEK_DELAY, decideAnswer, decideDraftPlacement, decidePeek, decideSelect } from '../engine/ai';
+import { BOARD_SIZES, WIN_PATTERNS } from '../engine/board';
+import { QUIZ_DIFFICULTIES } from '../engine/distractors';
+import { TIE_BREAKS } from '../engine/scoring';
+import { createRng, createSeed, normalizeSeed, seedToState } from '../engine/random';
+import { getPlayerView } from '../engine/view';
+import { BUNDLED_GRADES, gradeLevel, sampleLocalHanja } from '../services/hanjaSource';
+
+// One game room. The room owns the only real GameState and runs the clock and AI seats,
+// the same way App.tsx does for offline games; clients just send intents.
+
+export type Send = (message: ServerMessage) => void;
+
+export interface Seat {
+  playerId: string;
+  name: string;
+  isAI: boolean;
+  token: string | null; // Reconnect token of the human holding this seat
+  send: Send | null; // Set while connected
+}
+
+export interface Room {
+  code: string;
+  settings: GameSettings;
+  seats: Seat[];
+  hostPlayerId: string;
+  state: GameState;
+  timers: ReturnType<typeof setTimeout>[];
+  scheduleKey: string;
+}
+
+// Carries a message catalog key (data/locales) so each client can show it in its own language
+export class RoomError extends Error {
+  constructor(readonly reason: MessageRef) {
+    super(reason.key);
+  }
+}
+
+// Clients choose the game, but never anything the engine cannot handle
+const normalizeScoring = (input: Partial<ScoringRules> | undefined): ScoringRules => {
+  const defaults = DEFAULT_SETTINGS.scoring;
+  const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+  return {
+    orderBonus: flag(input?.orderBonus, defaults.orderBonus),
+    speedBonus: flag(input?.speedBonus, defaults.speedBonus),
+    wrongPenalty: flag(input?.wrongPenalty, defaults.wrongPenalty),
+    steal: flag(input?.steal, defaults.steal),
+    tieBreak: input?.tieBreak && TIE_BREAKS.includes(input.tieBreak) ? input.tieBreak : defaults.tieBreak
+  };
+};
+
+// Profile colours end up in style attributes on every client
+const normalizeSeat = (seat: SeatConfig): SeatConfig => ({
+  ...seat,
+  color: typeof seat.color === 'string' && /^#[0-9a-f]{6}$/i.test(seat.color) ? seat.color : undefined
+});
+
+export const normalizeSettings = (input: Partial<GameSettings>): GameSettings => {
+  const settings = { ...DEFAULT_SETTINGS, ...input };
+  const boardSize = BOARD_SIZES.includes(settings.boardSize) ? settings.boardSize : DEFAULT_SETTINGS.boardSize;
+  return {
+    ...settings,
+    // Rooms always deal from the bundled dataset
+    grade: BUNDLED_GRADES.includes(settings.grade) ? settings.grade : DEFAULT_SETTINGS.grade,
+    playerCount: Math.min(Math.max(Math.round(settings.playerCount) || 2, 2), 4),
+    mode: settings.mode === 'DRAFT' ? 'DRAFT' : 'STANDARD',
+    boardSize,
+    winPattern: WIN_PATTERNS.includes(settings.winPattern) ? settings.winPattern : 'LINES',
+    winLines: Math.min(Math.max(Math.round(settings.winLines) || 1, 1), boardSize * 2 + 2),
+    seed: normalizeSeed(String(settings.seed || '')),
+    quizDifficulty: QUIZ_DIFFICULTIES.includes(settings.quizDifficulty) ? settings.quizDifficulty : DEFAULT_SETTINGS.quizDifficulty,
+    scoring: normalizeScoring(settings.scoring),
+    seats: DEFAULT_SETTINGS.seats.map((seat, i) => normalizeSeat({ ...seat, ...settings.seats?.[i] }))
+  };
+};
+
+export const createRoom = (code: string, settings: GameSettings): Room => {
+  const seats = settings.seats.slice(0, settings.playerCount).map((seat, i) => ({
+    playerId: `player-${i + 1}`,
+    name: seat.isAI ? seat.name : '',
+    isAI: seat.isAI,
+    token: null,
+    send: null
+  }));
+  if (!seats.some(s => !s.isAI)) throw new RoomError({ key: 'error.needHuman' });
+
+  return {
+    code,
+    settings,
+    seats,
+    hostPlayerId: seats.find(s => !s.isAI)!.playerId,
+    state: { ...initialGameState, settings },
+    timers: [],
+    scheduleKey: ''
+  };
+};
+
+const isStarted = (room: Room) => room.state.phase !== GamePhase.SETUP;
+
+export const getRoomInfo = (room: Room): RoomInfo => ({
+  code: room.code,
+  hostPlayerId: room.hostPlayerId,
+  started: isStarted(room),
+  seats: room.seats.map((seat, i) => ({
+    playerId: seat.playerId,
+    name: seat.name,
+    isAI: seat.isAI,
+    aiLevel: seat.isAI ? room.settings.seats[i].aiLevel : undefined,
+    claimed: seat.isAI || !!seat.token,
+    connected: !!seat.send
+  }))
+});
+
+export const isRoomEmpty = (room: Room) => room.seats.every(s => !s.send);
+
+// --- Broadcasting ---
+
+const broadcastRoom = (room: Room) => {
+  const info = getRoomInfo(room);
+  room.seats.forEach(seat => seat.send?.({ type: 'ROOM', room: info }));
+};
+
+const sendState = (room: Room, seat: Seat) => {
+  if (isStarted(room)) seat.send?.({ type: 'STATE', state: getPlayerView(room.state, seat.playerId) });
+};
+
+const broadcastState = (room: Room) => room.seats.forEach(seat => sendState(room, seat));
+
+// --- Seats ---
+
+// Takes the next free human seat and gives it a reconnect token
+export const joinRoom = (room: Room, name: string, send: Send): Seat => {
+  if (isStarted(room)) throw new RoomError({ key: 'error.roomStarted' });
+  const seat = room.seats.find(s => !s.isAI && !s.token);
+  if (!seat) throw new RoomError({ key: 'error.roomFull' });
+
+  seat.name = name.trim().slice(0, 10) || getDefaultSeatName(false);
+  seat.token = randomUUID();
+  seat.send = send;
+  return seat;
+};
+
+export const resumeSeat = (room: Room, token: string, send: Send): Seat => {
+  const seat = room.seats.find(s => s.token === token);
+  if (!seat) throw new RoomError({ key: 'error.seatNotFound' });
+
+  seat.send = send;
+  return seat;
+};
+
+// Called once the seat's owner knows its id: refreshes everyone's lobby and catches the seat up
+export const announceSeat = (room: Room, seat: Seat) => {
+  broadcastRoom(room);
+  sendState(room, seat);
+};
+
+// A dropped connection keeps its seat during the game so the player can come back.
+// Before the game starts, leaving frees the seat.
+export const disconnectSeat = (room: Room, seat: Seat, leaving: boolean) => {
+  seat.send = null;
+  if (leaving && !isStarted(room)) {
+    seat.token = null;
+    seat.name = '';
+  }
+  broadcastRoom(room);
+};
+
+// --- Game flow ---
+
+const clearTimers = (room: Room) => {
+  room.timers.forEach(clearTimeout);
+  room.timers = [];
+};
+
+const dispatch = (room: Room, action: GameAction) => {
+  const next = gameReducer(room.state, stampAction(action));
+  if (next === room.state) return;
+  room.state = next;
+  schedule(room);
+  broadcastState(room);
+};
+
+const later = (room: Room, delay: number, run: () => void) => {
+  room.timers.push(setTimeout(run, delay));
+};
+
+const runAIMove = (room: Room, move: AIMove | null, afterActions?: () => void) => {
+  if (!move) return;
+  later(room, move.delay, () => {
+    move.actions.forEach(action => dispatch(room, action));
+    afterActions?.();
+  });
+};
+
+// Mirrors the timed effects in App.tsx. Timers are only replaced when the phase, turn,
+// draft pick or quiz changes, so ticks and single answers do not restart them.
+const schedule = (room: Room) => {
+  const { state } = room;
+  const quiz = state.quiz;
+  const key = [state.phase, state.turnIndex, state.draft?.pickIndex, quiz?.targetHanja?.id, quiz?.resultsShown].join('|');
+  if (key === room.scheduleKey) return;
+  room.scheduleKey = key;
+  clearTimers(room);
+
+  const tick = () => {
+    const action = room.state.timeLeft > 0 ? { type: 'TICK' as const } : resolveTimeout(room.state);
+    if (action) dispatch(room, action);
+    if (room.scheduleKey === key) later(room, 1000, tick);
+  };
+
+  switch (state.phase) {
+    case GamePhase.DRAFT:
+      runAIMove(room, decideDraftPlacement(state));
+      break;
+    case GamePhase.TURN_START:
+      later(room, TURN_START_DELAY, () => dispatch(room, advance(room.state)));
+      break;
+    case GamePhase.PEEK: {
+      const player = getActivePlayer(state)!;
+      runAIMove(room, decidePeek(state), () =>
+        later(room, AI_FINISH_PEEK_DELAY, () => dispatch(room, { type: 'FINISH_PEEK', playerId: player.id }))
+      );
+      break;
+    }
+    case GamePhase.SELECT:
+      runAIMove(room, decideSelect(state));
+      break;
+    case GamePhase.QUIZ:
+      if (quiz?.resultsShown) {
+        later(room, RESULTS_DELAY, () => dispatch(room, advance(room.state)));
+      } else {
+        state.players.filter(p => p.isAI).forEach(p => runAIMove(room, decideAnswer(state, p.id)));
+      }
+      break;
+  }
+
+  if (isTimedPhase(state.phase) && !quiz?.resultsShown) later(room, 1000, tick);
+};
+
+export const startRoomGame = (room: Room, playerId: string) => {
+  if (playerId !== room.hostPlayerId) throw new RoomError({ key: 'error.hostOnly' });
+  if (room.state.phase !== GamePhase.SETUP && room.state.phase !== GamePhase.GAME_OVER) {
+    throw new RoomError({ key: 'error.gameInProgress' });
+  }
+  if (room.seats.some(s => !s.isAI && !s.token)) throw new RoomError({ key: 'error.waitForSeats' });
+
+  const settings: GameSettings = {
+    ...room.settings,
+    seats: room.settings.seats.map((seat, i) => ({ ...seat, name: room.seats[i]?.name || seat.name }))
+  };
+  const seed = settings.seed || createSeed();
+  const pool = sampleLocalHanja(settings.grade, getBoardCellCount(settings), createRng(seedToState(seed)));
+  if (pool.length < getBoardCellCount(settings)) throw new RoomError({ key: 'error.notEnoughHanja', params: { level: gradeLevel(settings.grade) } });
+
+  dispatch(room, startGame(settings, pool, seed));
+  broadcastRoom(room);
+};
+
+// Rebuilds a client's intent with the seat's own id. Anything random (the quiz question)
+// is generated here.
+const toServerAction = (state: GameState, playerId: string, action: GameAction): GameAction | null => {
+  switch (action.type) {
+    case 'DRAFT_PLACE':
+      return { type: 'DRAFT_PLACE', playerId, placements: action.placements };
+    case 'PEEK':
+      return { type: 'PEEK', playerId, cellId: action.cellId };
+    case 'FINISH_PEEK':
+      return { type: 'FINISH_PEEK', playerId };
+    case 'SELECT':
+      return getActivePlayer(state)?.id === playerId ? selectCard(state, action.hanjaId) : null;
+    case 'ANSWER':
+      return { type: 'ANSWER', playerId, optionId: String(action.optionId).slice(0, 20) };
+    default:
+      return null;
+  }
+};
+
+export const handlePlayerAction = (room: Room, playerId: string, action: GameAction) => {
+  const serverAction = toServerAction(room.state, playerId, action);
+  if (serverAction) dispatch(room, serverAction);
+};
+
+export const closeRoom = (room: Room) => clearTimers(room);
@@ -0,0 +1,44 @@
+// Where local games get their characters. Like preferences, these belong to this device:
+// API keys stay in this browser and never reach the game server.
+
+const STORAGE_KEY = 'hanbingo.content';
+
+export type HanjaProviderId = 'BUNDLED' | 'FILE' | 'GEMINI' | 'OPENAI';
+
+export const HANJA_PROVIDERS: HanjaProviderId[] = ['BUNDLED', 'FILE', 'GEMINI', 'OPENAI'];
+
+export interface ContentSettings {
+  provider: HanjaProviderId;
+  geminiApiKey: string;
+  geminiModel: string;
+  openAiBaseUrl: string; // Up to and including /v1, e.g. a local LLM server
+  openAiModel: string;
+  openAiApiKey: string; // Optional; most local servers ignore it
+}
+
+export const DEFAULT_CONTENT_SETTINGS: ContentSettings = {
+  provider: 'BUNDLED',
+  geminiApiKey: '',
+  geminiModel: 'gemini-2.5-flash',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: '',
+  openAiApiKey: ''
+};
+
+export const loadContentSettings = (): ContentSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const settings = raw ? { ...DEFAULT_CONTENT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_CONTENT_SETTINGS;
+    return HANJA_PROVIDERS.includes(settings.provider) ? settings : { ...settings, provider: 'BUNDLED' };
+  } catch {
+    return DEFAULT_CONTENT_SETTINGS;
+  }
+};
+
+export const saveContentSettings = (settings: ContentSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save content settings:", error);
+  }
+};
@@ -0,0 +1,43 @@
+import { HanjaData } from "../types";
+import { ValidationIssue } from "./hanjaValidation";
+import { parseWordListFile } from "./wordLists";
+
+// A list of characters imported from the settings screen, kept in this browser.
+// Entries may name their grade; those that do not are dealt at every grade.
+
+const STORAGE_KEY = 'hanbingo.hanjaFile';
+
+export interface HanjaFile {
+  name: string;
+  hanja: HanjaData[];
+}
+
+export interface HanjaFileImport {
+  file: HanjaFile;
+  issues: ValidationIssue[];
+}
+
+// Same formats as word lists (services/wordLists.ts): JSON or CSV
+export const parseHanjaFile = (name: string, text: string): HanjaFileImport => {
+  const { hanja, issues } = parseWordListFile(name, text);
+  return { file: { name, hanja }, issues };
+};
+
+export const loadHanjaFile = (): HanjaFile | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const file = raw ? JSON.parse(raw) : null;
+    return file && Array.isArray(file.hanja) ? file : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveHanjaFile = (file: HanjaFile | null) => {
+  try {
+    if (file) localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not save hanja file:", error);
+  }
+};
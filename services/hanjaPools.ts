@@ -0,0 +1,54 @@
+import { HanjaData } from "../types";
+
+// Validated characters from hanja providers, per provider configuration and grade, kept in
+// localStorage so a grade played before starts without waiting for the provider.
+// Entries keep their character-based ids, so a character is the same HanjaData every game.
+
+const STORAGE_KEY = 'hanbingo.pools';
+
+export const POOL_CAPACITY = 120; // Newest characters kept per pool
+
+export interface HanjaPool {
+  hanja: HanjaData[];
+  updatedAt: number;
+}
+
+type PoolStore = Record<string, HanjaPool>; // provider|config|grade -> pool
+
+const loadStore = (): PoolStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PoolStore) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStore = (store: PoolStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn("Could not save hanja pools:", error);
+  }
+};
+
+export const getPool = (key: string): HanjaPool | null => {
+  const pool = loadStore()[key];
+  return pool && Array.isArray(pool.hanja) ? pool : null;
+};
+
+// New entries go first and replace older ones for the same character
+export const addToPool = (key: string, hanja: HanjaData[]): HanjaPool => {
+  const store = loadStore();
+  const chars = new Set(hanja.map(h => h.char));
+  const kept = (store[key]?.hanja ?? []).filter(h => !chars.has(h.char));
+  const pool = { hanja: [...hanja, ...kept].slice(0, POOL_CAPACITY), updatedAt: Date.now() };
+  saveStore({ ...store, [key]: pool });
+  return pool;
+};
+
+// Every pool whose key starts with `prefix` (all of them without one)
+export const clearPools = (prefix = '') => {
+  const store = loadStore();
+  saveStore(Object.fromEntries(Object.entries(store).filter(([key]) => !key.startsWith(prefix))));
+};
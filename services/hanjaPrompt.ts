@@ -0,0 +1,13 @@
+import { Grade } from "../types";
+
+// The request sent to language-model providers. Whatever comes back is checked by
+// services/hanjaValidation.ts, so the prompt only has to make good answers likely.
+export const buildHanjaPrompt = (grade: Grade, count: number, exclude: string[]): string =>
+  `Generate a list of ${count} distinct Hanja (Chinese characters) suitable for Korean Hanja Grade ${grade} (한국 어문회 ${grade} 배정한자).
+    Return JSON format.
+    IMPORTANT rules for fields:
+    - 'char': The Hanja character (e.g. '天')
+    - 'hun': The meaning in Korean ONLY. Do NOT include the sound. (e.g. '하늘' is correct. '하늘 천' is WRONG).
+    - 'eum': The sound in Korean ONLY. (e.g. '천').
+    - 'gloss': A short English meaning (e.g. 'sky').${exclude.length ? `
+    Do NOT include any of these characters: ${exclude.join('')}` : ''}`;
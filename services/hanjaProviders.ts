@@ -0,0 +1,196 @@
+import { Grade, HanjaData } from "../types";
+import { HanjaWeight, sampleLocalHanja } from "./hanjaSource";
+import { Rng, createRng, shuffle, weightedSample } from "../engine/random";
+import { HanjaFetchResult, ValidationReport, emptyReport, topUpFromLocal, validateHanjaList } from "./hanjaValidation";
+import { addToPool, clearPools, getPool } from "./hanjaPools";
+import { ContentSettings } from "./contentSettings";
+import { loadHanjaFile } from "./hanjaFile";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openAiService";
+
+// The bundled dataset is the primary source. Another provider may pick the characters
+// instead: every entry it returns is validated, and the list is topped up from the dataset
+// until exactly `count` unique entries exist.
+
+export interface HanjaRequest {
+  grade: Grade;
+  count: number;
+  exclude: string[]; // Characters the caller already has (the pool and earlier answers)
+  rng: Rng;
+  signal: AbortSignal; // Aborted when the request times out
+}
+
+// Returns raw, unchecked entries ([{ char, hun, eum, gloss? }]); an empty list means it has no more
+export type HanjaProvider = (request: HanjaRequest) => Promise<unknown>;
+
+export const PROVIDER_TIMEOUT = 20000;
+const MAX_ATTEMPTS = 3;
+const POOL_TARGET = 60; // Pools smaller than this are refilled in the background
+const REFILL_BATCH = 25;
+
+// The bundled dataset needs no setup; the others do before they are used
+export const isProviderReady = (settings: ContentSettings): boolean => {
+  switch (settings.provider) {
+    case 'FILE':
+      return !!loadHanjaFile()?.hanja.length;
+    case 'GEMINI':
+      return !!settings.geminiApiKey;
+    case 'OPENAI':
+      return !!settings.openAiBaseUrl && !!settings.openAiModel;
+    default:
+      return true;
+  }
+};
+
+const createFileProvider = (): HanjaProvider => {
+  const hanja = loadHanjaFile()?.hanja ?? [];
+  return async ({ grade, count, exclude, rng }) =>
+    shuffle(hanja.filter(h => (!h.grade || h.grade === grade) && !exclude.includes(h.char)), rng).slice(0, count);
+};
+
+// null when the bundled dataset should be used directly
+const createProvider = (settings: ContentSettings): HanjaProvider | null => {
+  if (!isProviderReady(settings)) return null;
+  switch (settings.provider) {
+    case 'FILE':
+      return createFileProvider();
+    case 'GEMINI':
+      return createGeminiProvider(settings.geminiApiKey, settings.geminiModel);
+    case 'OPENAI':
+      return createOpenAiProvider(settings.openAiBaseUrl, settings.openAiModel, settings.openAiApiKey);
+    default:
+      return null;
+  }
+};
+
+// Remote providers are pooled per configuration and grade (services/hanjaPools.ts); a
+// different model or server builds its own pool
+const poolKey = (settings: ContentSettings, grade: Grade): string =>
+  settings.provider === 'GEMINI'
+    ? `GEMINI|${settings.geminiModel}|${grade}`
+    : `OPENAI|${settings.openAiBaseUrl}|${settings.openAiModel}|${grade}`;
+
+// Imported files are read directly; pooling them would only hide edits
+const usesPool = (settings: ContentSettings): boolean =>
+  settings.provider === 'GEMINI' || settings.provider === 'OPENAI';
+
+// Rejects after `ms` even when the provider ignores the abort signal
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`No answer within ${ms / 1000}s`));
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+// Up to `count` validated characters that are not in `known`
+const requestHanja = async (
+  provider: HanjaProvider,
+  settings: ContentSettings,
+  grade: Grade,
+  count: number,
+  known: HanjaData[],
+  rng: Rng,
+  report: ValidationReport
+): Promise<HanjaData[]> => {
+  const source = settings.provider.toLowerCase();
+  let hanja: HanjaData[] = [];
+  while (hanja.length < count && report.attempts < MAX_ATTEMPTS) {
+    report.attempts++;
+    try {
+      const exclude = [...known, ...hanja].map(h => h.char);
+      const rawData = await withTimeout(
+        signal => provider({ grade, count: count - hanja.length, exclude, rng, signal }),
+        PROVIDER_TIMEOUT
+      );
+      if (Array.isArray(rawData) && rawData.length === 0) break;
+      hanja = [...hanja, ...validateHanjaList(rawData, grade, [...known, ...hanja], report.issues, source)];
+    } catch (error) {
+      console.error(`Hanja provider ${settings.provider} failed:`, error);
+      break;
+    }
+  }
+
+  if (report.issues.length > 0) {
+    console.warn("Hanja validation:", report.issues);
+  }
+  return hanja;
+};
+
+// Refills never deal a board, so they do not need the match seed
+const refillRng = (): Rng => createRng(Date.now() >>> 0);
+
+export const getPoolSize = (settings: ContentSettings, grade: Grade): number =>
+  usesPool(settings) ? getPool(poolKey(settings, grade))?.hanja.length ?? 0 : 0;
+
+// One refill per pool at a time
+const refills = new Map<string, Promise<number>>();
+
+// Adds one batch of new characters to the pool; resolves to the pool size
+export const refillPool = (settings: ContentSettings, grade: Grade): Promise<number> => {
+  const key = poolKey(settings, grade);
+  const provider = usesPool(settings) ? createProvider(settings) : null;
+  if (!provider) return Promise.resolve(getPoolSize(settings, grade));
+
+  const running = refills.get(key);
+  if (running) return running;
+  const refill = (async () => {
+    const known = getPool(key)?.hanja ?? [];
+    const fresh = await requestHanja(provider, settings, grade, REFILL_BATCH, known, refillRng(), emptyReport());
+    return fresh.length ? addToPool(key, fresh).hanja.length : known.length;
+  })().finally(() => refills.delete(key));
+  refills.set(key, refill);
+  return refill;
+};
+
+// Manual refresh: replaces the pool with a new batch, keeping the old one if the provider fails
+export const refreshPool = async (settings: ContentSettings, grade: Grade): Promise<number> => {
+  const key = poolKey(settings, grade);
+  const provider = usesPool(settings) ? createProvider(settings) : null;
+  if (!provider) return 0;
+
+  const fresh = await requestHanja(provider, settings, grade, REFILL_BATCH, [], refillRng(), emptyReport());
+  if (!fresh.length) return getPoolSize(settings, grade);
+  clearPools(key);
+  return addToPool(key, fresh).hanja.length;
+};
+
+const draw = (hanja: HanjaData[], count: number, rng: Rng, weight?: HanjaWeight): HanjaData[] =>
+  weight ? weightedSample(hanja, weight, count, rng) : shuffle(hanja, rng).slice(0, count);
+
+// `settings` is null when the game has to use the bundled dataset (fixed seeds).
+// `weight` biases picks toward review material, from the dataset and from pools alike.
+export const fetchHanjaData = async (
+  grade: Grade,
+  count: number,
+  settings: ContentSettings | null,
+  rng: Rng,
+  weight?: HanjaWeight
+): Promise<HanjaFetchResult> => {
+  const report = emptyReport();
+  const provider = settings && createProvider(settings);
+  if (!settings || !provider) {
+    return { hanja: sampleLocalHanja(grade, count, rng, weight), report };
+  }
+
+  if (!usesPool(settings)) {
+    const hanja = await requestHanja(provider, settings, grade, count, [], rng, report);
+    return { hanja: topUpFromLocal(hanja, grade, count, report, rng, weight), report };
+  }
+
+  // A pool with enough characters deals at once; only an empty or small one waits for the provider
+  const key = poolKey(settings, grade);
+  let pool = getPool(key)?.hanja ?? [];
+  if (pool.length < count) {
+    const fresh = await requestHanja(provider, settings, grade, count - pool.length, pool, rng, report);
+    if (fresh.length) pool = addToPool(key, fresh).hanja;
+  }
+  if (pool.length < POOL_TARGET) {
+    void refillPool(settings, grade);
+  }
+  return { hanja: topUpFromLocal(draw(pool, count, rng, weight), grade, count, report, rng, weight), report };
+};
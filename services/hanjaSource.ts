@@ -0,0 +1,40 @@
+import { Grade, HanjaData } from "../types";
+import { HANJA_DATASET, HANJA_DATASET_COVERAGE } from "../data/hanjaDataset";
+import { Rng, shuffle, weightedSample } from "../engine/random";
+
+// Easiest first. Each grade's exam covers its own characters plus every easier grade.
+export const GRADES: Grade[] = ['8급', '7급', '6급', '5급', '4급', '3급', '2급', '1급'];
+
+// Grades the bundled dataset covers in full. Games dealt from it alone (no other source,
+// fixed seeds, online rooms) offer only these until the 4급-1급 lists are complete.
+export const BUNDLED_GRADES: Grade[] = GRADES.filter(g => HANJA_DATASET_COVERAGE[g] === 'complete');
+
+// The number in a grade name ('8급' -> 8), for text outside Korean
+export const gradeLevel = (grade: Grade): number => parseInt(grade, 10);
+
+export const getHanjaForGrade = (grade: Grade): HanjaData[] =>
+  HANJA_DATASET.filter(h => h.grade === grade);
+
+export const getHanjaUpToGrade = (grade: Grade): HanjaData[] => {
+  const maxIndex = GRADES.indexOf(grade);
+  return HANJA_DATASET.filter(h => h.grade && GRADES.indexOf(h.grade) <= maxIndex);
+};
+
+export const findLocalHanja = (char: string): HanjaData | undefined =>
+  HANJA_DATASET.find(h => h.char === char);
+
+// Relative chance of a character being dealt (see services/studyProfile.ts)
+export type HanjaWeight = (hanja: HanjaData) => number;
+
+const sample = (hanja: HanjaData[], count: number, rng: Rng, weight?: HanjaWeight): HanjaData[] =>
+  weight ? weightedSample(hanja, weight, count, rng) : shuffle(hanja, rng).slice(0, count);
+
+// Prefers characters introduced at the chosen grade, then tops up from the easier grades.
+// The same `rng` state always deals the same characters (for shared match seeds).
+export const sampleLocalHanja = (grade: Grade, count: number, rng: Rng, weight?: HanjaWeight): HanjaData[] => {
+  const own = sample(getHanjaForGrade(grade), count, rng, weight);
+  if (own.length >= count) return own;
+
+  const easier = sample(getHanjaUpToGrade(grade).filter(h => h.grade !== grade), count - own.length, rng, weight);
+  return [...own, ...easier];
+};
@@ -0,0 +1,153 @@
+import { Grade, HanjaData, MessageRef } from "../types";
+import { HanjaWeight, findLocalHanja, sampleLocalHanja } from "./hanjaSource";
+import { Rng } from "../engine/random";
+import { MessageKey } from "./i18n";
+
+export interface ValidationIssue {
+  char: string;
+  reason: MessageKey; // validation.* in data/locales
+  action: 'rejected' | 'repaired';
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  attempts: number; // Generation requests made (0 when the bundled dataset was used directly)
+  toppedUp: number; // Entries filled in from the bundled dataset
+}
+
+export interface HanjaFetchResult {
+  hanja: HanjaData[];
+  report: ValidationReport;
+}
+
+const SINGLE_HAN = /^\p{Script=Han}$/u;
+const SINGLE_SYLLABLE = /^[가-힣]$/;
+const HAS_HANGUL = /[가-힣]/;
+
+export const emptyReport = (): ValidationReport => ({ issues: [], attempts: 0, toppedUp: 0 });
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Checks one raw item and repairs what can be repaired safely.
+// Returns null (and records why) when the item has to be dropped.
+const validateEntry = (
+  raw: unknown,
+  grade: Grade | undefined,
+  issues: ValidationIssue[],
+  source: string,
+  keepUserFields: boolean
+): HanjaData | null => {
+  const item = isRecord(raw) ? raw : {};
+  const char = readText(item.char);
+  let hun = readText(item.hun);
+  let eum = readText(item.eum);
+  let gloss = readText(item.gloss);
+  const label = char || String(item.char ?? '?');
+
+  if (!SINGLE_HAN.test(char)) {
+    issues.push({ char: label, reason: 'validation.notHan', action: 'rejected' });
+    return null;
+  }
+
+  const local = findLocalHanja(char);
+  if (local && !keepUserFields) {
+    // Bundled entries are authoritative, whatever the model said about them
+    return local;
+  }
+  if (local) {
+    // A teacher's own reading wins; only a bare character is completed from the dataset
+    if (!hun && !eum) {
+      ({ hun, eum } = local);
+      issues.push({ char, reason: 'validation.filledFromDataset', action: 'repaired' });
+    }
+    gloss = gloss || local.gloss || '';
+    grade = grade || local.grade;
+  }
+
+  if (!SINGLE_SYLLABLE.test(eum)) {
+    issues.push({ char, reason: 'validation.badEum', action: 'rejected' });
+    return null;
+  }
+
+  // The prompt forbids it, but models still answer '하늘 천' for hun
+  if (hun.endsWith(eum) && hun.length > eum.length) {
+    hun = hun.slice(0, -eum.length).replace(/[\s,·]+$/, '');
+    issues.push({ char, reason: 'validation.hunHasEum', action: 'repaired' });
+  }
+
+  if (!hun || !HAS_HANGUL.test(hun)) {
+    issues.push({ char, reason: 'validation.emptyHun', action: 'rejected' });
+    return null;
+  }
+
+  // The English gloss is optional; only its length is limited
+  gloss = gloss.slice(0, 40);
+  return {
+    id: `${source}-${char}`,
+    char,
+    hun,
+    eum,
+    hunEum: `${hun} ${eum}`,
+    ...(grade ? { grade } : {}),
+    ...(gloss ? { gloss } : {})
+  };
+};
+
+// Validates a raw list, dropping bad entries and duplicates of `existing`.
+// `source` prefixes the ids of characters that are not taken from the bundled dataset.
+// Provider output is replaced by bundled entries; `keepUserFields` keeps what a person typed.
+export const validateHanjaList = (
+  rawItems: unknown,
+  grade: Grade | undefined,
+  existing: HanjaData[],
+  issues: ValidationIssue[],
+  source: string,
+  keepUserFields = false
+): HanjaData[] => {
+  if (!Array.isArray(rawItems)) {
+    issues.push({ char: '-', reason: 'validation.notList', action: 'rejected' });
+    return [];
+  }
+
+  const seen = new Set(existing.map(h => h.char));
+  const valid: HanjaData[] = [];
+  rawItems.forEach(raw => {
+    const entry = validateEntry(raw, grade, issues, source, keepUserFields);
+    if (!entry) return;
+    if (seen.has(entry.char)) {
+      issues.push({ char: entry.char, reason: 'validation.duplicate', action: 'rejected' });
+      return;
+    }
+    seen.add(entry.char);
+    valid.push(entry);
+  });
+  return valid;
+};
+
+// Fills the list up to `count` with bundled characters it does not contain yet.
+export const topUpFromLocal = (
+  hanja: HanjaData[],
+  grade: Grade,
+  count: number,
+  report: ValidationReport,
+  rng: Rng,
+  weight?: HanjaWeight
+): HanjaData[] => {
+  if (hanja.length >= count) return hanja.slice(0, count);
+
+  const chars = new Set(hanja.map(h => h.char));
+  const extra = sampleLocalHanja(grade, count + hanja.length, rng, weight)
+    .filter(h => !chars.has(h.char))
+    .slice(0, count - hanja.length);
+  report.toppedUp += extra.length;
+  return [...hanja, ...extra];
+};
+
+export const summarizeReport = (report: ValidationReport): MessageRef | null => {
+  const repaired = report.issues.filter(i => i.action === 'repaired').length;
+  const rejected = report.issues.filter(i => i.action === 'rejected').length;
+  if (!repaired && !rejected && !report.toppedUp) return null;
+  return { key: 'log.validation', params: { repaired, rejected, toppedUp: report.toppedUp } };
+};
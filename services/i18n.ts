@@ -0,0 +1,62 @@
+import { Grade, HanjaData, Locale, MessageRef } from '../types';
+import { ko, MessageKey } from '../data/locales/ko';
+import { en } from '../data/locales/en';
+import { ja } from '../data/locales/ja';
+import { gradeLevel } from './hanjaSource';
+
+// UI text by key from the catalogs in data/locales. Korean is the source and the fallback.
+// Hanja meanings and sounds (훈/음) are quiz content and stay Korean in every locale.
+
+export type { MessageKey };
+
+const STORAGE_KEY = 'hanbingo.locale';
+
+export const LOCALES: Locale[] = ['ko', 'en', 'ja'];
+
+// Each language's own name, so a player can always find theirs
+export const LOCALE_NAMES: Record<Locale, string> = { ko: '한국어', en: 'English', ja: '日本語' };
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { ko, en, ja };
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// A saved choice first, then the browser language, then Korean
+const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // No storage (server or private mode)
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2) : undefined;
+  return isLocale(browser) ? browser : 'ko';
+};
+
+let current: Locale = detectLocale();
+
+export const getLocale = (): Locale => current;
+
+// Callers re-render afterwards; t() reads the new locale from then on
+export const setLocale = (locale: Locale) => {
+  current = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn("Could not save language:", error);
+  }
+};
+
+// Fills {name} placeholders; unknown ones are left in place so a missing parameter shows up
+export const t = (key: MessageKey, params?: MessageRef['params']): string => {
+  const template = CATALOGS[current][key] ?? ko[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export const translate = (message: MessageRef): string => t(message.key as MessageKey, message.params);
+
+export const formatGrade = (grade: Grade): string => t('common.grade', { level: gradeLevel(grade) });
+
+// The English gloss is shown next to the Korean meaning outside the Korean UI
+export const getGloss = (hanja: HanjaData): string | null =>
+  current !== 'ko' && hanja.gloss ? hanja.gloss : null;
@@ -0,0 +1,99 @@
+import { ClientMessage, ServerMessage } from "../types";
+
+// Thin WebSocket client for the local game server (server/). Reconnects on its own and
+// resumes the seat with the token the server handed out.
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:8787';
+
+const SESSION_KEY = 'hanbingo.session';
+const MAX_RETRY_DELAY = 10000;
+
+export type NetStatus = 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export interface NetSession {
+  url: string;
+  roomCode: string;
+  token: string;
+}
+
+export interface NetConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// The last seat survives a page reload, so a refresh mid-game rejoins the same room
+export const loadSession = (): NetSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as NetSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+const saveSession = (session: NetSession) => localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+
+// `hello` is sent on the first connect (CREATE, JOIN or RESUME); later reconnects resume the seat.
+export const connect = (
+  url: string,
+  hello: ClientMessage,
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (status: NetStatus) => void
+): NetConnection => {
+  let socket: WebSocket | null = null;
+  let session: NetSession | null = hello.type === 'RESUME' ? { url, roomCode: hello.roomCode, token: hello.token } : null;
+  let resuming = false;
+  let retryDelay = 1000;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const open = () => {
+    onStatus(session ? 'RECONNECTING' : 'CONNECTING');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      retryDelay = 1000;
+      onStatus('OPEN');
+      resuming = !!session;
+      socket!.send(JSON.stringify(session ? { type: 'RESUME', roomCode: session.roomCode, token: session.token } : hello));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as ServerMessage;
+      if (message.type === 'JOINED') {
+        resuming = false;
+        session = { url, roomCode: message.roomCode, token: message.token };
+        saveSession(session);
+      }
+      // The server no longer knows the seat (it restarted or the room expired), so a reload
+      // must not try to resume it again
+      if (message.type === 'ERROR' && resuming) clearSession();
+      onMessage(message);
+    };
+
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('RECONNECTING');
+      retryTimer = setTimeout(open, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'LEAVE' }));
+      socket?.close();
+      clearSession();
+      onStatus('CLOSED');
+    }
+  };
+};
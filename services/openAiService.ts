@@ -0,0 +1,42 @@
+import { HanjaProvider } from "./hanjaProviders";
+import { buildHanjaPrompt } from "./hanjaPrompt";
+
+// Any server that speaks the OpenAI chat completions API: a hosted one, or a local LLM
+// server (Ollama, llama.cpp, LM Studio...). Local models often wrap JSON in prose or code
+// fences, so the reply is searched for the list instead of parsed as is.
+
+const extractList = (text: string): unknown => {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  if (start < 0 || end < start) return [];
+
+  const parsed = JSON.parse(text.slice(start, end + 1));
+  if (Array.isArray(parsed)) return parsed;
+  // {"hanja": [...]} or any other single list inside an object
+  const list = Object.values(parsed ?? {}).find(Array.isArray);
+  return list ?? parsed;
+};
+
+export const createOpenAiProvider = (baseUrl: string, model: string, apiKey: string): HanjaProvider =>
+  async ({ grade, count, exclude, signal }) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: 'Reply with a JSON array only, without explanations.' },
+          { role: 'user', content: buildHanjaPrompt(grade, count, exclude) }
+        ],
+        temperature: 0.7
+      }),
+      signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    return extractList(data?.choices?.[0]?.message?.content ?? '');
+  };
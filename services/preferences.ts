@@ -0,0 +1,35 @@
+// Display preferences for this device. They are not game settings: they apply to every match
+// and never reach the server.
+
+const STORAGE_KEY = 'hanbingo.preferences';
+
+export interface Preferences {
+  reducedMotion: boolean; // No flips, pulses, confetti or sliding panels
+}
+
+const systemPrefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+// Until the player picks, follow the operating system setting
+export const loadPreferences = (): Preferences => {
+  const defaults: Preferences = { reducedMotion: systemPrefersReducedMotion() };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+export const savePreferences = (prefs: Preferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch (error) {
+    console.warn("Could not save preferences:", error);
+  }
+};
+
+// index.html switches animations and transitions off under this class
+export const applyPreferences = (prefs: Preferences) => {
+  document.documentElement.classList.toggle('reduce-motion', prefs.reducedMotion);
+};
@@ -0,0 +1,242 @@
+import { GameState, Grade, MessageRef } from "../types";
+import { GRADES, gradeLevel } from "./hanjaSource";
+
+// Local player profiles: a name and avatar colour picked on the setup screen, lifetime
+// stats, XP and achievements. Kept in this browser and updated when a local game ends.
+
+const STORAGE_KEY = 'hanbingo.profiles';
+
+export const AVATAR_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#a855f7', '#ec4899', '#14b8a6', '#f97316'];
+
+// XP per game
+const XP_GAME = 20;
+const XP_CORRECT = 10;
+const XP_LINE = 15;
+const XP_WIN = 100;
+const XP_SHARED_WIN = 60;
+
+const LEVEL_STEP = 100; // Level n needs LEVEL_STEP * n * (n - 1) / 2 XP in total: 0, 100, 300, 600...
+const PERFECT_MIN_ANSWERS = 5; // A perfect game needs at least this many answers
+
+export interface GradeAccuracy {
+  correct: number;
+  total: number;
+}
+
+export interface ProfileStats {
+  games: number;
+  wins: number;
+  sharedWins: number;
+  winStreak: number; // Games won in a row, up to the last one
+  bestWinStreak: number;
+  answerStreak: number; // Correct answers in a row, across games
+  bestAnswerStreak: number;
+  byGrade: Partial<Record<Grade, GradeAccuracy>>; // By the grade of the character asked
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  color: string;
+  xp: number;
+  stats: ProfileStats;
+  achievements: Record<string, number>; // Achievement id -> unlocked at
+  lastGameKey: string; // Last game recorded (getGameKey), so a game never counts twice
+  createdAt: number;
+}
+
+// One finished game from a profile's point of view
+export interface ProfileGame {
+  grade: Grade; // The match grade
+  won: boolean;
+  shared: boolean;
+  lines: number;
+  correct: number;
+  wrong: number;
+  timeouts: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: MessageRef;
+  description: MessageRef;
+  isUnlocked: (profile: PlayerProfile, game: ProfileGame) => boolean;
+}
+
+export interface LevelProgress {
+  level: number;
+  xp: number; // Into the current level
+  needed: number; // For the next level
+}
+
+// What a game earned one profile, for the game-over screen
+export interface ProfileAward {
+  profileId: string;
+  name: string;
+  xp: number;
+  levelUp: boolean;
+  unlocked: Achievement[];
+}
+
+export const getLevel = (xp: number): LevelProgress => {
+  let level = 1;
+  while (xp >= (LEVEL_STEP * level * (level + 1)) / 2) level++;
+  return { level, xp: xp - (LEVEL_STEP * level * (level - 1)) / 2, needed: LEVEL_STEP * level };
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-win',
+    name: { key: 'achievement.firstWin' },
+    description: { key: 'achievementHint.firstWin' },
+    isUnlocked: profile => profile.stats.wins + profile.stats.sharedWins > 0
+  },
+  {
+    id: 'three-lines',
+    name: { key: 'achievement.threeLines' },
+    description: { key: 'achievementHint.threeLines' },
+    isUnlocked: (_, game) => game.lines >= 3
+  },
+  ...GRADES.map((grade): Achievement => ({
+    id: `perfect-${gradeLevel(grade)}`,
+    name: { key: 'achievement.perfect', params: { level: gradeLevel(grade) } },
+    description: { key: 'achievementHint.perfect', params: { level: gradeLevel(grade), n: PERFECT_MIN_ANSWERS } },
+    isUnlocked: (_, game) =>
+      game.grade === grade && game.wrong === 0 && game.timeouts === 0 && game.correct >= PERFECT_MIN_ANSWERS
+  })),
+  {
+    id: 'win-streak-3',
+    name: { key: 'achievement.winStreak' },
+    description: { key: 'achievementHint.winStreak', params: { n: 3 } },
+    isUnlocked: profile => profile.stats.bestWinStreak >= 3
+  },
+  {
+    id: 'answer-streak-10',
+    name: { key: 'achievement.answerStreak' },
+    description: { key: 'achievementHint.answerStreak', params: { n: 10 } },
+    isUnlocked: profile => profile.stats.bestAnswerStreak >= 10
+  },
+  {
+    id: 'games-10',
+    name: { key: 'achievement.regular' },
+    description: { key: 'achievementHint.regular', params: { n: 10 } },
+    isUnlocked: profile => profile.stats.games >= 10
+  },
+  {
+    id: 'level-5',
+    name: { key: 'achievement.level' },
+    description: { key: 'achievementHint.level', params: { n: 5 } },
+    isUnlocked: profile => getLevel(profile.xp).level >= 5
+  }
+];
+
+export const loadProfiles = (): PlayerProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const profiles = raw ? JSON.parse(raw) : [];
+    return Array.isArray(profiles) ? profiles.filter(p => p && p.id && p.stats) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: PlayerProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn("Could not save profiles:", error);
+  }
+};
+
+export const createProfile = (name: string, color: string): PlayerProfile => ({
+  id: `profile-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  color,
+  xp: 0,
+  stats: {
+    games: 0,
+    wins: 0,
+    sharedWins: 0,
+    winStreak: 0,
+    bestWinStreak: 0,
+    answerStreak: 0,
+    bestAnswerStreak: 0,
+    byGrade: {}
+  },
+  achievements: {},
+  lastGameKey: '',
+  createdAt: Date.now()
+});
+
+export const getAccuracy = (stats: ProfileStats): number | null => {
+  const totals = Object.values(stats.byGrade).reduce(
+    (sum, g) => ({ correct: sum.correct + (g?.correct ?? 0), total: sum.total + (g?.total ?? 0) }),
+    { correct: 0, total: 0 }
+  );
+  return totals.total > 0 ? totals.correct / totals.total : null;
+};
+
+// A fixed seed repeats across rematches, so the game's start time tells them apart
+const getGameKey = (state: GameState): string => {
+  const start = state.events.find(e => e.type === 'GAME_START');
+  return `${state.seed}@${start?.at ?? 0}`;
+};
+
+const applyGame = (profile: PlayerProfile, state: GameState, playerId: string): { profile: PlayerProfile; game: ProfileGame } => {
+  const player = state.players.find(p => p.id === playerId)!;
+  const winnerIds = state.outcome?.winnerIds ?? [];
+  const won = winnerIds.includes(playerId);
+  const shared = won && winnerIds.length > 1;
+
+  const stats: ProfileStats = { ...profile.stats, byGrade: { ...profile.stats.byGrade } };
+  const game: ProfileGame = { grade: state.settings.grade, won, shared, lines: player.score, correct: 0, wrong: 0, timeouts: 0 };
+  state.rounds.forEach(round => {
+    const outcome = round.results[playerId];
+    if (!outcome) return;
+    const grade = round.hanja.grade || state.settings.grade;
+    const accuracy = stats.byGrade[grade] ?? { correct: 0, total: 0 };
+    const correct = outcome === 'CORRECT';
+    stats.byGrade[grade] = { correct: accuracy.correct + (correct ? 1 : 0), total: accuracy.total + 1 };
+    stats.answerStreak = correct ? stats.answerStreak + 1 : 0;
+    stats.bestAnswerStreak = Math.max(stats.bestAnswerStreak, stats.answerStreak);
+    if (correct) game.correct++;
+    else if (outcome === 'WRONG') game.wrong++;
+    else game.timeouts++;
+  });
+
+  stats.games++;
+  if (won && !shared) stats.wins++;
+  if (shared) stats.sharedWins++;
+  stats.winStreak = won ? stats.winStreak + 1 : 0;
+  stats.bestWinStreak = Math.max(stats.bestWinStreak, stats.winStreak);
+
+  const xp = XP_GAME + game.correct * XP_CORRECT + game.lines * XP_LINE + (shared ? XP_SHARED_WIN : won ? XP_WIN : 0);
+  return { profile: { ...profile, stats, xp: profile.xp + xp, lastGameKey: getGameKey(state) }, game };
+};
+
+// Adds a finished local game to the profiles of the seats that played under one
+export const recordProfileGames = (state: GameState): ProfileAward[] => {
+  const profiles = loadProfiles();
+  const awards: ProfileAward[] = [];
+  const now = Date.now();
+  const key = getGameKey(state);
+
+  const next = profiles.map(profile => {
+    const index = state.players.findIndex((p, i) => !p.isAI && state.settings.seats[i]?.profileId === profile.id);
+    if (index < 0 || profile.lastGameKey === key) return profile;
+
+    const { profile: updated, game } = applyGame(profile, state, state.players[index].id);
+    const unlocked = ACHIEVEMENTS.filter(a => !updated.achievements[a.id] && a.isUnlocked(updated, game));
+    awards.push({
+      profileId: profile.id,
+      name: profile.name,
+      xp: updated.xp - profile.xp,
+      levelUp: getLevel(updated.xp).level > getLevel(profile.xp).level,
+      unlocked
+    });
+    return { ...updated, achievements: { ...updated.achievements, ...Object.fromEntries(unlocked.map(a => [a.id, now])) } };
+  });
+
+  if (awards.length > 0) saveProfiles(next);
+  return awards;
+};
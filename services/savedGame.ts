@@ -0,0 +1,102 @@
+import { GamePhase, GameState, Tournament } from "../types";
+import { QUIZ_TYPE_INFO } from "../engine/quiz";
+
+// The local game in progress, kept in localStorage so a reload can pick it up again.
+// Online games are never saved here: the server owns their state.
+
+const STORAGE_KEY = 'hanbingo.save';
+
+// Bump whenever GameState or the rules change shape. Saves from another version are dropped.
+export const SAVE_VERSION = 8;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  state: GameState;
+}
+
+const SAVED_PHASES = [
+  GamePhase.DRAFT,
+  GamePhase.TURN_START,
+  GamePhase.PEEK,
+  GamePhase.SELECT,
+  GamePhase.QUIZ
+];
+
+// Only games that are actually under way are worth resuming
+export const isSavablePhase = (phase: GamePhase): boolean => SAVED_PHASES.includes(phase);
+
+// Catches saves written by an older build that still claim the current version
+const isPlayableState = (state: GameState): boolean => {
+  const { settings, players, quiz, draft } = state;
+  if (!settings || !Array.isArray(players) || !Array.isArray(state.events)) return false;
+  if (!isSavablePhase(state.phase) || players.length !== settings.playerCount) return false;
+  if (state.turnIndex < 0 || state.turnIndex >= players.length || typeof state.timeLeft !== 'number') return false;
+
+  const cellCount = settings.boardSize * settings.boardSize;
+  if (state.phase === GamePhase.DRAFT) {
+    return !!draft && players.every(p => draft.slots[p.id]?.length === cellCount);
+  }
+  if (!players.every(p => Array.isArray(p.board) && p.board.length === cellCount)) return false;
+  if (state.phase === GamePhase.QUIZ) {
+    return !!quiz && quiz.type in QUIZ_TYPE_INFO && !!quiz.targetHanja && !!quiz.answers;
+  }
+  return true;
+};
+
+export const saveGame = (state: GameState) => {
+  if (!isSavablePhase(state.phase)) return;
+  const save: SavedGame = { version: SAVE_VERSION, savedAt: Date.now(), state };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.warn("Could not save game:", error);
+  }
+};
+
+export const clearSavedGame = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+// The saved game, or null when there is none or it cannot be resumed by this version
+export const loadSavedGame = (): SavedGame | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const save = JSON.parse(raw) as SavedGame;
+    if (save?.version === SAVE_VERSION && save.state && isPlayableState(save.state)) return save;
+    console.warn(`Discarding incompatible saved game (version ${save?.version})`);
+  } catch (error) {
+    console.warn("Discarding unreadable saved game:", error);
+  }
+  clearSavedGame();
+  return null;
+};
+
+// A tournament in progress (engine/tournament.ts) is kept next to its current game, so
+// the standings survive a reload between games as well
+
+const TOURNAMENT_KEY = 'hanbingo.tournament';
+
+export const loadTournament = (): Tournament | null => {
+  try {
+    const raw = localStorage.getItem(TOURNAMENT_KEY);
+    const tournament = raw ? JSON.parse(raw) : null;
+    return tournament && Array.isArray(tournament.entrants) && Array.isArray(tournament.games) ? tournament : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTournament = (tournament: Tournament | null) => {
+  try {
+    if (tournament) localStorage.setItem(TOURNAMENT_KEY, JSON.stringify(tournament));
+    else localStorage.removeItem(TOURNAMENT_KEY);
+  } catch (error) {
+    console.warn("Could not save tournament:", error);
+  }
+};
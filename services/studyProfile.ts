@@ -0,0 +1,148 @@
+import { Grade, HanjaData, StudyOutcome, StudyRecord } from "../types";
+import { GRADES, HanjaWeight, getHanjaForGrade } from "./hanjaSource";
+
+// Per-learner record of every quiz target, kept in localStorage and scheduled with SM-2.
+// Learners are identified by the seat name they play under.
+
+const STORAGE_KEY = 'hanbingo.study';
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LEARNER = '나';
+
+export type StudyProfile = Record<string, StudyRecord>; // char -> record
+
+type StudyStore = Record<string, StudyProfile>; // learner -> profile
+
+export type Mastery = 'NEW' | 'WEAK' | 'LEARNING' | 'MASTERED';
+
+export interface GradeMastery {
+  grade: Grade;
+  total: number; // Characters in the bundled dataset for this grade
+  seen: number;
+  mastered: number;
+  weak: number;
+  due: number;
+}
+
+const loadStore = (): StudyStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StudyStore) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStore = (store: StudyStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn("Could not save study profile:", error);
+  }
+};
+
+export const learnerKey = (name: string): string => name.trim() || DEFAULT_LEARNER;
+
+export const getLearners = (): string[] => Object.keys(loadStore());
+
+export const getStudyProfile = (learner: string): StudyProfile => loadStore()[learnerKey(learner)] || {};
+
+const newRecord = (hanja: HanjaData, now: number): StudyRecord => ({
+  char: hanja.char,
+  hunEum: hanja.hunEum,
+  grade: hanja.grade,
+  seen: 0,
+  correct: 0,
+  wrong: 0,
+  timeouts: 0,
+  ease: 2.5,
+  repetitions: 0,
+  interval: 0,
+  due: now,
+  lastSeen: now
+});
+
+// SM-2 with answer quality 4 (correct), 1 (wrong) or 0 (timed out)
+export const scheduleReview = (record: StudyRecord, outcome: StudyOutcome, now: number): StudyRecord => {
+  const quality = outcome === 'CORRECT' ? 4 : outcome === 'WRONG' ? 1 : 0;
+  const ease = Math.max(1.3, record.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let { repetitions, interval } = record;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+    repetitions++;
+  }
+
+  return {
+    ...record,
+    seen: record.seen + 1,
+    correct: record.correct + (outcome === 'CORRECT' ? 1 : 0),
+    wrong: record.wrong + (outcome === 'WRONG' ? 1 : 0),
+    timeouts: record.timeouts + (outcome === 'TIMEOUT' ? 1 : 0),
+    ease,
+    repetitions,
+    interval,
+    due: now + interval * DAY,
+    lastSeen: now
+  };
+};
+
+export const recordAnswer = (learner: string, hanja: HanjaData, outcome: StudyOutcome, now = Date.now()) => {
+  const store = loadStore();
+  const key = learnerKey(learner);
+  const profile = store[key] || {};
+  profile[hanja.char] = scheduleReview(profile[hanja.char] || newRecord(hanja, now), outcome, now);
+  saveStore({ ...store, [key]: profile });
+};
+
+export const getMastery = (record: StudyRecord | undefined): Mastery => {
+  if (!record || record.seen === 0) return 'NEW';
+  if (record.repetitions === 0) return 'WEAK';
+  return record.interval >= 21 ? 'MASTERED' : 'LEARNING';
+};
+
+export const isDue = (record: StudyRecord, now: number): boolean => record.due <= now;
+
+// Unseen characters keep weight 1. Due and weak ones are dealt more often, well-known
+// ones less, so a game doubles as a review session.
+export const getReviewWeight = (learners: string[], now = Date.now()): HanjaWeight => {
+  const profiles = learners.map(getStudyProfile);
+  if (profiles.length === 0) return () => 1;
+  return (hanja) => Math.max(...profiles.map(profile => {
+    const record = profile[hanja.char];
+    const mastery = getMastery(record);
+    if (!record || mastery === 'NEW') return 1;
+    const overdueDays = Math.max(0, (now - record.due) / DAY);
+    const dueBoost = isDue(record, now) ? 2 + Math.min(overdueDays, 7) / 7 : 0;
+    const base = mastery === 'WEAK' ? 3 : mastery === 'MASTERED' ? 0.3 : 0.7;
+    return base + dueBoost;
+  }));
+};
+
+export const summarizeMastery = (profile: StudyProfile, now = Date.now()): GradeMastery[] =>
+  GRADES.map(grade => {
+    const chars = getHanjaForGrade(grade).map(h => h.char);
+    const records = chars.map(char => profile[char]).filter((r): r is StudyRecord => !!r);
+    return {
+      grade,
+      total: chars.length,
+      seen: records.length,
+      mastered: records.filter(r => getMastery(r) === 'MASTERED').length,
+      weak: records.filter(r => getMastery(r) === 'WEAK').length,
+      due: records.filter(r => isDue(r, now)).length
+    };
+  });
+
+// What to review next: due characters first, most often missed first
+export const getReviewQueue = (profile: StudyProfile, now = Date.now()): StudyRecord[] =>
+  Object.values(profile)
+    .filter(r => isDue(r, now) || getMastery(r) === 'WEAK')
+    .sort((a, b) => (b.wrong + b.timeouts) / b.seen - (a.wrong + a.timeouts) / a.seen || a.due - b.due);
+
+export const clearStudyProfile = (learner: string) => {
+  const { [learnerKey(learner)]: _removed, ...rest } = loadStore();
+  saveStore(rest);
+};
@@ -0,0 +1,143 @@
+import { Grade, HanjaData } from "../types";
+import { GRADES } from "./hanjaSource";
+import { HanjaFetchResult, ValidationIssue, emptyReport, topUpFromLocal, validateHanjaList } from "./hanjaValidation";
+import { Rng, shuffle } from "../engine/random";
+import { parseCsv, toCsv } from "./csv";
+
+// Teacher-made lists of characters (this week's lesson, a test range...), kept in this
+// browser. A chosen list replaces the grade sample for local games.
+
+const STORAGE_KEY = 'hanbingo.wordLists';
+
+export interface WordList {
+  id: string;
+  name: string;
+  hanja: HanjaData[];
+  updatedAt: number;
+}
+
+export interface ParsedEntries {
+  hanja: HanjaData[];
+  issues: ValidationIssue[];
+}
+
+const CSV_FIELDS = ['char', 'hun', 'eum', 'gloss', 'grade'] as const;
+
+// Spreadsheet headers teachers are likely to type, mapped to HanjaData fields
+const CSV_HEADERS: Record<string, typeof CSV_FIELDS[number]> = {
+  char: 'char', 한자: 'char', hun: 'hun', 훈: 'hun', 뜻: 'hun', eum: 'eum', 음: 'eum',
+  gloss: 'gloss', english: 'gloss', grade: 'grade', 급수: 'grade'
+};
+
+// '7급' or just '7'
+const parseGrade = (value: unknown): Grade | undefined => {
+  const text = String(value ?? '').trim();
+  return GRADES.find(g => g === text || g === `${text}급`);
+};
+
+export const loadWordLists = (): WordList[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const lists = raw ? JSON.parse(raw) : [];
+    return Array.isArray(lists) ? lists.filter(l => l && Array.isArray(l.hanja)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWordLists = (lists: WordList[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.warn("Could not save word lists:", error);
+  }
+};
+
+export const createWordList = (name: string, hanja: HanjaData[] = []): WordList => ({
+  id: `list-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  hanja,
+  updatedAt: Date.now()
+});
+
+// One entry from the editor; `others` are the list's remaining entries (for duplicates)
+export const validateWordEntry = (raw: Record<string, unknown>, others: HanjaData[]) => {
+  const issues: ValidationIssue[] = [];
+  const [entry] = validateHanjaList([raw], parseGrade(raw.grade), others, issues, 'list', true);
+  return { entry: entry ?? null, issues };
+};
+
+const validateAll = (items: unknown[], issues: ValidationIssue[]): HanjaData[] => {
+  const hanja: HanjaData[] = [];
+  items.forEach(item => {
+    const grade = typeof item === 'object' && item !== null && 'grade' in item ? parseGrade(item.grade) : undefined;
+    hanja.push(...validateHanjaList([item], grade, hanja, issues, 'list', true));
+  });
+  return hanja;
+};
+
+const csvRowsToItems = (rows: string[][]): Record<string, string>[] => {
+  const header = rows[0]?.map(cell => CSV_HEADERS[cell.trim().toLowerCase()]);
+  const hasHeader = !!header?.some(Boolean);
+  const fields = hasHeader ? header : [...CSV_FIELDS];
+  return (hasHeader ? rows.slice(1) : rows).map(row => {
+    const item: Record<string, string> = {};
+    row.forEach((cell, i) => {
+      const field = fields[i];
+      if (field) item[field] = cell;
+    });
+    return item;
+  });
+};
+
+// JSON ([...] or { hanja: [...] }) or CSV (char,hun,eum,gloss,grade, header optional)
+export const parseWordListFile = (fileName: string, text: string): ParsedEntries => {
+  const issues: ValidationIssue[] = [];
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  if (!isJson) {
+    return { hanja: validateAll(csvRowsToItems(parseCsv(text)), issues), issues };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    issues.push({ char: '-', reason: 'validation.notJson', action: 'rejected' });
+    return { hanja: [], issues };
+  }
+  const items = Array.isArray(raw) ? raw : typeof raw === 'object' && raw !== null && 'hanja' in raw ? raw.hanja : null;
+  if (!Array.isArray(items)) {
+    issues.push({ char: '-', reason: 'validation.notList', action: 'rejected' });
+    return { hanja: [], issues };
+  }
+  return { hanja: validateAll(items, issues), issues };
+};
+
+const exportEntry = (h: HanjaData) => ({
+  char: h.char,
+  hun: h.hun,
+  eum: h.eum,
+  ...(h.gloss ? { gloss: h.gloss } : {}),
+  ...(h.grade ? { grade: h.grade } : {})
+});
+
+export const wordListToJson = (list: WordList): string =>
+  JSON.stringify({ name: list.name, hanja: list.hanja.map(exportEntry) }, null, 2);
+
+export const wordListToCsv = (list: WordList): string =>
+  toCsv([[...CSV_FIELDS], ...list.hanja.map(h => [h.char, h.hun, h.eum, h.gloss ?? '', h.grade ?? ''])]);
+
+// `count` characters from the list. A shorter list is topped up from `grade` when
+// `autoFill` is on, and otherwise cannot be dealt (null).
+export const dealWordList = (
+  list: WordList,
+  count: number,
+  grade: Grade,
+  autoFill: boolean,
+  rng: Rng
+): HanjaFetchResult | null => {
+  if (list.hanja.length < count && !autoFill) return null;
+  const report = emptyReport();
+  const picked = shuffle(list.hanja, rng).slice(0, count);
+  return { hanja: topUpFromLocal(picked, grade, count, report, rng), report };
+};
@@ -1,11 +1,22 @@
 export type Grade = '8급' | '7급' | '6급' | '5급' | '4급' | '3급' | '2급' | '1급';
 
+export type Locale = 'ko' | 'en' | 'ja';
+
+// A message catalog key and its parameters. Log lines and server errors travel in this form
+// so every client shows them in its own language.
+export interface MessageRef {
+  key: string;
+  params?: Record<string, string | number>;
+}
+
 export interface HanjaData {
   id: string;
   char: string;
   hun: string; // meaning (e.g. 하늘)
   eum: string; // sound (e.g. 천)
   hunEum: string; // combined (e.g. 하늘 천)
+  gloss?: string; // English meaning for learners who do not read Korean (e.g. sky)
+  grade?: Grade; // Grade that introduces this character (bundled dataset)
 }
 
 export interface Cell {
@@ -16,20 +27,28 @@ export interface Cell {
   gridIndex: number; // 0-24 position
 }
 
+export type AILevel = 'BEGINNER' | 'INTERMEDIATE' | 'EXPERT';
+
+export type QuizDifficulty = 'EASY' | 'NORMAL' | 'HARD'; // How confusable the wrong options are
+
 export interface Player {
   id: string;
   name: string;
   isAI: boolean;
+  aiLevel?: AILevel; // Only set for AI seats
   board: Cell[]; // Each player has their own arrangement of the same 25 hanja
   score: number; // Lines completed
+  points: number; // Quiz points under GameSettings.scoring (engine/scoring.ts)
   color: string;
   bonusGauge: number; // Accumulates to 3 for a shield
   hasShield: boolean;
+  seenCellIds: string[]; // Cells this player has peeked at (AI memory)
 }
 
 export enum GamePhase {
   SETUP = 'SETUP',
   LOADING = 'LOADING',
+  DRAFT = 'DRAFT',
   TURN_START = 'TURN_START',
   PEEK = 'PEEK',
   SELECT = 'SELECT',
@@ -38,18 +57,266 @@ export enum GamePhase {
   GAME_OVER = 'GAME_OVER'
 }
 
+export type BoardSize = 3 | 4 | 5 | 6;
+
+// LINES counts completed rows/columns/diagonals; the others are fixed shapes.
+export type WinPattern = 'LINES' | 'FOUR_CORNERS' | 'X' | 'PLUS' | 'BLACKOUT';
+
+export interface SeatConfig {
+  name: string;
+  isAI: boolean;
+  aiLevel: AILevel; // Used when isAI
+  profileId?: string; // Player profile (services/profiles.ts) of a human seat
+  color?: string; // The profile's avatar colour; seats without one get a default
+}
+
+export type TieBreak = 'POINTS' | 'SPEED' | 'TURN_ORDER' | 'SHARED' | 'PLAYOFF';
+
+// How quiz answers are scored and who flips (engine/scoring.ts)
+export interface ScoringRules {
+  orderBonus: boolean; // Extra points for the first correct answers
+  speedBonus: boolean; // Extra points for answering within a few seconds
+  wrongPenalty: boolean; // Wrong answers lose points; timeouts do not
+  steal: boolean; // The turn owner alone flips when right; others flip only when the owner misses
+  tieBreak: TieBreak; // Who wins when several players complete their goal on the same answer: one of them, all of them, or a playoff
+}
+
 export interface GameSettings {
   grade: Grade;
   playerCount: number; // 2-4
   mode: 'STANDARD' | 'DRAFT';
-  winLines: 1 | 3;
+  boardSize: BoardSize;
+  winPattern: WinPattern;
+  winLines: number; // Only used by the LINES pattern
+  quizDifficulty: QuizDifficulty;
+  scoring: ScoringRules;
+  seed: string; // Fixed match seed so another group can play the same boards; empty for a fresh one
+  seats: SeatConfig[]; // Always 4; the first playerCount are used
+}
+
+export interface DraftState {
+  pool: HanjaData[]; // Shared pool every player places from
+  slots: Record<string, (HanjaData | null)[]>; // playerId -> 25 grid slots
+  order: string[]; // Pick order (player ids)
+  pickIndex: number; // Total placements made so far
+  aiPreferences: Record<string, string[]>; // AI playerId -> hanja ids, most familiar first
+}
+
+export type QuizType =
+  | 'HANJA_TO_HUNEUM' // 天 -> 하늘 천
+  | 'HUNEUM_TO_HANJA' // 하늘 천 -> 天
+  | 'HANJA_TO_EUM' // 天 -> 천
+  | 'HANJA_TO_HUN' // 天 -> 하늘
+  | 'TYPED_EUM' // 天 -> type 천
+  | 'WORD_READING' // 天地 -> 천지
+  | 'RADICAL' // 天 -> 大
+  | 'STROKES'; // 天 -> 4획
+
+export interface QuizOption {
+  id: string; // Positional (option-1..4), so ids never give the answer away
+  label: string;
 }
 
-export interface QuizState {
-  targetHanja: HanjaData | null;
-  type: 'HANJA_TO_HUNEUM' | 'HUNEUM_TO_HANJA';
-  options: HanjaData[]; // 4 options
+// One generated question, the same for every player
+export interface QuizQuestion {
+  type: QuizType;
+  prompt: string; // Shown large: a character, a reading or a word
+  options: QuizOption[]; // Empty for typed answers
   correctOptionId: string;
-  answers: Record<string, string>; // playerId -> optionId
+  acceptedAnswers: string[]; // Normalized typed answers that count as correct
+}
+
+export interface QuizState extends QuizQuestion {
+  targetHanja: HanjaData | null; // The selected card; flipped on a correct answer
+  answers: Record<string, string>; // playerId -> optionId, or the typed text
+  answerSeconds: Record<string, number>; // playerId -> whole seconds on the quiz clock before answering
   resultsShown: boolean;
+  startedAt: number; // Epoch ms the quiz was shown, for answer latency
 }
+
+export type AnswerOutcome = 'CORRECT' | 'WRONG' | 'TIMEOUT';
+
+// One evaluated quiz, kept for the end-of-match report
+export interface RoundRecord {
+  turn: number; // 1-based
+  playerId: string; // Whose card was quizzed
+  hanja: HanjaData;
+  quizType: QuizType;
+  results: Record<string, AnswerOutcome>; // playerId -> outcome
+  answerSeconds: Record<string, number>; // Missing for timeouts
+  completedLines: Record<string, number[]>; // playerId -> line indices (engine/board.ts) completed this round
+  points: Record<string, number>; // playerId -> points gained (or lost) this round
+}
+
+// How a finished match ended
+export interface MatchOutcome {
+  kind: 'WIN' | 'SHARED' | 'DRAW';
+  winnerIds: string[]; // One for WIN, several for SHARED, none for DRAW
+  tiedIds: string[]; // Players who completed their goal on the same answer; empty without a tie
+  tieBreak: TieBreak | null; // The rule that settled the tie
+}
+
+// Extra rounds among players who completed their goal on the same answer
+export interface PlayoffState {
+  playerIds: string[];
+  round: number; // Playoff rounds played so far
+}
+
+// What happened during a match, in order (engine/events.ts). Player and hanja fields are
+// blanked in a seat's view while they are still private (engine/view.ts).
+export type GameEventData =
+  | { type: 'GAME_START'; grade: Grade; boardSize: number }
+  | { type: 'DRAFT_START' }
+  | { type: 'DRAFT_DONE' }
+  | { type: 'TURN_START'; playerId: string }
+  | { type: 'PEEK'; playerId: string; cellId: string } // cellId is '' for other seats
+  | { type: 'SELECT'; playerId: string; hanja: HanjaData | null; quizType: QuizType; auto: boolean } // hanja is null until the results
+  | { type: 'ANSWER'; playerId: string; outcome: AnswerOutcome | null; latencyMs: number | null } // outcome is null until the results; latencyMs is null for timeouts
+  | { type: 'FLIP'; playerId: string; cellId: string; hanja: HanjaData; faceUp: boolean } // faceUp false: a penalty
+  | { type: 'LINE'; playerId: string; line: number } // Index into getLines(boardSize)
+  | { type: 'SHIELD'; playerId: string; used: boolean }
+  | { type: 'STEAL'; playerIds: string[] }
+  | { type: 'SCORE'; points: Record<string, number> } // playerId -> points gained (or lost) this round
+  | { type: 'TIE'; playerIds: string[]; tieBreak: TieBreak }
+  | { type: 'PLAYOFF_ROUND'; round: number; max: number }
+  | { type: 'GAME_OVER'; outcome: MatchOutcome }
+  | { type: 'NOTE'; message: MessageRef };
+
+export type GameEventType = GameEventData['type'];
+
+export type GameEvent = GameEventData & {
+  seq: number; // 0-based position in the match
+  at: number; // Epoch ms, from the action that caused it
+  turn: number; // 0 before the first turn, then one per turn
+};
+
+export interface DraftPlacement {
+  hanjaId: string;
+  slotIndex: number;
+}
+
+export type TournamentFormat = 'BEST_OF' | 'ROUND_ROBIN';
+
+// A seat that stays the same person (or AI) across every game of a tournament
+export interface TournamentEntrant {
+  id: string; // entrant-1..4
+  seat: SeatConfig;
+}
+
+export interface TournamentGame {
+  seed: string;
+  entrantIds: string[]; // Seat order: entrantIds[i] played as player-(i + 1)
+  winnerIds: string[]; // Entrant ids; empty for a draw
+  points: Record<string, number>; // entrantId -> quiz points in this game
+}
+
+// Several local games with the same settings and entrants (engine/tournament.ts)
+export interface Tournament {
+  format: TournamentFormat;
+  bestOf: number; // BEST_OF: the match ends once someone has won a majority of this many games
+  settings: GameSettings; // Shared by every game; seats come from the entrants
+  entrants: TournamentEntrant[];
+  games: TournamentGame[]; // Finished games, oldest first
+  currentSeed: string | null; // The game being played for this tournament
+}
+
+// Full, serializable game state. Only the engine reducer produces new states.
+export interface GameState {
+  phase: GamePhase;
+  settings: GameSettings;
+  players: Player[];
+  turnIndex: number;
+  peekedCardIds: string[]; // Current turn peeking
+  quiz: QuizState | null;
+  draft: DraftState | null;
+  timeLeft: number; // Seconds, shared by PEEK and SELECT
+  events: GameEvent[]; // Oldest first, never trimmed
+  seed: string; // Match seed (engine/random.ts)
+  rngState: number; // Seeded generator position, advanced by the actions that carry one
+  actionLog: GameAction[]; // Every accepted game action since START_GAME; re-running them reproduces the match
+  rounds: RoundRecord[]; // Oldest first
+  playoff: PlayoffState | null;
+  outcome: MatchOutcome | null; // Set on GAME_OVER
+}
+
+// Every random decision is resolved by the action creators, so the reducer stays pure.
+// Creators that draw from the game's generator send its new position as `rngState`.
+// Likewise the clock: actions are stamped with `at` where they are dispatched (stampAction).
+export type GameAction = GameActionData & { at?: number };
+
+export type GameActionData =
+  | { type: 'LOAD' }
+  | {
+      type: 'START_GAME';
+      settings: GameSettings;
+      players: Player[];
+      startTurn: number;
+      draft: DraftState | null;
+      seed: string;
+      rngState: number;
+    }
+  | { type: 'DRAFT_PLACE'; playerId: string; placements: DraftPlacement[]; rngState?: number }
+  | { type: 'PEEK'; playerId: string; cellId: string }
+  | { type: 'FINISH_PEEK'; playerId: string }
+  | { type: 'SELECT'; playerId: string; hanjaId: string; question: QuizQuestion; auto?: boolean; rngState: number }
+  | { type: 'ANSWER'; playerId: string; optionId: string }
+  | { type: 'TICK' }
+  | { type: 'QUIZ_TIMEOUT' }
+  | { type: 'ADVANCE'; penalties: Record<string, string>; rngState: number } // playerId -> flipped cell id to lose
+  | { type: 'LOG'; message: MessageRef }
+  | { type: 'SYNC'; state: GameState } // Replace the state with a server snapshot (online play)
+  | { type: 'RESTORE'; state: GameState } // Continue a game saved before a reload
+  | { type: 'RESET' };
+
+// --- Study profile (services/studyProfile.ts) ---
+
+export type StudyOutcome = AnswerOutcome;
+
+// One learner's history with one character, scheduled with SM-2
+export interface StudyRecord {
+  char: string;
+  hunEum: string;
+  grade?: Grade;
+  seen: number; // Times it was the quiz target
+  correct: number;
+  wrong: number;
+  timeouts: number;
+  ease: number; // SM-2 easiness factor, >= 1.3
+  repetitions: number; // Correct answers in a row
+  interval: number; // Days until the next review
+  due: number; // Epoch ms
+  lastSeen: number; // Epoch ms
+}
+
+// --- Online play (server/ and services/netClient.ts) ---
+
+export interface RoomSeat {
+  playerId: string;
+  name: string;
+  isAI: boolean;
+  aiLevel?: AILevel;
+  claimed: boolean; // A human has taken this seat
+  connected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  hostPlayerId: string;
+  started: boolean;
+  seats: RoomSeat[];
+}
+
+// Clients only send intents; the server fills in player ids and every random choice.
+export type ClientMessage =
+  | { type: 'CREATE'; name: string; settings: GameSettings }
+  | { type: 'JOIN'; roomCode: string; name: string }
+  | { type: 'RESUME'; roomCode: string; token: string }
+  | { type: 'START' }
+  | { type: 'ACTION'; action: GameAction }
+  | { type: 'LEAVE' };
+
+export type ServerMessage =
+  | { type: 'JOINED'; roomCode: string; playerId: string; token: string }
+  | { type: 'ROOM'; room: RoomInfo }
+  | { type: 'STATE'; state: GameState } // Already filtered for the receiving seat
+  | { type: 'ERROR'; message: MessageRef };